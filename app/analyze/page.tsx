@@ -0,0 +1,103 @@
+// app/analyze/page.tsx — javari-books
+// Manuscript analytics for any pasted text — one chapter or a whole draft split on its chapter headings
+// CR AudioViz AI · EIN 39-3646201 · May 2026
+"use client";
+import { useState } from "react";
+import BookDashboard from "@/components/BookDashboard";
+import ChapterAnalytics from "@/components/ChapterAnalytics";
+import { splitChapters, type BookAnalysis, type ChapterAnalysis } from "@/lib/analytics";
+import { POVS } from "@/lib/book-options";
+import { CHAPTER_DRAFT_KEY, type ChapterDraft } from "@/lib/chapter";
+
+const label = { fontSize:11, fontWeight:700, color:"#6B7280", textTransform:"uppercase" as const, letterSpacing:"0.05em", margin:"0 0 6px" };
+const input = { width:"100%", background:"#0F1F32", border:"1px solid rgba(0,180,216,0.15)", borderRadius:8, padding:"9px 12px", color:"#e2e8f0", fontSize:13, outline:"none", fontFamily:"system-ui", boxSizing:"border-box" as const };
+
+export default function AnalyzePage() {
+  const [text, setText] = useState("");
+  const [pov, setPov] = useState("");
+  const [target, setTarget] = useState("");
+  const [chapter, setChapter] = useState<ChapterAnalysis|null>(null);
+  const [book, setBook] = useState<BookAnalysis|null>(null);
+  const [loading, setLoading] = useState(false);
+  const [notice, setNotice] = useState("");
+
+  // The target applies to every chapter, as in an outline where each runs about the same length
+  async function analyze() {
+    if (!text.trim()) return;
+    setLoading(true); setNotice("");
+    const chapters = splitChapters(text);
+    const targetWords = Number(target) || undefined;
+    const body = chapters.length > 1
+      ? { chapters: chapters.map(c => ({ ...c, targetWords })), pov }
+      : { text, pov, targetWords };
+    try {
+      const res = await fetch("/api/analyze", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+      const data = await res.json();
+      if (data?.book || data?.chapter) { setBook(data.book ?? null); setChapter(data.chapter ?? null); }
+      else setNotice(data?.fields?.[0]?.message || data?.error || "Could not analyze text.");
+    } catch { setNotice("Connection error. Please try again."); }
+    setLoading(false);
+  }
+
+  // Hands the analyzed text to the Chapter Writer, which reopens it with this panel and its "Ask writer" buttons
+  function revise(number: number, chapterText: string, targetWords?: number) {
+    const draft: ChapterDraft = { number, text: chapterText, ...(pov ? { pov } : {}), ...(targetWords ? { targetWords } : {}) };
+    localStorage.setItem(CHAPTER_DRAFT_KEY, JSON.stringify(draft));
+    window.location.href = "/outline?mode=chapter";
+  }
+
+  const words = text.split(/\s+/).filter(Boolean).length;
+
+  return (
+    <div style={{ minHeight:"100vh", background:"#040912", color:"#e2e8f0", fontFamily:"system-ui" }}>
+      <nav style={{ background:"#1E3A5F", padding:"0 20px", height:52, display:"flex", alignItems:"center", justifyContent:"space-between", position:"sticky", top:0, zIndex:100 }}>
+        <div style={{ display:"flex", alignItems:"center", gap:8 }}>
+          <a href="/" style={{ color:"#9CA3AF", textDecoration:"none", fontSize:13 }}>📚 Javari Books</a>
+          <span style={{ color:"#374151" }}>·</span>
+          <span style={{ color:"#00B4D8", fontWeight:700 }}>Manuscript Analytics</span>
+        </div>
+        <a href="https://craudiovizai.com/auth/signup" style={{ background:"#FF0800", color:"#fff", borderRadius:7, padding:"5px 14px", fontSize:12, fontWeight:700, textDecoration:"none" }}>Sign Up</a>
+      </nav>
+
+      <div style={{ maxWidth:1000, margin:"0 auto", padding:"28px 20px 72px", display:"flex", flexDirection:"column", gap:14 }}>
+        <div>
+          <p style={label}>Your text</p>
+          <textarea value={text} onChange={e => setText(e.target.value)} rows={12} placeholder={"Paste a chapter, or a whole draft — lines starting with \"Chapter …\" split it into chapters."}
+            style={{ ...input, resize:"vertical", lineHeight:1.6 }} />
+          <p style={{ margin:"4px 0 0", fontSize:11, color:"#6B7280" }}>{words.toLocaleString()} words · analyzed locally, no AI and no credits</p>
+        </div>
+        <div style={{ display:"flex", gap:12, alignItems:"flex-end" }}>
+          <div style={{ flex:1 }}>
+            <p style={label}>POV</p>
+            <select value={pov} onChange={e => setPov(e.target.value)} style={input}>
+              <option value="">Don't check</option>
+              {POVS.map(p => <option key={p}>{p}</option>)}
+            </select>
+          </div>
+          <div style={{ flex:1 }}>
+            <p style={label}>Target words per chapter</p>
+            <input value={target} onChange={e => setTarget(e.target.value)} type="number" min="1" placeholder="Optional" style={input} />
+          </div>
+          <button onClick={analyze} disabled={!text.trim() || loading}
+            style={{ flex:1, background: !text.trim() ? "#0F1F32" : "linear-gradient(135deg,#1E3A5F,#00B4D8)", color: !text.trim() ? "#374151" : "#fff", border:"none", borderRadius:10, padding:"11px", fontSize:14, fontWeight:700, cursor: !text.trim() ? "not-allowed" : "pointer", fontFamily:"system-ui" }}>
+            {loading ? "Analyzing…" : "📊 Analyze"}
+          </button>
+        </div>
+        {notice && <p style={{ margin:0, fontSize:12, color:"#F59E0B" }}>{notice}</p>}
+
+        {(book || chapter) && (
+          <div style={{ background:"#0F1F32", border:"1px solid rgba(0,180,216,0.12)", borderRadius:14, padding:"20px 24px" }}>
+            {book ? <BookDashboard book={book} onOpenChapter={n => { const c = splitChapters(text).find(ch => ch.number === n); if (c) revise(n, c.text, Number(target) || undefined); }} />
+              : chapter && (
+                <>
+                  <ChapterAnalytics analysis={chapter} />
+                  <button onClick={() => revise(1, text, Number(target) || undefined)}
+                    style={{ marginTop:8, background:"transparent", color:"#00B4D8", border:"1px solid rgba(0,180,216,0.3)", borderRadius:6, padding:"4px 10px", fontSize:12, cursor:"pointer", fontFamily:"system-ui" }}>✍️ Revise in Chapter Writer</button>
+                </>
+              )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
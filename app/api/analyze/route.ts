@@ -0,0 +1,69 @@
+// app/api/analyze/route.ts — javari-books
+// Manuscript analytics — pasted text, a list of chapters, or a saved project's current versions.
+// Deterministic and local (no AI), so it is free — but rate-limited, since a whole book is real CPU work.
+import { NextRequest, NextResponse } from 'next/server'
+import { analyzeBook, analyzeChapter, analyzeProject, type AnalyzeChapter } from '@/lib/analytics'
+import { POVS } from '@/lib/book-options'
+import { throttle } from '@/lib/metering'
+import { callerProject } from '@/lib/project-store'
+import { currentVersion, MAX_CHAPTER_CHARS } from '@/lib/projects'
+import { getAnalyzeRateLimiter } from '@/lib/rate-limit'
+import type { FieldError } from '@/lib/validate'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const MAX_CHAPTERS = 500
+// About 170,000 words — a long novel
+const MAX_BOOK_CHARS = 1000000
+
+function parseChapter(raw: unknown, at: string, errors: FieldError[], fallback: number): AnalyzeChapter | undefined {
+  const c = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const before = errors.length
+  if (typeof c.text !== 'string' || !c.text.trim()) errors.push({ field: `${at}text`, message: 'text is required' })
+  else if (c.text.length > MAX_CHAPTER_CHARS) errors.push({ field: `${at}text`, message: `text must be at most ${MAX_CHAPTER_CHARS} characters` })
+  const number = c.number === undefined ? fallback : Number(c.number)
+  if (!Number.isInteger(number) || number < 1 || number > MAX_CHAPTERS) errors.push({ field: `${at}number`, message: `number must be a whole number from 1 to ${MAX_CHAPTERS}` })
+  const target = c.targetWords === undefined || c.targetWords === null || c.targetWords === '' ? undefined : Number(c.targetWords)
+  if (target !== undefined && !(Number.isInteger(target) && target > 0 && target <= 1000000)) errors.push({ field: `${at}targetWords`, message: 'targetWords must be a positive whole number' })
+  if (c.title !== undefined && typeof c.title !== 'string') errors.push({ field: `${at}title`, message: 'title must be text' })
+  if (errors.length > before) return undefined
+  return { number, text: c.text as string, ...(c.title ? { title: c.title as string } : {}), ...(target ? { targetWords: target } : {}) }
+}
+
+// Body: { projectId } | { chapters: [{ text, number?, title?, targetWords? }], pov? } | { text, pov?, targetWords? }
+export async function POST(req: NextRequest) {
+  try {
+    const limited = throttle(req, getAnalyzeRateLimiter())
+    if (limited) return limited
+    const b = await req.json().catch(() => null) as Record<string, unknown> | null
+    if (!b || typeof b !== 'object') return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+    if (b.projectId !== undefined) {
+      const project = await callerProject(req, b.projectId)
+      if (project instanceof Response) return project
+      if (project.chapters.reduce((n, c) => n + (currentVersion(c)?.text.length ?? 0), 0) > MAX_BOOK_CHARS) {
+        return NextResponse.json({ error: `Manuscript exceeds ${MAX_BOOK_CHARS} characters` }, { status: 413 })
+      }
+      return NextResponse.json({ book: analyzeProject(project) })
+    }
+    const errors: FieldError[] = []
+    if (b.pov !== undefined && b.pov !== '' && !POVS.includes(b.pov as string)) errors.push({ field: 'pov', message: `pov must be one of: ${POVS.join(', ')}` })
+    const pov = (b.pov as string) || undefined
+    if (b.chapters !== undefined) {
+      if (!Array.isArray(b.chapters) || !b.chapters.length || b.chapters.length > MAX_CHAPTERS) {
+        errors.push({ field: 'chapters', message: `chapters must be a list of 1 to ${MAX_CHAPTERS} chapters` })
+        return NextResponse.json({ error: 'Invalid input', fields: errors }, { status: 400 })
+      }
+      const chapters = b.chapters.map((c, i) => parseChapter(c, `chapters[${i}].`, errors, i + 1))
+      if (chapters.reduce((n, c) => n + (c?.text.length ?? 0), 0) > MAX_BOOK_CHARS) errors.push({ field: 'chapters', message: `chapters must total at most ${MAX_BOOK_CHARS} characters` })
+      const numbers = chapters.map(c => c?.number)
+      if (new Set(numbers).size !== numbers.length) errors.push({ field: 'chapters', message: 'chapter numbers must be unique' })
+      if (errors.length) return NextResponse.json({ error: 'Invalid input', fields: errors }, { status: 400 })
+      return NextResponse.json({ book: analyzeBook(chapters as AnalyzeChapter[], { pov }) })
+    }
+    const chapter = parseChapter(b, '', errors, 1)
+    if (errors.length || !chapter) return NextResponse.json({ error: 'Invalid input', fields: errors }, { status: 400 })
+    return NextResponse.json({ chapter: analyzeChapter(chapter, { pov }) })
+  } catch (e: unknown) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : 'Failed' }, { status: 500 })
+  }
+}
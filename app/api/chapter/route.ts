@@ -0,0 +1,44 @@
+// app/api/chapter/route.ts — javari-books
+// Chapter Writer — builds the prompt server-side so a project's story bible and earlier chapters ride along
+import { NextRequest, NextResponse } from 'next/server'
+import { AIUnavailableError, complete, streamComplete } from '@/lib/ai'
+import { continuityContext } from '@/lib/bible'
+import { CHAPTER_FIELDS, chapterPrompt, chapterSystem } from '@/lib/chapter'
+import { creditCost } from '@/lib/credits'
+import { meter } from '@/lib/metering'
+import { callerProject } from '@/lib/project-store'
+import { completionStream } from '@/lib/sse'
+import { validateValues } from '@/lib/validate'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+export async function POST(req: NextRequest) {
+  try {
+    const b = await req.json().catch(() => null) as Record<string, unknown> | null
+    if (!b) return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+    const { projectId, stream, ...fields } = b
+    const { values, errors } = validateValues(CHAPTER_FIELDS, fields)
+    if (errors.length) return NextResponse.json({ error: 'Invalid input', fields: errors }, { status: 400 })
+    let context = ''
+    if (projectId !== undefined) {
+      const project = await callerProject(req, projectId)
+      if (project instanceof Response) return project
+      context = continuityContext(project, Number(values.chapterNumber))
+    }
+    const prompt = chapterPrompt(values, context)
+    const system = chapterSystem(values.genre || 'Fiction')
+    // ~1.6 tokens per English word, with headroom so long chapters aren't cut off
+    const words = Number(values.wordCount || 1500)
+    const maxTokens = Math.min(8192, Math.ceil(words * 1.6))
+    const turns = [{ role: 'user' as const, content: prompt }]
+    const m = await meter(req, creditCost({ kind: 'chapter', words }), 'chapter')
+    if (m instanceof Response) return m
+    if (stream === true) return m.headers(completionStream((onDelta, signal) => m.guard(streamComplete(turns, system, onDelta, { maxTokens, signal })), req.signal))
+    const content = await m.guard(complete(turns, system, { maxTokens }))
+    return m.headers(NextResponse.json({ content, context_included: Boolean(context), credits_used: m.cost, credits_remaining: m.balance }))
+  } catch (e: unknown) {
+    if (e instanceof AIUnavailableError) return NextResponse.json({ error: 'AI unavailable', failures: e.summary }, { status: 502 })
+    return NextResponse.json({ error: e instanceof Error ? e.message : 'Failed' }, { status: 500 })
+  }
+}
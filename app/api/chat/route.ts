@@ -0,0 +1,66 @@
+// app/api/chat/route.ts — javari-books
+// Multi-turn chat for the writing suite — outlines, chapters and follow-up edits
+import { NextRequest, NextResponse } from 'next/server'
+import { AIUnavailableError, complete, streamComplete, type ChatMessage } from '@/lib/ai'
+import { creditCost } from '@/lib/credits'
+import { meter } from '@/lib/metering'
+import { getGenerationDefaults } from '@/lib/providers'
+import { completionStream } from '@/lib/sse'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+const SYSTEM = `You are a professional book editor and bestselling author for CR AudioViz AI.
+Help authors outline, draft and revise their books. When asked to change earlier work,
+apply the change to your previous answer and return the full revised version.`
+
+const ROLES = ['system', 'user', 'assistant']
+const MAX_MESSAGES = 40
+const MAX_CHARS = 60000
+const MAX_TOKENS = 8192
+
+// Returns the validated conversation, or an error message for a 400
+function parseMessages(raw: unknown): ChatMessage[] | string {
+  if (!Array.isArray(raw) || raw.length === 0) return 'messages must be a non-empty array'
+  if (raw.length > MAX_MESSAGES) return `messages may contain at most ${MAX_MESSAGES} turns`
+  const out: ChatMessage[] = []
+  let chars = 0
+  for (const m of raw as Array<{ role?: unknown; content?: unknown }>) {
+    if (!m || typeof m.role !== 'string' || !ROLES.includes(m.role)) return 'each message needs a role of system, user or assistant'
+    if (typeof m.content !== 'string' || !m.content.trim()) return 'each message needs non-empty string content'
+    chars += m.content.length
+    out.push({ role: m.role as ChatMessage['role'], content: m.content })
+  }
+  if (chars > MAX_CHARS) return `conversation exceeds ${MAX_CHARS} characters`
+  if (out[out.length - 1].role !== 'user') return 'the last message must be from the user'
+  return out
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const b = await req.json().catch(() => null) as { messages?: unknown; systemOverride?: unknown; stream?: boolean; maxTokens?: unknown } | null
+    if (!b) return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+    const parsed = parseMessages(b.messages)
+    if (typeof parsed === 'string') return NextResponse.json({ error: parsed }, { status: 400 })
+    // Inline system turns are folded into the system prompt so providers always see one
+    const inline = parsed.filter(m => m.role === 'system').map(m => m.content)
+    const base = typeof b.systemOverride === 'string' && b.systemOverride.trim() ? b.systemOverride : SYSTEM
+    const system = [base, ...inline].join('\n\n')
+    const turns = parsed.filter(m => m.role !== 'system')
+    // Long chapters need more room than the provider default
+    const maxTokens = typeof b.maxTokens === 'number' && b.maxTokens > 0 ? Math.min(Math.floor(b.maxTokens), MAX_TOKENS) : undefined
+    const m = await meter(req, creditCost({ kind: 'chat', maxTokens: maxTokens ?? getGenerationDefaults().maxTokens }), 'chat')
+    if (m instanceof Response) return m
+    if (b.stream === true) return m.headers(completionStream((onDelta, signal) => m.guard(streamComplete(turns, system, onDelta, { maxTokens, signal })), req.signal))
+    const content = await m.guard(complete(turns, system, { maxTokens }))
+    return m.headers(NextResponse.json({
+      id: 'chat-' + Date.now().toString(36),
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    }))
+  } catch (e: unknown) {
+    if (e instanceof AIUnavailableError) return NextResponse.json({ error: 'AI unavailable', failures: e.summary }, { status: 502 })
+    return NextResponse.json({ error: e instanceof Error ? e.message : 'Failed' }, { status: 500 })
+  }
+}
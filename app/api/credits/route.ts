@@ -0,0 +1,22 @@
+// app/api/credits/route.ts — javari-books
+// Caller's credit balance and the price list — free, and not rate limited
+import { NextRequest, NextResponse } from 'next/server'
+import { ACTION_COSTS, CONTINUITY_COST, GENERATE_COST, getCreditStore, OUTLINE_COST, REGENERATE_COST } from '@/lib/credits'
+import { identify, IdentityError } from '@/lib/identity'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+export async function GET(req: NextRequest) {
+  try {
+    const identity = identify(req.headers)
+    const balance = await getCreditStore().balance(identity.id)
+    return NextResponse.json({
+      identity: identity.kind,
+      balance,
+      costs: { generate: GENERATE_COST, actions: ACTION_COSTS, outline: OUTLINE_COST, continuity: CONTINUITY_COST, regenerate: REGENERATE_COST, chapter: '1 + 1 per 500 words', revise: '1 + 1 per 500 words of the passage', chat: '1 + 1 per 1024 max tokens' },
+    })
+  } catch (e: unknown) {
+    if (e instanceof IdentityError) return NextResponse.json({ error: e.message }, { status: 401 })
+    return NextResponse.json({ error: e instanceof Error ? e.message : 'Failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+// app/api/export/route.ts — javari-books
+// Assembled book download — Markdown, DOCX, EPUB 3 or standard manuscript, from a saved project or inline chapters
+import { NextRequest, NextResponse } from 'next/server'
+import { bookFromProject, EXPORT_FORMATS, exportBook, ExportValidationError, parseExportBook, type ExportBook, type ExportFormat } from '@/lib/export'
+import { callerProject } from '@/lib/project-store'
+import type { FieldError } from '@/lib/validate'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Body: { format, projectId } or { format, book: { title?, genre?, outline?, chapters: [{ number, title?, text }] } },
+// plus optional { author, contact: string[] } for the title pages
+export async function POST(req: NextRequest) {
+  const b = await req.json().catch(() => null) as Record<string, unknown> | null
+  if (!b) return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  const format = b.format as ExportFormat
+  const fields: FieldError[] = []
+  if (!Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, format)) fields.push({ field: 'format', message: `format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` })
+  if (b.author !== undefined && typeof b.author !== 'string') fields.push({ field: 'author', message: 'author must be text' })
+  if (b.contact !== undefined && (!Array.isArray(b.contact) || b.contact.some(l => typeof l !== 'string'))) fields.push({ field: 'contact', message: 'contact must be a list of lines' })
+  if (fields.length) return NextResponse.json({ error: 'Invalid input', fields }, { status: 400 })
+  const meta = { author: b.author as string | undefined, contact: b.contact as string[] | undefined }
+
+  let book: ExportBook
+  if (typeof b.projectId === 'string') {
+    const project = await callerProject(req, b.projectId)
+    if (project instanceof Response) return project
+    book = bookFromProject(project, meta)
+    if (!book.chapters.length) return NextResponse.json({ error: 'Project has no chapters to export' }, { status: 400 })
+  } else {
+    const r = parseExportBook(b.book, meta)
+    if (!r.book) return NextResponse.json({ error: 'Invalid input', fields: r.errors }, { status: 400 })
+    book = r.book
+  }
+
+  try {
+    const file = exportBook(book, format)
+    return new Response(new Blob([file.data as Uint8Array<ArrayBuffer>]), {
+      headers: {
+        'Content-Type': file.mime,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (e) {
+    if (e instanceof ExportValidationError) return NextResponse.json({ error: 'Export failed validation', problems: e.problems }, { status: 500 })
+    return NextResponse.json({ error: e instanceof Error ? e.message : 'Export failed' }, { status: 500 })
+  }
+}
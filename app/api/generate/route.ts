@@ -1,50 +1,163 @@
 // app/api/generate/route.ts — javari-books
-// AI book discovery, recommendations, summaries, reading plans
+// AI book discovery, recommendations, summaries, reading plans — and the author-side writing tools
 import { NextRequest, NextResponse } from 'next/server'
+import { AIUnavailableError, CancelledError, complete, requestDeadline, streamComplete, timeForFollowUp, type ChatMessage } from '@/lib/ai'
+import { bookListToText, checkBooks, parseBookList, replacementPrompt, tallyBooks, type BookEntry, type CheckedBook } from '@/lib/book-list'
+import { getCatalog } from '@/lib/catalog'
+import { creditCost } from '@/lib/credits'
+import { extractJSON } from '@/lib/json'
+import { excludeShelved, libraryValues, type Library } from '@/lib/library'
+import { libraryStore } from '@/lib/library-store'
+import { meter } from '@/lib/metering'
+import { ownerOf } from '@/lib/owner'
+import { countWords } from '@/lib/projects'
+import { completionStream } from '@/lib/sse'
+import { getAction, getActions, getFields, type Action, type FieldValues } from '@/lib/tool-data'
+import { validateValues } from '@/lib/validate'
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
 export const maxDuration = 60
 
-const GROQ = process.env.GROQ_API_KEY ?? ''
-const OR   = process.env.OPENROUTER_API_KEY ?? ''
-const CREDIT_COST = 2
-
 const SYSTEM = `You are a world-class literary expert and book curator for CR AudioViz AI.
 Help readers discover books, understand themes, build reading lists, and get book summaries.
 Be specific with real book titles, authors, ISBN/publication info, and honest assessments.
 Never make up books that don't exist.`
 
-const ACTIONS = ['book_recommendations', 'reading_list', 'book_summary', 'author_research', 'discussion_questions', 'genre_explorer', 'speed_read_guide']
+const WRITING_SYSTEM = `You are a veteran publishing professional — acquisitions editor, literary agent and copywriter — for CR AudioViz AI.
+Help authors present their own book: blurbs, query letters, titles and synopses that follow industry conventions.
+Work only from the details the author gives; never invent plot points, credentials or sales figures.`
+
+const systemFor = (a: Action) => (a.kind === 'writing' ? WRITING_SYSTEM : SYSTEM)
+const costOf = (a: Action, v: FieldValues, regenerate = false) => creditCost({ kind: 'generate', action: a.id, wordCap: a.wordCap?.(v), regenerate: regenerate && !!a.books })
+
+// Cuts at the last sentence end inside the cap, or at the cap itself when that would lose over half
+function capWords(text: string, cap: number): string {
+  if (countWords(text) <= cap) return text
+  const cut = text.trim().split(/(\s+)/).slice(0, cap * 2 - 1).join('')
+  const ends = Array.from(cut.matchAll(/[.!?]["”’)]?(?=\s|$)/g))
+  const last = ends[ends.length - 1]
+  return last && last.index! > cut.length / 2 ? cut.slice(0, last.index! + last[0].length) : cut + '…'
+}
+
+// Releases streamed text a sentence at a time, so that once it passes the cap the rest of capWords' cut can
+// still follow and the streamed result matches the non-stream one. push() returns the text ready to send.
+function streamCap(cap: number) {
+  let full = '', sent = 0, capped = false
+  return {
+    get capped() { return capped },
+    get text() { return capped ? capWords(full, cap) : full },
+    push(t: string): string {
+      if (capped) return ''
+      full += t
+      if (countWords(full) > cap) {
+        capped = true
+        const lead = full.length - full.trimStart().length
+        return sent ? capWords(full, cap).slice(sent - lead) : capWords(full, cap)
+      }
+      const ends = Array.from(full.slice(sent).matchAll(/[.!?]["”’)]?(?=\s)/g))
+      const last = ends[ends.length - 1]
+      if (!last) return ''
+      const end = sent + last.index! + last[0].length
+      const ready = full.slice(sent, end)
+      sent = end
+      return ready
+    },
+    flush(): string {
+      const rest = capped ? '' : full.slice(sent)
+      sent = full.length
+      return rest
+    },
+  }
+}
 
-async function gen(prompt: string): Promise<string> {
-  if (OR) {
+// Every entry is checked against the catalog before anything is returned, so book lists never stream.
+// With regenerate, the model is asked once to replace rejected entries; replacements are checked the same way.
+// Books already on the reader's read, reading or DNF shelves count as rejected.
+async function generateBookList(action: Action, values: FieldValues, regenerate: boolean, lib?: Library) {
+  const catalog = getCatalog()
+  const turns: ChatMessage[] = [{ role: 'user', content: action.buildPrompt(values) }]
+  const opts = { task: 'books', deadline: requestDeadline() }
+  const first = await complete(turns, SYSTEM, opts)
+  const parsed = parseBookList(extractJSON(first))
+  if (!parsed.list) return { errors: parsed.errors }
+  const check = async (bs: BookEntry[], taken?: BookEntry[]) => { const c = await checkBooks(bs, catalog, taken); return lib ? excludeShelved(c, lib) : c }
+  let books = await check(parsed.list.books)
+  const rejected = books.filter(b => b.status === 'rejected')
+  const removed: CheckedBook[] = []
+  // The catalog checks ate into the deadline too; without time for a second pass the rejected entries stay marked
+  if (regenerate && rejected.length && timeForFollowUp(opts.deadline)) {
+    const kept = books.filter(b => b.status !== 'rejected')
     try {
-      const r = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${OR}`, 'HTTP-Referer': 'https://craudiovizai.com' },
-        body: JSON.stringify({ model: 'deepseek/deepseek-v4-flash:free', max_tokens: 2048, temperature: 0.7, messages: [{ role: 'system', content: SYSTEM }, { role: 'user', content: prompt }] })
+      const second = await complete([...turns, { role: 'assistant', content: first }, { role: 'user', content: replacementPrompt(rejected, kept) }], SYSTEM, opts)
+      const fresh = (await check(parseBookList(extractJSON(second)).list?.books ?? [], kept)).filter(b => b.status !== 'rejected')
+      let n = 0
+      books = books.map(b => {
+        if (b.status !== 'rejected' || n >= fresh.length) return b
+        removed.push(b)
+        return fresh[n++]
       })
-      if (r.ok) { const d = await r.json() as { choices?: Array<{ message?: { content?: string } }> }; const t = d.choices?.[0]?.message?.content ?? ''; if (t.length > 50) return t }
-    } catch { /* fall through */ }
+    } catch (e) {
+      // The first list is still worth returning; its rejected entries stay marked
+      if (!(e instanceof AIUnavailableError)) throw e
+    }
   }
-  if (!GROQ) throw new Error('AI unavailable')
-  const r = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-    method: 'POST', headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${GROQ}` },
-    body: JSON.stringify({ model: 'llama-3.3-70b-versatile', max_tokens: 2048, temperature: 0.7, messages: [{ role: 'system', content: SYSTEM }, { role: 'user', content: prompt }] })
-  })
-  if (!r.ok) throw new Error(`AI error ${r.status}`)
-  const d = await r.json() as { choices?: Array<{ message?: { content?: string } }> }
-  return d.choices?.[0]?.message?.content ?? ''
+  return { summary: parsed.list.summary, books, removed, catalog: catalog?.name ?? 'none' }
 }
 
-export async function GET() { return NextResponse.json({ actions: ACTIONS, cost: CREDIT_COST + ' credits' }) }
+export async function GET() {
+  const actions = getActions().map(a => ({ id: a.id, label: a.label, desc: a.desc, kind: a.kind ?? 'discovery', verified: !!a.books, cost: costOf(a, {}), form: getFields(a.id) }))
+  return NextResponse.json({ actions })
+}
 export async function POST(req: NextRequest) {
   try {
-    const b = await req.json() as { action: string; input: string }
-    if (!ACTIONS.includes(b.action)) return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
-    const result = await gen(b.input)
-    return NextResponse.json({ result, credits_used: CREDIT_COST })
+    const b = await req.json().catch(() => null) as { action?: unknown; values?: unknown; stream?: boolean; regenerate?: unknown } | null
+    if (!b) return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+    const action = typeof b.action === 'string' ? getAction(b.action) : undefined
+    if (!action) return NextResponse.json({ error: 'Invalid action', fields: [{ field: 'action', message: 'Unknown action' }] }, { status: 400 })
+    const { values, errors } = validateValues(getFields(action.id).fields, b.values)
+    if (b.regenerate !== undefined && typeof b.regenerate !== 'boolean') errors.push({ field: 'regenerate', message: 'regenerate must be true or false' })
+    if (errors.length) return NextResponse.json({ error: 'Invalid input', fields: errors }, { status: 400 })
+    const cap = action.wordCap?.(values)
+    const opts = cap ? { maxTokens: Math.ceil(cap * 1.6) } : {}
+    const regenerate = b.regenerate === true
+    const m = await meter(req, costOf(action, values, regenerate), `generate:${action.id}`)
+    if (m instanceof Response) return m
+    // Without an owner (no cookie or API key) there is simply no library to draw on
+    const owner = action.library ? ownerOf(req) : undefined
+    const lib = typeof owner === 'string' ? await libraryStore().get(owner) : undefined
+    if (lib) Object.assign(values, libraryValues(lib))
+    if (action.books) {
+      const r = await m.guard(generateBookList(action, values, regenerate, lib))
+      if (!r.books) { await m.refund(); return NextResponse.json({ error: 'Could not parse book list', details: r.errors }, { status: 502 }) }
+      return m.headers(NextResponse.json({
+        result: bookListToText(r.summary, r.books), summary: r.summary, books: r.books, removed: r.removed,
+        verification: { catalog: r.catalog, ...tallyBooks(r.books), replaced: r.removed.length },
+        credits_used: m.cost, credits_remaining: m.balance,
+      }))
+    }
+    const messages = [{ role: 'user' as const, content: action.buildPrompt(values) }]
+    if (b.stream === true && cap) {
+      // The provider is stopped at the cap; the last chunk reports the cap as the JSON response does
+      const out = streamCap(cap)
+      return m.headers(completionStream(async (onDelta, signal) => {
+        const stop = new AbortController()
+        signal.addEventListener('abort', () => stop.abort())
+        const send = (t: string) => { if (t) onDelta(t) }
+        try {
+          await m.guard(streamComplete(messages, systemFor(action), t => { send(out.push(t)); if (out.capped) stop.abort() }, { ...opts, signal: stop.signal }))
+        } catch (e) {
+          if (!(e instanceof CancelledError && out.capped && !signal.aborted)) throw e
+        }
+        send(out.flush())
+        return out.text
+      }, req.signal, text => ({ word_cap: cap, words: countWords(text), truncated: out.capped })))
+    }
+    if (b.stream === true) return m.headers(completionStream((onDelta, signal) => m.guard(streamComplete(messages, systemFor(action), onDelta, { ...opts, signal })), req.signal))
+    const text = await m.guard(complete(messages, systemFor(action), opts))
+    const result = cap ? capWords(text, cap) : text
+    return m.headers(NextResponse.json({ result, credits_used: m.cost, credits_remaining: m.balance, ...(cap ? { word_cap: cap, words: countWords(result), truncated: result !== text } : {}) }))
   } catch (e: unknown) {
+    if (e instanceof AIUnavailableError) return NextResponse.json({ error: 'AI unavailable', failures: e.summary }, { status: 502 })
     return NextResponse.json({ error: e instanceof Error ? e.message : 'Failed' }, { status: 500 })
   }
 }
@@ -0,0 +1,36 @@
+// app/api/library/books/[id]/route.ts — javari-books
+// One library book — move shelves, rate, update progress and dates, remove
+import { NextRequest, NextResponse } from 'next/server'
+import { applyBookPatch, parseBookInput, type LibraryBook } from '@/lib/library'
+import { updateCallerLibrary } from '@/lib/library-store'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+type Params = { params: { id: string } }
+const notFound = () => NextResponse.json({ error: 'Book not found' }, { status: 404 })
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const b = await req.json().catch(() => null)
+  if (!b) return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  const { patch, errors } = parseBookInput(b, false)
+  if (errors.length) return NextResponse.json({ error: 'Invalid input', fields: errors }, { status: 400 })
+  let next: LibraryBook | undefined
+  const saved = await updateCallerLibrary(req, lib => {
+    const book = lib.books.find(x => x.id === params.id)
+    if (!book) return notFound()
+    const now = new Date().toISOString()
+    const updated = applyBookPatch(book, patch, now)
+    if (updated.startedAt && updated.finishedAt && updated.finishedAt < updated.startedAt) return NextResponse.json({ error: 'Invalid input', fields: [{ field: 'finishedAt', message: 'finishedAt is before startedAt' }] }, { status: 400 })
+    next = updated
+    return { ...lib, books: lib.books.map(x => (x.id === book.id ? updated : x)), updatedAt: now }
+  })
+  return saved instanceof Response ? saved : NextResponse.json({ book: next })
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const saved = await updateCallerLibrary(req, lib =>
+    lib.books.some(b => b.id === params.id)
+      ? { ...lib, books: lib.books.filter(b => b.id !== params.id), updatedAt: new Date().toISOString() }
+      : notFound())
+  return saved instanceof Response ? saved : NextResponse.json({ deleted: true })
+}
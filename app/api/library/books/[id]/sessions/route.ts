@@ -0,0 +1,24 @@
+// app/api/library/books/[id]/sessions/route.ts — javari-books
+// Logs a reading session — minutes plus pages or words read; feeds progress and the measured reading speed
+import { NextRequest, NextResponse } from 'next/server'
+import { addSession, parseSessionInput, readingSpeed, type LibraryBook } from '@/lib/library'
+import { updateCallerLibrary } from '@/lib/library-store'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  const b = await req.json().catch(() => null)
+  if (!b) return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  const now = new Date().toISOString()
+  const { session, errors } = parseSessionInput(b, now.slice(0, 10))
+  if (!session) return NextResponse.json({ error: 'Invalid input', fields: errors }, { status: 400 })
+  let next: LibraryBook | undefined
+  const saved = await updateCallerLibrary(req, lib => {
+    const book = lib.books.find(x => x.id === params.id)
+    if (!book) return NextResponse.json({ error: 'Book not found' }, { status: 404 })
+    const updated = addSession(book, session, now)
+    next = updated
+    return { ...lib, books: lib.books.map(x => (x.id === book.id ? updated : x)), updatedAt: now }
+  })
+  return saved instanceof Response ? saved : NextResponse.json({ book: next, wpm: readingSpeed(saved) ?? null }, { status: 201 })
+}
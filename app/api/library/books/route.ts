@@ -0,0 +1,24 @@
+// app/api/library/books/route.ts — javari-books
+// Adds a book to the caller's library
+import { NextRequest, NextResponse } from 'next/server'
+import { findBook, MAX_LIBRARY_BOOKS, newBook, parseBookInput, type LibraryBook } from '@/lib/library'
+import { updateCallerLibrary } from '@/lib/library-store'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+export async function POST(req: NextRequest) {
+  const b = await req.json().catch(() => null)
+  if (!b) return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  const { patch, errors } = parseBookInput(b, true)
+  if (errors.length) return NextResponse.json({ error: 'Invalid input', fields: errors }, { status: 400 })
+  let book: LibraryBook | undefined
+  const saved = await updateCallerLibrary(req, lib => {
+    const existing = findBook(lib, { title: patch.title!, author: patch.author!, isbn: patch.isbn })
+    if (existing) return NextResponse.json({ error: 'Already in your library', book: existing }, { status: 409 })
+    if (lib.books.length >= MAX_LIBRARY_BOOKS) return NextResponse.json({ error: `A library holds at most ${MAX_LIBRARY_BOOKS} books` }, { status: 400 })
+    const now = new Date().toISOString()
+    book = newBook(patch, now)
+    return { ...lib, books: [...lib.books, book], updatedAt: now }
+  })
+  return saved instanceof Response ? saved : NextResponse.json({ book }, { status: 201 })
+}
@@ -0,0 +1,24 @@
+// app/api/library/import/route.ts — javari-books
+// Imports a Goodreads or StoryGraph CSV export into the caller's library
+import { NextRequest, NextResponse } from 'next/server'
+import { MAX_IMPORT_CHARS, mergeImport, parseLibraryCsv } from '@/lib/library'
+import { updateCallerLibrary } from '@/lib/library-store'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+export async function POST(req: NextRequest) {
+  const b = await req.json().catch(() => null) as { csv?: unknown } | null
+  if (!b) return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  if (typeof b.csv !== 'string' || !b.csv.trim() || b.csv.length > MAX_IMPORT_CHARS) {
+    return NextResponse.json({ error: 'Invalid input', fields: [{ field: 'csv', message: `csv must be the export file's text, at most ${MAX_IMPORT_CHARS} characters` }] }, { status: 400 })
+  }
+  const parsed = parseLibraryCsv(b.csv)
+  if (!parsed.format) return NextResponse.json({ error: 'Unrecognized CSV', details: parsed.errors }, { status: 400 })
+  let counts = { added: 0, updated: 0, skipped: 0 }
+  const saved = await updateCallerLibrary(req, lib => {
+    const { library, added, updated, skipped } = mergeImport(lib, parsed.books, new Date().toISOString())
+    counts = { added, updated, skipped }
+    return library
+  })
+  return saved instanceof Response ? saved : NextResponse.json({ format: parsed.format, ...counts, errors: parsed.errors })
+}
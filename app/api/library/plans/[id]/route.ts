@@ -0,0 +1,14 @@
+// app/api/library/plans/[id]/route.ts — javari-books
+// Removes a reading plan; its books stay on their shelves
+import { NextRequest, NextResponse } from 'next/server'
+import { updateCallerLibrary } from '@/lib/library-store'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  const saved = await updateCallerLibrary(req, lib =>
+    lib.plans.some(p => p.id === params.id)
+      ? { ...lib, plans: lib.plans.filter(p => p.id !== params.id), updatedAt: new Date().toISOString() }
+      : NextResponse.json({ error: 'Plan not found' }, { status: 404 }))
+  return saved instanceof Response ? saved : NextResponse.json({ deleted: true })
+}
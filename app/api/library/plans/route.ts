@@ -0,0 +1,23 @@
+// app/api/library/plans/route.ts — javari-books
+// Turns a reading list into a tracked plan — books join the to-read shelf and get due dates
+import { NextRequest, NextResponse } from 'next/server'
+import { createPlan, parsePlanInput, planProgress, type ReadingPlan } from '@/lib/library'
+import { updateCallerLibrary } from '@/lib/library-store'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+export async function POST(req: NextRequest) {
+  const b = await req.json().catch(() => null)
+  if (!b) return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  const now = new Date().toISOString()
+  const { input, errors } = parsePlanInput(b, now.slice(0, 10))
+  if (!input) return NextResponse.json({ error: 'Invalid input', fields: errors }, { status: 400 })
+  let plan: ReadingPlan | undefined
+  const saved = await updateCallerLibrary(req, lib => {
+    const r = createPlan(lib, input, now)
+    plan = r.plan
+    return r.library
+  })
+  if (saved instanceof Response) return saved
+  return NextResponse.json({ plan: { ...plan!, ...planProgress(plan!, saved, now.slice(0, 10)) } }, { status: 201 })
+}
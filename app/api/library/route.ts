@@ -0,0 +1,12 @@
+// app/api/library/route.ts — javari-books
+// The caller's reading library — shelves, reading plans and stats
+import { NextRequest, NextResponse } from 'next/server'
+import { callerLibrary, libraryView } from '@/lib/library-store'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+export async function GET(req: NextRequest) {
+  const lib = await callerLibrary(req)
+  if (lib instanceof Response) return lib
+  return NextResponse.json(libraryView(lib))
+}
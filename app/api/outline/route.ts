@@ -0,0 +1,72 @@
+// app/api/outline/route.ts — javari-books
+// Structured outlines — JSON from the model, validated, with one repair pass before giving up
+import { NextRequest, NextResponse } from 'next/server'
+import { AIUnavailableError, complete, requestDeadline, timeForFollowUp, type ChatMessage } from '@/lib/ai'
+import { creditCost } from '@/lib/credits'
+import { extractJSON } from '@/lib/json'
+import { meter } from '@/lib/metering'
+import { OUTLINE_FIELDS, OUTLINE_SHAPE, outlinePrompt, validateOutline, type Outline, type OutlineSettings } from '@/lib/outline'
+import { validateValues } from '@/lib/validate'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+const SYSTEM = `You are a professional book editor and bestselling author. Create compelling, marketable book outlines
+with strong narrative arcs and memorable characters. You always answer in the exact JSON format requested.`
+
+function repairPrompt(errors: string[]): string {
+  return `That response could not be used as an outline:
+${errors.slice(0, 12).map(e => '- ' + e).join('\n')}
+
+Reply again with the complete outline as JSON only, matching exactly this shape:
+${OUTLINE_SHAPE}`
+}
+
+// A refinement replays the previous outline as the assistant turn, then asks for the change. Only a fresh
+// outline is held to the requested chapter count; a refinement may add or merge chapters.
+async function generateOutline(s: OutlineSettings, refine?: { previous: Outline; instruction: string }) {
+  const turns: ChatMessage[] = [{ role: 'user', content: outlinePrompt(s) }]
+  if (refine) turns.push(
+    { role: 'assistant', content: JSON.stringify(refine.previous) },
+    { role: 'user', content: `${refine.instruction}\n\nReturn the full revised outline as JSON only, in the same shape.` },
+  )
+  const fallback = { title: s.title, genre: s.genre, premise: s.premise, pov: s.pov, tone: s.tone }
+  const expected = refine ? undefined : s.chapters
+  const opts = { maxTokens: 4096, task: 'outline', deadline: requestDeadline() }
+  const first = await complete(turns, SYSTEM, opts)
+  const parsed = validateOutline(extractJSON(first), fallback, expected)
+  if (parsed.outline) return { outline: parsed.outline, repaired: false }
+  if (!timeForFollowUp(opts.deadline)) return { errors: [...parsed.errors, 'no time left to ask for a repair'] }
+  const second = await complete([...turns, { role: 'assistant', content: first }, { role: 'user', content: repairPrompt(parsed.errors) }], SYSTEM, opts)
+  const retried = validateOutline(extractJSON(second), fallback, expected)
+  return retried.outline ? { outline: retried.outline, repaired: true } : { errors: retried.errors }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const b = await req.json().catch(() => null) as Record<string, unknown> | null
+    if (!b) return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+    const { previous, instruction, ...settings } = b
+    const { values, errors } = validateValues(OUTLINE_FIELDS, settings)
+    let refine: { previous: Outline; instruction: string } | undefined
+    if (previous !== undefined || instruction !== undefined) {
+      const prev = validateOutline(previous)
+      if (!prev.outline) errors.push({ field: 'previous', message: 'previous must be a valid outline' })
+      if (typeof instruction !== 'string' || !instruction.trim() || instruction.length > 1000) errors.push({ field: 'instruction', message: 'instruction must be 1-1000 characters' })
+      else if (prev.outline) refine = { previous: prev.outline, instruction: instruction.trim() }
+    }
+    if (errors.length) return NextResponse.json({ error: 'Invalid input', fields: errors }, { status: 400 })
+    const s: OutlineSettings = {
+      title: values.title ?? '', premise: values.premise, genre: values.genre || 'Fiction',
+      pov: values.pov || 'Third Person Limited', tone: values.tone || 'Literary', chapters: Number(values.chapters || 10),
+    }
+    const m = await meter(req, creditCost({ kind: 'outline' }), refine ? 'outline:refine' : 'outline')
+    if (m instanceof Response) return m
+    const r = await m.guard(generateOutline(s, refine))
+    if (!r.outline) { await m.refund(); return NextResponse.json({ error: 'Could not parse outline', details: r.errors }, { status: 502 }) }
+    return m.headers(NextResponse.json({ outline: r.outline, repaired: r.repaired, credits_used: m.cost, credits_remaining: m.balance }))
+  } catch (e: unknown) {
+    if (e instanceof AIUnavailableError) return NextResponse.json({ error: 'AI unavailable', failures: e.summary }, { status: 502 })
+    return NextResponse.json({ error: e instanceof Error ? e.message : 'Failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,22 @@
+// app/api/projects/[id]/bible/route.ts — javari-books
+// Story bible for one project — read and replace
+import { NextRequest, NextResponse } from 'next/server'
+import { bibleOf, normalizeBible } from '@/lib/bible'
+import { callerProject, updateCallerProject } from '@/lib/project-store'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+type Params = { params: { id: string } }
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const project = await callerProject(req, params.id)
+  return project instanceof Response ? project : NextResponse.json({ bible: bibleOf(project) })
+}
+
+export async function PUT(req: NextRequest, { params }: Params) {
+  const b = await req.json().catch(() => null) as { bible?: unknown } | null
+  if (!b || !b.bible || typeof b.bible !== 'object') return NextResponse.json({ error: 'Invalid input', fields: [{ field: 'bible', message: 'bible must be an object' }] }, { status: 400 })
+  const bible = normalizeBible(b.bible)
+  const saved = await updateCallerProject(req, params.id, project => ({ ...project, bible }))
+  return saved instanceof Response ? saved : NextResponse.json({ bible, project: saved })
+}
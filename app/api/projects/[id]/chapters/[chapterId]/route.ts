@@ -0,0 +1,48 @@
+// app/api/projects/[id]/chapters/[chapterId]/route.ts — javari-books
+// One chapter — rename, renumber, restore a version, delete
+import { NextRequest, NextResponse } from 'next/server'
+import { updateCallerProject } from '@/lib/project-store'
+import type { ProjectChapter } from '@/lib/projects'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+type Params = { params: { id: string; chapterId: string } }
+const chapterNotFound = () => NextResponse.json({ error: 'Chapter not found' }, { status: 404 })
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const b = await req.json().catch(() => null) as { title?: unknown; number?: unknown; currentVersionId?: unknown } | null
+  if (!b) return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  let next: ProjectChapter | undefined
+  const saved = await updateCallerProject(req, params.id, project => {
+    const chapter = project.chapters.find(c => c.id === params.chapterId)
+    if (!chapter) return chapterNotFound()
+    next = { ...chapter }
+    if (b.title !== undefined) {
+      if (typeof b.title !== 'string' || !b.title.trim() || b.title.length > 200) return NextResponse.json({ error: 'Invalid input', fields: [{ field: 'title', message: 'title must be 1-200 characters' }] }, { status: 400 })
+      next.title = b.title.trim()
+    }
+    if (b.number !== undefined) {
+      const n = Number(b.number)
+      if (!Number.isInteger(n) || n < 1 || n > 500) return NextResponse.json({ error: 'Invalid input', fields: [{ field: 'number', message: 'number must be a whole number from 1 to 500' }] }, { status: 400 })
+      if (project.chapters.some(c => c.number === n && c.id !== chapter.id)) return NextResponse.json({ error: `Chapter ${n} already exists` }, { status: 409 })
+      next.number = n
+    }
+    if (b.currentVersionId !== undefined) {
+      if (!chapter.versions.some(v => v.id === b.currentVersionId)) return NextResponse.json({ error: 'Invalid input', fields: [{ field: 'currentVersionId', message: 'Unknown version' }] }, { status: 400 })
+      // The summary described the text that was current, so restoring another version drops it, as saving one does
+      if (b.currentVersionId !== chapter.currentVersionId) delete next.summary
+      next.currentVersionId = b.currentVersionId as string
+    }
+    const updated = next
+    return { ...project, chapters: project.chapters.map(c => c.id === chapter.id ? updated : c).sort((a, b) => a.number - b.number) }
+  })
+  return saved instanceof Response ? saved : NextResponse.json({ project: saved, chapter: next })
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const saved = await updateCallerProject(req, params.id, project =>
+    project.chapters.some(c => c.id === params.chapterId)
+      ? { ...project, chapters: project.chapters.filter(c => c.id !== params.chapterId) }
+      : chapterNotFound())
+  return saved instanceof Response ? saved : NextResponse.json({ project: saved })
+}
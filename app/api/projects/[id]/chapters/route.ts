@@ -0,0 +1,21 @@
+// app/api/projects/[id]/chapters/route.ts — javari-books
+// Saves chapter text — a new chapter, or a new version of an existing chapter number
+import { NextRequest, NextResponse } from 'next/server'
+import { updateCallerProject } from '@/lib/project-store'
+import { addChapterVersion, parseChapterInput, type ProjectChapter } from '@/lib/projects'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  const b = await req.json().catch(() => null)
+  if (!b) return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  const { input, errors } = parseChapterInput(b)
+  if (!input) return NextResponse.json({ error: 'Invalid input', fields: errors }, { status: 400 })
+  let chapter: ProjectChapter | undefined
+  const saved = await updateCallerProject(req, params.id, project => {
+    const r = addChapterVersion(project, input, new Date().toISOString())
+    chapter = r.chapter
+    return r.project
+  })
+  return saved instanceof Response ? saved : NextResponse.json({ project: saved, chapter }, { status: 201 })
+}
@@ -0,0 +1,47 @@
+// app/api/projects/[id]/continuity/route.ts — javari-books
+// Post-chapter continuity pass — summary, new facts and suspected contradictions for the author to review.
+// Facts are only proposed here; they join the bible when the author accepts them (PUT …/bible).
+import { NextRequest, NextResponse } from 'next/server'
+import { AIUnavailableError, complete } from '@/lib/ai'
+import { bibleOf, continuityPrompt, validateReport } from '@/lib/bible'
+import { creditCost } from '@/lib/credits'
+import { extractJSON } from '@/lib/json'
+import { meter } from '@/lib/metering'
+import { callerProject, projectStore } from '@/lib/project-store'
+import { currentVersion, MAX_CHAPTER_CHARS } from '@/lib/projects'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+const SYSTEM = `You are a meticulous continuity editor for novels. You track every name, relationship, place,
+date and rule a manuscript establishes. You always answer in the exact JSON format requested.`
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const project = await callerProject(req, params.id)
+    if (project instanceof Response) return project
+    const b = await req.json().catch(() => null) as { chapterNumber?: unknown; text?: unknown } | null
+    if (!b) return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+    const n = Number(b.chapterNumber)
+    const errors = []
+    if (!Number.isInteger(n) || n < 1 || n > 500) errors.push({ field: 'chapterNumber', message: 'chapterNumber must be a whole number from 1 to 500' })
+    if (typeof b.text !== 'string' || !b.text.trim() || b.text.length > MAX_CHAPTER_CHARS) errors.push({ field: 'text', message: 'text is required' })
+    if (errors.length) return NextResponse.json({ error: 'Invalid input', fields: errors }, { status: 400 })
+    const m = await meter(req, creditCost({ kind: 'continuity' }), 'continuity')
+    if (m instanceof Response) return m
+    const out = await m.guard(complete([{ role: 'user', content: continuityPrompt(bibleOf(project), n, b.text as string) }], SYSTEM, { maxTokens: 2048, temperature: 0.2, task: 'continuity' }))
+    const report = validateReport(extractJSON(out))
+    if (!report) { await m.refund(); return NextResponse.json({ error: 'Could not parse continuity report' }, { status: 502 }) }
+    // The summary feeds later chapters' context; keep it when this text is still the saved version. The project
+    // is read again inside the write, since chapters, bible or notes may have been saved during the AI call.
+    await projectStore().update(project.id, p => {
+      const saved = p?.chapters.find(c => c.number === n)
+      if (!p || !saved || currentVersion(saved)?.text !== b.text) return undefined
+      return { ...p, chapters: p.chapters.map(c => c.id === saved.id ? { ...c, summary: report.summary } : c), updatedAt: new Date().toISOString() }
+    })
+    return m.headers(NextResponse.json({ report, credits_used: m.cost, credits_remaining: m.balance }))
+  } catch (e: unknown) {
+    if (e instanceof AIUnavailableError) return NextResponse.json({ error: 'AI unavailable', failures: e.summary }, { status: 502 })
+    return NextResponse.json({ error: e instanceof Error ? e.message : 'Failed' }, { status: 500 })
+  }
+}
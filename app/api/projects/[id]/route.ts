@@ -0,0 +1,35 @@
+// app/api/projects/[id]/route.ts — javari-books
+// One book project — read, update settings/outline/notes, delete
+import { NextRequest, NextResponse } from 'next/server'
+import { callerProject, projectStore, updateCallerProject } from '@/lib/project-store'
+import { parseProjectInput, type Project } from '@/lib/projects'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+type Params = { params: { id: string } }
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const project = await callerProject(req, params.id)
+  return project instanceof Response ? project : NextResponse.json({ project })
+}
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const b = await req.json().catch(() => null)
+  if (!b) return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  const saved = await updateCallerProject(req, params.id, project => {
+    const { settings, outline, notes, errors } = parseProjectInput(b, project)
+    if (errors.length) return NextResponse.json({ error: 'Invalid input', fields: errors }, { status: 400 })
+    const next: Project = { ...project, settings }
+    if (outline !== undefined) next.outline = outline
+    if (notes !== undefined) next.notes = notes
+    return next
+  })
+  return saved instanceof Response ? saved : NextResponse.json({ project: saved })
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const project = await callerProject(req, params.id)
+  if (project instanceof Response) return project
+  await projectStore().delete(project.id)
+  return NextResponse.json({ deleted: true })
+}
@@ -0,0 +1,27 @@
+// app/api/projects/route.ts — javari-books
+// Book projects — list and create
+import { NextRequest, NextResponse } from 'next/server'
+import { EMPTY_BIBLE } from '@/lib/bible'
+import { ownerOf } from '@/lib/owner'
+import { callerProjects, projectStore } from '@/lib/project-store'
+import { parseProjectInput, summarize, type Project } from '@/lib/projects'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+export async function GET(req: NextRequest) {
+  const projects = await callerProjects(req)
+  if (projects instanceof Response) return projects
+  return NextResponse.json({ projects: projects.map(summarize).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)) })
+}
+
+export async function POST(req: NextRequest) {
+  const owner = ownerOf(req)
+  if (owner instanceof Response) return owner
+  const b = await req.json().catch(() => null)
+  if (!b) return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  const { settings, outline, notes, errors } = parseProjectInput(b)
+  if (errors.length) return NextResponse.json({ error: 'Invalid input', fields: errors }, { status: 400 })
+  const now = new Date().toISOString()
+  const project: Project = { id: crypto.randomUUID(), owner, createdAt: now, updatedAt: now, settings, outline: outline ?? null, chapters: [], bible: EMPTY_BIBLE, notes: notes ?? '' }
+  return NextResponse.json({ project: await projectStore().put(project) }, { status: 201 })
+}
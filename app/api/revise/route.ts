@@ -0,0 +1,47 @@
+// app/api/revise/route.ts — javari-books
+// Targeted revision — rewrites one selected passage and returns it as a word-level diff to accept piece by piece.
+// Nothing is saved here; the client splices the accepted changes in and saves a 'revision' version.
+import { NextRequest, NextResponse } from 'next/server'
+import { AIUnavailableError, complete } from '@/lib/ai'
+import { continuityContext } from '@/lib/bible'
+import { creditCost } from '@/lib/credits'
+import { diffWords } from '@/lib/diff'
+import { meter } from '@/lib/metering'
+import { callerProject } from '@/lib/project-store'
+import { countWords } from '@/lib/projects'
+import { cleanRevision, parseReviseInput, revisePrompt, reviseSystem } from '@/lib/revise'
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+export async function POST(req: NextRequest) {
+  try {
+    const b = await req.json().catch(() => null)
+    if (!b) return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+    const { input, errors } = parseReviseInput(b)
+    if (!input) return NextResponse.json({ error: 'Invalid input', fields: errors }, { status: 400 })
+    // With a project, the story bible and earlier chapter summaries keep names and facts straight
+    let context = ''
+    if (input.projectId) {
+      const project = await callerProject(req, input.projectId)
+      if (project instanceof Response) return project
+      context = continuityContext(project, input.chapterNumber ?? project.chapters.length + 1)
+    }
+    const original = input.text.slice(input.start, input.end)
+    const words = countWords(original)
+    const m = await meter(req, creditCost({ kind: 'revise', words }), 'revise')
+    if (m instanceof Response) return m
+    // Room for the passage to grow — "more sensory detail" can double it
+    const maxTokens = Math.min(8192, Math.ceil(words * 3.2) + 256)
+    const out = await m.guard(complete([{ role: 'user', content: revisePrompt(input, context) }], reviseSystem(input.genre), { maxTokens, task: 'revise' }))
+    const revised = cleanRevision(out, original)
+    if (!revised) { await m.refund(); return NextResponse.json({ error: 'Could not parse revision' }, { status: 502 }) }
+    return m.headers(NextResponse.json({
+      start: input.start, end: input.end, original, revised, hunks: diffWords(original, revised),
+      credits_used: m.cost, credits_remaining: m.balance,
+    }))
+  } catch (e: unknown) {
+    if (e instanceof AIUnavailableError) return NextResponse.json({ error: 'AI unavailable', failures: e.summary }, { status: 502 })
+    return NextResponse.json({ error: e instanceof Error ? e.message : 'Failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,7 @@
+// app/blurb/page.tsx — Back Cover Blurb
+// CR AudioViz AI · EIN 39-3646201 · May 2026
+import WritingTool from "@/components/WritingTool";
+
+export default function BlurbPage() {
+  return <WritingTool actionId="blurb" />;
+}
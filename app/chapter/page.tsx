@@ -0,0 +1,11 @@
+// app/chapter/page.tsx — Chapter Writer
+// The writer lives in app/outline/page.tsx; this keeps the old link working and opens it in chapter mode
+// CR AudioViz AI · EIN 39-3646201 · May 2026
+import { redirect } from "next/navigation";
+
+export default function ChapterPage({ searchParams }: { searchParams: Record<string, string | string[] | undefined> }) {
+  const q = new URLSearchParams();
+  for (const [k, v] of Object.entries(searchParams)) if (typeof v === "string") q.set(k, v);
+  q.set("mode", "chapter");
+  redirect(`/outline?${q}`);
+}
@@ -0,0 +1,212 @@
+// app/library/page.tsx — javari-books
+// Reading tracker — shelves, ratings, progress, sessions, CSV import, history-based picks and reading plans
+// CR AudioViz AI · EIN 39-3646201 · May 2026
+"use client";
+import { useEffect, useState } from "react";
+import type { CheckedBook } from "@/lib/book-list";
+import { SHELF_LABELS, SHELVES, type LibraryBook, type PlanItemStatus, type PlanProgress, type ReadingPlan, type Shelf } from "@/lib/library";
+
+type PlanView = Omit<ReadingPlan, "items"> & PlanProgress;
+type Stats = { shelves: Record<Shelf, number>; readThisYear: number; averageRating?: number; sessions: number; wpm?: number };
+
+const label = { fontSize:11, fontWeight:700, color:"#6B7280", textTransform:"uppercase" as const, letterSpacing:"0.05em", margin:"0 0 6px" };
+const input = { width:"100%", background:"#040912", border:"1px solid rgba(0,180,216,0.15)", borderRadius:8, padding:"7px 10px", color:"#e2e8f0", fontSize:12, outline:"none", fontFamily:"system-ui", boxSizing:"border-box" as const };
+const small = { background:"transparent", color:"#00B4D8", border:"1px solid rgba(0,180,216,0.3)", borderRadius:6, padding:"5px 10px", fontSize:12, fontWeight:700, cursor:"pointer", fontFamily:"system-ui" };
+const card = { background:"#0F1F32", border:"1px solid rgba(0,180,216,0.12)", borderRadius:10, padding:12, display:"flex", flexDirection:"column" as const, gap:8 };
+const RATINGS = [0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 4.5, 5];
+const STATUS_COLORS: Record<PlanItemStatus, string> = { done:"#10B981", reading:"#00B4D8", overdue:"#F59E0B", upcoming:"#6B7280" };
+
+async function call(url: string, method = "GET", body?: unknown) {
+  const res = await fetch(url, { method, headers: { "Content-Type": "application/json" }, ...(body ? { body: JSON.stringify(body) } : {}) });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.fields?.[0]?.message || data?.error || `Request failed (${res.status})`);
+  return data;
+}
+
+export default function LibraryPage() {
+  const [books, setBooks] = useState<LibraryBook[]>([]);
+  const [plans, setPlans] = useState<PlanView[]>([]);
+  const [stats, setStats] = useState<Stats|null>(null);
+  const [shelf, setShelf] = useState<Shelf>("reading");
+  const [add, setAdd] = useState({ title:"", author:"", pages:"" });
+  const [session, setSession] = useState<Record<string, { minutes: string; pages: string }>>({});
+  const [picks, setPicks] = useState<CheckedBook[]>([]);
+  const [rejectedPicks, setRejectedPicks] = useState(0);
+  const [goal, setGoal] = useState({ goal:"", length:"6", minutesPerDay:"30", replace: false });
+  const [guide, setGuide] = useState("");
+  const [busy, setBusy] = useState("");
+  const [notice, setNotice] = useState("");
+
+  async function load() {
+    try { const d = await call("/api/library"); setBooks(d.books); setPlans(d.plans); setStats(d.stats); } catch (e) { setNotice((e as Error).message); }
+  }
+  useEffect(() => { load(); }, []);
+
+  // Runs one action, reports its error, then refreshes the library
+  async function run(name: string, fn: () => Promise<unknown>) {
+    setBusy(name); setNotice("");
+    try { await fn(); await load(); } catch (e) { setNotice((e as Error).message); }
+    setBusy("");
+  }
+
+  const addBook = (b: { title: string; author: string; isbn?: string; pages?: number; shelf?: Shelf }) => call("/api/library/books", "POST", b);
+  const update = (id: string, patch: Record<string, unknown>) => run("update", () => call(`/api/library/books/${id}`, "PATCH", patch));
+
+  async function importCsv(file: File) {
+    await run("import", async () => {
+      const r = await call("/api/library/import", "POST", { csv: await file.text() });
+      setNotice(`Imported from ${r.format === "goodreads" ? "Goodreads" : "StoryGraph"}: ${r.added} added, ${r.updated} updated${r.errors.length ? `, ${r.errors.length} rows skipped` : ""}.`);
+    });
+  }
+
+  async function logSession(b: LibraryBook) {
+    const s = session[b.id] ?? { minutes:"", pages:"" };
+    await run("session", () => call(`/api/library/books/${b.id}/sessions`, "POST", { minutes: Number(s.minutes), ...(s.pages ? { pages: Number(s.pages) } : {}) }));
+    setSession({ ...session, [b.id]: { minutes:"", pages:"" } });
+  }
+
+  // Replacing rejected entries costs an extra credit, so it is only asked for on request
+  const recommend = (regenerate = false) => run("recommend", async () => {
+    const d = await call("/api/generate", "POST", { action: "book_recommendations", values: {}, ...(regenerate ? { regenerate } : {}) });
+    const books = d.books as CheckedBook[];
+    setPicks(books.filter(b => b.status !== "rejected"));
+    setRejectedPicks(books.filter(b => b.status === "rejected").length);
+  });
+
+  const buildPlan = () => run("plan", async () => {
+    const d = await call("/api/generate", "POST", { action: "reading_list", values: { goal: goal.goal, length: goal.length }, ...(goal.replace ? { regenerate: true } : {}) });
+    const list = (d.books as CheckedBook[]).filter(b => b.status !== "rejected");
+    if (!list.length) throw new Error("No verifiable books came back — try again.");
+    await call("/api/library/plans", "POST", { title: goal.goal || "Reading plan", minutesPerDay: Number(goal.minutesPerDay) || 30, books: list.map(b => ({ title: b.title, author: b.author, isbn: b.isbn, why: b.why })) });
+  });
+
+  const speedGuide = () => run("guide", async () => { setGuide((await call("/api/generate", "POST", { action: "speed_read_guide", values: {} })).result); });
+
+  const shown = books.filter(b => b.shelf === shelf);
+
+  return (
+    <div style={{ minHeight:"100vh", background:"#040912", color:"#e2e8f0", fontFamily:"system-ui" }}>
+      <nav style={{ background:"#1E3A5F", padding:"0 20px", height:52, display:"flex", alignItems:"center", justifyContent:"space-between", position:"sticky", top:0, zIndex:100 }}>
+        <div style={{ display:"flex", alignItems:"center", gap:8 }}>
+          <a href="/" style={{ color:"#9CA3AF", textDecoration:"none", fontSize:13 }}>📚 Javari Books</a>
+          <span style={{ color:"#374151" }}>·</span>
+          <span style={{ color:"#00B4D8", fontWeight:700 }}>My Library</span>
+        </div>
+        {stats && <span style={{ fontSize:12, color:"#9CA3AF" }}>{stats.readThisYear} read this year{stats.averageRating ? ` · avg ${stats.averageRating}★` : ""}{stats.wpm ? ` · ${stats.wpm} wpm` : ""}</span>}
+      </nav>
+
+      <div style={{ maxWidth:1100, margin:"0 auto", padding:"28px 20px 72px", display:"grid", gridTemplateColumns:"300px 1fr", gap:24 }}>
+        <div style={{ display:"flex", flexDirection:"column", gap:14 }}>
+          <div style={card}>
+            <p style={label}>Add a book</p>
+            <input value={add.title} onChange={e => setAdd({ ...add, title: e.target.value })} placeholder="Title" style={input} />
+            <input value={add.author} onChange={e => setAdd({ ...add, author: e.target.value })} placeholder="Author" style={input} />
+            <input value={add.pages} onChange={e => setAdd({ ...add, pages: e.target.value })} placeholder="Pages (optional)" inputMode="numeric" style={input} />
+            <button disabled={!add.title.trim() || !add.author.trim() || !!busy} style={small}
+              onClick={() => run("add", async () => { await addBook({ title: add.title, author: add.author, shelf, ...(add.pages ? { pages: Number(add.pages) } : {}) }); setAdd({ title:"", author:"", pages:"" }); })}>
+              + Add to {SHELF_LABELS[shelf]}
+            </button>
+          </div>
+
+          <div style={card}>
+            <p style={label}>Import</p>
+            <input type="file" accept=".csv,text/csv" disabled={!!busy} onChange={e => { const f = e.target.files?.[0]; if (f) importCsv(f); e.target.value = ""; }} style={{ fontSize:12, color:"#9CA3AF" }} />
+            <p style={{ margin:0, fontSize:11, color:"#6B7280" }}>Goodreads (My Books → Import and export) or StoryGraph (Manage Account → Export) CSV.</p>
+          </div>
+
+          <div style={card}>
+            <p style={label}>From your history</p>
+            <button onClick={() => recommend()} disabled={!!busy} style={small}>{busy === "recommend" ? "…" : "📚 Recommend books"}</button>
+            {rejectedPicks > 0 && <button onClick={() => recommend(true)} disabled={!!busy} style={{ ...small, color:"#9CA3AF" }}>↻ Ask again, replacing unverifiable picks (+1 credit)</button>}
+            {picks.map(p => (
+              <div key={p.title + p.author} style={{ fontSize:12, borderTop:"1px solid rgba(255,255,255,0.05)", paddingTop:6 }}>
+                <div style={{ fontWeight:700 }}>{p.title} <span style={{ color:"#6B7280", fontWeight:400 }}>— {p.author}{p.status === "unverified" ? " · unverified" : ""}</span></div>
+                <div style={{ color:"#9CA3AF", margin:"2px 0 4px" }}>{p.why}</div>
+                <button style={{ ...small, padding:"2px 8px" }} onClick={() => run("pick", async () => { await addBook({ title: p.title, author: p.author, isbn: p.isbn }); setPicks(picks.filter(x => x !== p)); })}>+ To read</button>
+              </div>
+            ))}
+          </div>
+
+          <div style={card}>
+            <p style={label}>Reading plan</p>
+            <input value={goal.goal} onChange={e => setGoal({ ...goal, goal: e.target.value })} placeholder="Goal — understand AI, read the Booker winners..." style={input} />
+            <div style={{ display:"grid", gridTemplateColumns:"1fr 1fr", gap:6 }}>
+              <input value={goal.length} onChange={e => setGoal({ ...goal, length: e.target.value })} placeholder="Books" inputMode="numeric" style={input} />
+              <input value={goal.minutesPerDay} onChange={e => setGoal({ ...goal, minutesPerDay: e.target.value })} placeholder="Min/day" inputMode="numeric" style={input} />
+            </div>
+            <label style={{ fontSize:12, color:"#9CA3AF", display:"flex", alignItems:"center", gap:6 }}>
+              <input type="checkbox" checked={goal.replace} onChange={e => setGoal({ ...goal, replace: e.target.checked })} />
+              Replace unverifiable books (+1 credit)
+            </label>
+            <button onClick={buildPlan} disabled={!!busy} style={small}>{busy === "plan" ? "…" : "📋 Build plan"}</button>
+            <button onClick={speedGuide} disabled={!!busy} style={{ ...small, color:"#9CA3AF", borderColor:"rgba(255,255,255,0.1)" }}>{busy === "guide" ? "…" : `⚡ Speed guide${stats?.wpm ? ` (${stats.wpm} wpm)` : ""}`}</button>
+          </div>
+          {notice && <p style={{ margin:0, fontSize:12, color:"#F59E0B" }}>{notice}</p>}
+        </div>
+
+        <div style={{ display:"flex", flexDirection:"column", gap:16 }}>
+          <div style={{ display:"flex", gap:6 }}>
+            {SHELVES.map(s => (
+              <button key={s} onClick={() => setShelf(s)} style={{ ...small, background: s === shelf ? "rgba(0,180,216,0.15)" : "transparent" }}>
+                {SHELF_LABELS[s]} {stats ? `(${stats.shelves[s]})` : ""}
+              </button>
+            ))}
+          </div>
+
+          {shown.length === 0 && <p style={{ color:"#374151", fontSize:14, textAlign:"center", padding:"40px 0" }}>Nothing on this shelf yet.</p>}
+          {shown.map(b => (
+            <div key={b.id} style={{ ...card, gap:6 }}>
+              <div style={{ display:"flex", justifyContent:"space-between", gap:8 }}>
+                <div><span style={{ fontWeight:700, fontSize:14 }}>{b.title}</span> <span style={{ color:"#6B7280", fontSize:12 }}>— {b.author}{b.year ? ` (${b.year})` : ""}</span></div>
+                <button onClick={() => run("delete", () => call(`/api/library/books/${b.id}`, "DELETE"))} style={{ ...small, color:"#6B7280", borderColor:"rgba(255,255,255,0.08)", padding:"2px 8px" }}>✕</button>
+              </div>
+              <div style={{ display:"flex", gap:6, alignItems:"center", flexWrap:"wrap", fontSize:12 }}>
+                <select value={b.shelf} onChange={e => update(b.id, { shelf: e.target.value })} style={{ ...input, width:"auto" }}>
+                  {SHELVES.map(s => <option key={s} value={s}>{SHELF_LABELS[s]}</option>)}
+                </select>
+                <select value={b.rating ?? ""} onChange={e => update(b.id, { rating: e.target.value ? Number(e.target.value) : null })} style={{ ...input, width:"auto" }}>
+                  <option value="">No rating</option>
+                  {RATINGS.concat(b.rating && !RATINGS.includes(b.rating) ? [b.rating] : []).map(r => <option key={r} value={r}>{r}★</option>)}
+                </select>
+                <input type="date" defaultValue={b.startedAt ?? ""} onBlur={e => e.target.value !== (b.startedAt ?? "") && update(b.id, { startedAt: e.target.value || null })} title="Started" style={{ ...input, width:"auto" }} />
+                <input type="date" defaultValue={b.finishedAt ?? ""} onBlur={e => e.target.value !== (b.finishedAt ?? "") && update(b.id, { finishedAt: e.target.value || null })} title="Finished" style={{ ...input, width:"auto" }} />
+              </div>
+              {b.shelf === "reading" && (
+                <div style={{ display:"flex", gap:6, alignItems:"center", fontSize:12 }}>
+                  <div style={{ flex:1, height:6, background:"#040912", borderRadius:3 }}><div style={{ width:`${b.progress}%`, height:"100%", background:"#00B4D8", borderRadius:3 }} /></div>
+                  <input defaultValue={b.progress} onBlur={e => Number(e.target.value) !== b.progress && update(b.id, { progress: Number(e.target.value) })} inputMode="numeric" style={{ ...input, width:52 }} />%
+                  <input value={session[b.id]?.minutes ?? ""} onChange={e => setSession({ ...session, [b.id]: { pages: session[b.id]?.pages ?? "", minutes: e.target.value } })} placeholder="min" inputMode="numeric" style={{ ...input, width:56 }} />
+                  <input value={session[b.id]?.pages ?? ""} onChange={e => setSession({ ...session, [b.id]: { minutes: session[b.id]?.minutes ?? "", pages: e.target.value } })} placeholder="pages" inputMode="numeric" style={{ ...input, width:60 }} />
+                  <button onClick={() => logSession(b)} disabled={!session[b.id]?.minutes || !!busy} style={{ ...small, padding:"4px 8px" }}>Log</button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {plans.map(p => (
+            <div key={p.id} style={card}>
+              <div style={{ display:"flex", justifyContent:"space-between", alignItems:"center" }}>
+                <span style={{ fontWeight:700, color:"#00B4D8" }}>📋 {p.title} <span style={{ color:"#6B7280", fontWeight:400, fontSize:12 }}>{p.done}/{p.total} · {p.percent}%{p.overdue ? ` · ${p.overdue} behind` : ""} · {p.minutesPerDay} min/day at {p.wpm} wpm</span></span>
+                <button onClick={() => run("plan-delete", () => call(`/api/library/plans/${p.id}`, "DELETE"))} style={{ ...small, color:"#6B7280", borderColor:"rgba(255,255,255,0.08)", padding:"2px 8px" }}>✕</button>
+              </div>
+              {p.items.map((it, i) => (
+                <div key={it.bookId + i} style={{ display:"flex", gap:8, fontSize:12 }}>
+                  <span style={{ color:STATUS_COLORS[it.status], width:70 }}>{it.due}</span>
+                  <span style={{ flex:1 }}>{it.title} <span style={{ color:"#6B7280" }}>— {it.author}</span></span>
+                  <span style={{ color:STATUS_COLORS[it.status] }}>{it.status}{it.status === "reading" ? ` ${it.progress}%` : ""}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+
+          {guide && (
+            <div style={card}>
+              <p style={label}>Speed reading guide</p>
+              <pre style={{ margin:0, fontSize:13, lineHeight:1.7, whiteSpace:"pre-wrap", fontFamily:"system-ui" }}>{guide}</pre>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,11 +3,31 @@
 // Merged into one file: chapter writer with outline seed
 // CR AudioViz AI · EIN 39-3646201 · May 2026
 "use client";
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import BookDashboard from "@/components/BookDashboard";
+import ChapterAnalytics from "@/components/ChapterAnalytics";
+import OutlineEditor from "@/components/OutlineEditor";
+import ContinuityReview from "@/components/ContinuityReview";
+import ExportPanel from "@/components/ExportPanel";
+import ProjectPanel from "@/components/ProjectPanel";
+import RevisionDiff from "@/components/RevisionDiff";
+import StoryBibleEditor from "@/components/StoryBibleEditor";
+import { analyzeChapter, type BookAnalysis } from "@/lib/analytics";
+import { EMPTY_BIBLE, mergeFacts, type BibleFacts, type ContinuityReport, type StoryBible } from "@/lib/bible";
+import { GENRES, POVS, TONES } from "@/lib/book-options";
+import { CHAPTER_DRAFT_KEY, chapterPrompt, chapterSystem, type ChapterDraft } from "@/lib/chapter";
+import { OUTLINE_DRAFT_KEY, outlineToMarkdown, type Outline, type OutlineChapter } from "@/lib/outline";
+import type { DiffHunk } from "@/lib/diff";
+import { currentVersion, type Project, type ProjectChapter, type VersionSource } from "@/lib/projects";
+import { REVISE_PRESETS, snapRange, spliceRevision } from "@/lib/revise";
+import { streamPost } from "@/lib/stream-client";
 
-const POVS = ["First Person","Third Person Limited","Third Person Omniscient","Second Person"];
-const TONES = ["Literary","Commercial/Thriller","Cozy/Warm","Dark/Gritty","Humorous","Inspirational"];
-const GENRES = ["Fiction","Mystery/Thriller","Romance","Fantasy","Sci-Fi","Non-Fiction","Memoir","Business","Self-Help"];
+
+const WORD_COUNTS = ["500","1000","1500","2000","3000","5000"];
+
+type Turn = { role: "user"|"assistant"; content: string };
+// A rewrite waiting for review; base is the chapter text it was made against
+type Revision = { start: number; end: number; instruction: string; hunks: DiffHunk[]; base: string };
 
 export default function ChapterWriter() {
   const [genre, setGenre] = useState("Fiction");
@@ -18,54 +38,310 @@ export default function ChapterWriter() {
   const [chapterNum, setChapterNum] = useState("1");
   const [chapterGoal, setChapterGoal] = useState("");
   const [wordCount, setWordCount] = useState("1500");
+  const [chapterCount, setChapterCount] = useState("10");
+  const [outline, setOutline] = useState<Outline|null>(null);
   const [output, setOutput] = useState("");
-  const [mode, setMode] = useState<"outline"|"chapter">("outline");
+  const [mode, setMode] = useState<"outline"|"chapter"|"bible"|"stats">("outline");
   const [loading, setLoading] = useState(false);
+  const [history, setHistory] = useState<Turn[]>([]);
+  const [followUp, setFollowUp] = useState("");
+  const [notice, setNotice] = useState("");
+  const abortRef = useRef<AbortController|null>(null);
+  const [project, setProject] = useState<Project|null>(null);
+  const [notes, setNotes] = useState("");
+  const [projectStatus, setProjectStatus] = useState("");
+  const [viewVersion, setViewVersion] = useState("");
+  const [bible, setBible] = useState<StoryBible>(EMPTY_BIBLE);
+  const [report, setReport] = useState<ContinuityReport|null>(null);
+  const [showStats, setShowStats] = useState(false);
+  const [book, setBook] = useState<BookAnalysis|null>(null);
+  const [revising, setRevising] = useState(false);
+  const [range, setRange] = useState<{ start: number; end: number }|null>(null);
+  const [instruction, setInstruction] = useState("");
+  const [revision, setRevision] = useState<Revision|null>(null);
+  const [revisionBusy, setRevisionBusy] = useState(false);
+
+  // A quick outline from the home page arrives as a draft; ?chapter=N jumps straight to writing it.
+  // ?project=ID reopens a saved manuscript; ?mode=chapter|bible|stats opens that tab (/chapter redirects here).
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const m = params.get("mode");
+    if (m === "outline" || m === "chapter" || m === "bible" || m === "stats") setMode(m);
+    const id = params.get("project");
+    if (id) { openProject(id); return; }
+    const pasted = localStorage.getItem(CHAPTER_DRAFT_KEY);
+    if (pasted) {
+      localStorage.removeItem(CHAPTER_DRAFT_KEY);
+      try {
+        const c = JSON.parse(pasted) as ChapterDraft;
+        setMode("chapter"); setChapterNum(String(c.number)); setOutput(c.text); setShowStats(true);
+        if (c.pov && POVS.includes(c.pov)) setPov(c.pov);
+        if (c.targetWords) setWordCount(String(c.targetWords));
+      } catch { /* stale draft */ }
+      return;
+    }
+    const raw = localStorage.getItem(OUTLINE_DRAFT_KEY);
+    if (!raw) return;
+    localStorage.removeItem(OUTLINE_DRAFT_KEY);
+    try {
+      const draft = JSON.parse(raw) as Outline;
+      setOutline(draft);
+      setTitle(draft.book.title === "Untitled" ? "" : draft.book.title);
+      setPremise(draft.book.premise);
+      if (GENRES.includes(draft.book.genre)) setGenre(draft.book.genre);
+      const n = Number(params.get("chapter"));
+      const c = draft.chapters.find(ch => ch.number === n);
+      if (c) writeChapter(c);
+    } catch { /* stale draft */ }
+  }, []);
 
   async function generate() {
     if (!premise.trim()) return;
-    setLoading(true); setOutput("");
-    const prompt = mode === "outline"
-      ? `Create a detailed 10-chapter outline for a ${genre} book.
-Title: ${title || "Untitled"}
-Premise: ${premise}
-POV: ${pov}
-Tone: ${tone}
-
-For each chapter provide:
-- Chapter title
-- Word count target
-- Scene breakdown (3-4 key scenes)
-- Character development beats
-- Plot advancement
-- Chapter ending hook
-
-Make it compelling and commercially viable.`
-      : `Write Chapter ${chapterNum} of a ${genre} book.
-Title: ${title || "Untitled"}
-Premise: ${premise}
-Chapter Goal: ${chapterGoal || "Advance the plot"}
-POV: ${pov}
-Tone: ${tone}
-Target Length: approximately ${wordCount} words
-
-Write the complete chapter. Start in media res. Use strong sensory details.
-End on a hook that compels the reader to continue.`;
+    if (mode === "outline") { await buildOutline(); return; }
+    setLoading(true); setOutput(""); setHistory([]); setNotice(""); setReport(null); setRevision(null); setRange(null);
+    const values = chapterValues();
+    // The server adds the story bible and earlier chapters when a project is open
+    const text = await send([{ role: "user", content: chapterPrompt(values) }], "/api/chapter", { ...values, ...(project ? { projectId: project.id } : {}) });
+    if (text && project) await checkContinuity(text);
+  }
+
+  function chapterValues() {
+    return { title, premise, genre, pov, tone, chapterNumber: chapterNum, goal: chapterGoal, wordCount };
+  }
+
+  // With an instruction, the current (possibly hand-edited) outline is revised rather than replaced
+  async function buildOutline(instruction?: string) {
+    const ctl = new AbortController();
+    abortRef.current = ctl;
+    setLoading(true); setNotice("");
+    try {
+      const res = await fetch("/api/outline", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title, premise, genre, pov, tone, chapters: chapterCount, ...(instruction && outline ? { previous: cleanOutline(outline), instruction } : {}) }),
+        signal: ctl.signal,
+      });
+      const data = await res.json();
+      if (data?.outline) setOutline(data.outline);
+      else setNotice(data?.fields?.[0]?.message || data?.error || "Error generating outline.");
+    } catch { if (!ctl.signal.aborted) setNotice("Connection error. Please try again."); }
+    abortRef.current = null;
+    setLoading(false);
+  }
+
+  // Follow-up turns ("make chapter 3 darker") revise the outline, or replay the chapter conversation so far
+  async function refine() {
+    if (!followUp.trim()) return;
+    const instruction = followUp;
+    if (mode === "outline") { if (outline) { setFollowUp(""); await buildOutline(instruction); } return; }
+    if (history.length === 0) return;
+    setLoading(true); setNotice(""); setReport(null);
+    const turns: Turn[] = [...history, { role: "user", content: instruction }];
+    setFollowUp("");
+    await send(turns);
+  }
+
+  // A flag from the analytics becomes a refine instruction; a saved or pasted chapter with no conversation
+  // behind it gets one seeded so the writer revises this text rather than starting over
+  function askRevision(instruction: string) {
+    if (history.length === 0) setHistory([{ role: "user", content: chapterPrompt(chapterValues()) }, { role: "assistant", content: output }]);
+    setFollowUp(instruction);
+  }
+
+  // Analytics run locally, but the project dashboard goes through the route so it reads the saved versions
+  async function loadBook() {
+    if (!project) return;
+    try {
+      const data = await (await fetch("/api/analyze", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ projectId: project.id }) })).json();
+      if (data?.book) setBook(data.book);
+      else setProjectStatus(data?.error || "Could not analyze manuscript.");
+    } catch { setProjectStatus("Connection error."); }
+  }
+
+  useEffect(() => { if (mode === "stats") loadBook(); }, [mode, project?.updatedAt]);
 
+  // Only the selected passage goes out for rewriting; the rest of the chapter is context
+  async function revisePassage() {
+    if (!range || !instruction.trim()) return;
+    const { start, end } = snapRange(output, range.start, range.end);
+    setRevisionBusy(true); setNotice("");
     try {
-      const res = await fetch("/api/chat", {
+      const res = await fetch("/api/revise", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          messages: [{ role: "user", content: prompt }],
-          stream: false,
-          systemOverride: `You are a bestselling ${genre} author and writing coach. Write compelling, professional-quality fiction and non-fiction. Your prose is specific, sensory, and emotionally resonant. Never generic.`,
-        }),
+        body: JSON.stringify({ text: output, start, end, instruction, genre, pov, tone, ...(project ? { projectId: project.id, chapterNumber: Number(chapterNum) } : {}) }),
       });
       const data = await res.json();
-      setOutput(data?.choices?.[0]?.message?.content || data?.content || "Error generating content.");
-    } catch { setOutput("Connection error. Please try again."); }
+      if (data?.hunks) setRevision({ start: data.start, end: data.end, instruction: instruction.trim(), hunks: data.hunks, base: output });
+      else setNotice(data?.fields?.[0]?.message || data?.error || "Could not revise passage.");
+    } catch { setNotice("Connection error. Please try again."); }
+    setRevisionBusy(false);
+  }
+
+  // Splices the accepted changes into the chapter and, with a project open, saves the result as a new version
+  async function applyRevision(passage: string, accepted: number) {
+    if (!revision) return;
+    if (output !== revision.base) { setNotice("The chapter changed since this revision was made — discard it and try again."); return; }
+    const text = spliceRevision(output, revision.start, revision.end, passage);
+    setOutput(text); setRevision(null); setRange(null); setViewVersion("");
+    if (history.length) setHistory([...history.slice(0, -1), { role: "assistant", content: text }]);
+    if (project) await saveChapter(text, "revision", revision.instruction.slice(0, 500));
+    else setNotice(`Applied ${accepted} change${accepted === 1 ? "" : "s"}.`);
+  }
+
+  function writeChapter(c: OutlineChapter) {
+    setChapterNum(String(c.number));
+    setChapterGoal(`${c.title}. Scenes: ${c.scenes.filter(Boolean).join("; ")}. End on: ${c.hook}`);
+    setWordCount(String(c.targetWords || 1500));
+    setMode("chapter"); setOutput(""); setHistory([]); setNotice(""); setReport(null); setRevision(null); setRange(null);
+  }
+
+  // Streams into the output pane; whatever arrived is kept if the user stops or the stream dies.
+  // Resolves with the text only when the whole chapter arrived.
+  async function send(turns: Turn[], url = "/api/chat", body?: Record<string, unknown>): Promise<string> {
+    const ctl = new AbortController();
+    abortRef.current = ctl;
+    const previous = output;
+    const r = await streamPost(url, body ?? {
+      messages: turns,
+      maxTokens: Math.ceil(Number(wordCount) * 1.6),
+      systemOverride: chapterSystem(genre),
+    }, setOutput, ctl.signal);
+    abortRef.current = null;
+    if (r.text) {
+      setOutput(r.text);
+      setHistory([...turns, { role: "assistant", content: r.text }]);
+      if (r.aborted) setNotice("Stopped — partial text kept.");
+      else if (r.error) setNotice(`${r.error} — partial text kept.`);
+    } else if (!r.aborted) {
+      setOutput(previous);
+      setNotice(r.error || "Error generating content.");
+    } else setOutput(previous);
     setLoading(false);
+    return r.text && !r.error && !r.aborted ? r.text : "";
+  }
+
+  async function checkContinuity(text: string) {
+    if (!project) return;
+    setProjectStatus("Checking continuity…");
+    try {
+      const res = await fetch(`/api/projects/${project.id}/continuity`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ chapterNumber: Number(chapterNum), text }) });
+      const data = await res.json();
+      if (data?.report) { setReport(data.report); setProjectStatus(""); }
+      else setProjectStatus(data?.error || "Continuity check failed.");
+    } catch { setProjectStatus("Continuity check failed."); }
+  }
+
+  async function saveBible(next: StoryBible) {
+    if (!project) return;
+    try {
+      const data = await (await fetch(`/api/projects/${project.id}/bible`, { method: "PUT", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ bible: next }) })).json();
+      if (data?.bible) { setBible(data.bible); setProject(data.project); setProjectStatus("Story bible saved."); }
+      else setProjectStatus(data?.fields?.[0]?.message || data?.error || "Could not save story bible.");
+    } catch { setProjectStatus("Connection error."); }
+  }
+
+  async function acceptFacts(facts: BibleFacts) {
+    await saveBible(mergeFacts(bible, facts));
+    setReport(r => r && { ...r, facts: { characters: [], locations: [], timeline: [], glossary: [] } });
+  }
+
+  function stop() { abortRef.current?.abort(); }
+
+  function applyProject(p: Project) {
+    setProject(p);
+    setTitle(p.settings.title); setPremise(p.settings.premise);
+    setGenre(p.settings.genre); setPov(p.settings.pov); setTone(p.settings.tone);
+    setOutline(p.outline); setNotes(p.notes); setBible(p.bible ?? EMPTY_BIBLE); setReport(null);
+    if (p.id !== project?.id) setBook(null);
+    window.history.replaceState(null, "", `/outline?project=${p.id}`);
+  }
+
+  async function openProject(id: string|null) {
+    if (!id) { setProject(null); setProjectStatus(""); window.history.replaceState(null, "", "/outline"); return; }
+    try {
+      const data = await (await fetch(`/api/projects/${id}`)).json();
+      if (data?.project) { applyProject(data.project); setOutput(""); setHistory([]); setProjectStatus("Opened."); }
+      else setProjectStatus(data?.error || "Could not open project.");
+    } catch { setProjectStatus("Connection error."); }
+  }
+
+  function projectBody() {
+    return { settings: { title, premise, genre, pov, tone }, outline: outline ? cleanOutline(outline) : null, notes };
+  }
+
+  async function createProject() {
+    try {
+      const data = await (await fetch("/api/projects", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(projectBody()) })).json();
+      if (data?.project) { applyProject(data.project); setProjectStatus("Project created."); }
+      else setProjectStatus(data?.fields?.[0]?.message || data?.error || "Could not create project.");
+    } catch { setProjectStatus("Connection error."); }
+  }
+
+  async function saveProject() {
+    if (!project) return;
+    try {
+      const data = await (await fetch(`/api/projects/${project.id}`, { method: "PATCH", headers: { "Content-Type": "application/json" }, body: JSON.stringify(projectBody()) })).json();
+      if (data?.project) { setProject(data.project); setProjectStatus(`Saved ${new Date().toLocaleTimeString()}.`); }
+      else setProjectStatus(data?.fields?.[0]?.message || data?.error || "Could not save project.");
+    } catch { setProjectStatus("Connection error."); }
+  }
+
+  // Saving chapter N again adds a new version; earlier ones stay in the history
+  async function saveChapter(text = output, source: VersionSource = "ai", note?: string) {
+    if (!project || !text.trim()) return;
+    const n = Number(chapterNum);
+    try {
+      const res = await fetch(`/api/projects/${project.id}/chapters`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ number: n, title: outline?.chapters.find(c => c.number === n)?.title, text, source, note, summary: source === "ai" ? report?.summary : undefined }),
+      });
+      const data = await res.json();
+      if (data?.project) { setProject(data.project); setViewVersion(""); setProjectStatus(`Saved chapter ${n} (v${data.chapter.versions.length}).`); }
+      else setProjectStatus(data?.fields?.[0]?.message || data?.error || "Could not save chapter.");
+    } catch { setProjectStatus("Connection error."); }
+  }
+
+  function openChapter(c: ProjectChapter) {
+    setMode("chapter"); setChapterNum(String(c.number)); setHistory([]); setNotice(""); setViewVersion(""); setReport(null); setRevision(null); setRange(null);
+    setOutput(currentVersion(c)?.text ?? "");
+  }
+
+  function showVersion(c: ProjectChapter, versionId: string) {
+    setViewVersion(versionId); setRevision(null); setRange(null);
+    setOutput(c.versions.find(v => v.id === versionId)?.text ?? "");
+  }
+
+  async function restoreVersion(c: ProjectChapter) {
+    if (!project || !viewVersion) return;
+    try {
+      const data = await (await fetch(`/api/projects/${project.id}/chapters/${c.id}`, { method: "PATCH", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ currentVersionId: viewVersion }) })).json();
+      if (data?.project) { setProject(data.project); setViewVersion(""); setProjectStatus(`Chapter ${c.number} restored.`); }
+    } catch { setProjectStatus("Connection error."); }
+  }
+
+  const savedChapter = project?.chapters.find(c => c.number === Number(chapterNum));
+  const stats = showStats && output && !loading
+    ? analyzeChapter({ number: Number(chapterNum) || 1, title: outline?.chapters.find(c => c.number === Number(chapterNum))?.title, text: output, targetWords: Number(wordCount) || undefined }, { pov })
+    : null;
+
+  // Drops blank scene/beat lines left over from editing
+  function cleanOutline(o: Outline): Outline {
+    return { ...o, chapters: o.chapters.map(c => ({ ...c, scenes: c.scenes.filter(x => x.trim()), beats: c.beats.filter(x => x.trim()) })) };
+  }
+
+  function refineBar(placeholder: string) {
+    return (
+      <div style={{ display:"flex", gap:8, marginTop:16, borderTop:"1px solid rgba(255,255,255,0.06)", paddingTop:14 }}>
+        <input value={followUp} onChange={e=>setFollowUp(e.target.value)} onKeyDown={e=>e.key==="Enter"&&refine()} placeholder={placeholder}
+          style={{ flex:1, background:"#040912", border:"1px solid rgba(0,180,216,0.15)", borderRadius:8, padding:"9px 12px", color:"#e2e8f0", fontSize:13, outline:"none", fontFamily:"system-ui" }} />
+        <button onClick={refine} disabled={!followUp.trim()}
+          style={{ background: !followUp.trim() ? "#0F1F32" : "#00B4D8", color: !followUp.trim() ? "#374151" : "#040912", border:"none", borderRadius:8, padding:"9px 16px", fontSize:13, fontWeight:700, cursor: !followUp.trim() ? "not-allowed":"pointer", fontFamily:"system-ui" }}>
+          Refine
+        </button>
+      </div>
+    );
   }
 
   return (
@@ -74,7 +350,7 @@ End on a hook that compels the reader to continue.`;
         <div style={{ display:"flex", alignItems:"center", gap:8 }}>
           <a href="/" style={{ color:"#9CA3AF", textDecoration:"none", fontSize:13 }}>📚 Javari Books</a>
           <span style={{ color:"#374151" }}>·</span>
-          <span style={{ color:"#00B4D8", fontWeight:700 }}>{mode === "outline" ? "Outline Generator" : "Chapter Writer"}</span>
+          <span style={{ color:"#00B4D8", fontWeight:700 }}>{mode === "outline" ? "Outline Generator" : mode === "bible" ? "Story Bible" : mode === "stats" ? "Manuscript Analytics" : "Chapter Writer"}</span>
         </div>
         <a href="https://craudiovizai.com/auth/signup" style={{ background:"#FF0800", color:"#fff", borderRadius:7, padding:"5px 14px", fontSize:12, fontWeight:700, textDecoration:"none" }}>Sign Up</a>
       </nav>
@@ -82,9 +358,14 @@ End on a hook that compels the reader to continue.`;
       <div style={{ maxWidth:1000, margin:"0 auto", padding:"28px 20px 72px", display:"grid", gridTemplateColumns:"300px 1fr", gap:24 }}>
         {/* Controls */}
         <div style={{ display:"flex", flexDirection:"column", gap:14 }}>
+          <ProjectPanel project={project} notes={notes} status={projectStatus} onNotes={setNotes}
+            onOpen={openProject} onCreate={createProject} onSave={saveProject} onOpenChapter={openChapter} />
+          {project ? (project.chapters.length > 0 && <ExportPanel source={{ projectId: project.id }} />)
+            : output && !loading && <ExportPanel source={{ book: { title, genre, outline: outline && cleanOutline(outline), chapters: [{ number: Number(chapterNum) || 1, text: output }] } }} />}
+
           {/* Mode toggle */}
           <div style={{ display:"flex", gap:6 }}>
-            {[["outline","📋 Outline"],["chapter","✍️ Chapter"]].map(([m,l]) => (
+            {[["outline","📋 Outline"],["chapter","✍️ Chapter"],["bible","📖 Bible"],["stats","📊 Stats"]].map(([m,l]) => (
               <button key={m} onClick={() => setMode(m as any)}
                 style={{ flex:1, background: mode===m ? "rgba(0,180,216,0.2)" : "#0F1F32", color: mode===m ? "#00B4D8" : "#9CA3AF", border:`1px solid ${mode===m ? "rgba(0,180,216,0.3)" : "rgba(255,255,255,0.07)"}`, borderRadius:8, padding:"8px", fontSize:12, fontWeight:700, cursor:"pointer", fontFamily:"system-ui" }}>
                 {l}
@@ -114,6 +395,14 @@ End on a hook that compels the reader to continue.`;
               style={{ width:"100%", background:"#0F1F32", border:"1px solid rgba(0,180,216,0.15)", borderRadius:8, padding:"9px 12px", color:"#e2e8f0", fontSize:13, outline:"none", fontFamily:"system-ui", boxSizing:"border-box", resize:"vertical" }} />
           </div>
 
+          {mode === "outline" && (
+            <div>
+              <p style={{ fontSize:11, fontWeight:700, color:"#6B7280", textTransform:"uppercase", letterSpacing:"0.05em", margin:"0 0 6px" }}>Chapters</p>
+              <input value={chapterCount} onChange={e=>setChapterCount(e.target.value)} type="number" min="1" max="40"
+                style={{ width:"100%", background:"#0F1F32", border:"1px solid rgba(0,180,216,0.15)", borderRadius:8, padding:"9px 12px", color:"#e2e8f0", fontSize:13, outline:"none", fontFamily:"system-ui", boxSizing:"border-box" }} />
+            </div>
+          )}
+
           {mode === "chapter" && (
             <>
               <div style={{ display:"flex", gap:8 }}>
@@ -126,42 +415,153 @@ End on a hook that compels the reader to continue.`;
                   <p style={{ fontSize:11, fontWeight:700, color:"#6B7280", textTransform:"uppercase", letterSpacing:"0.05em", margin:"0 0 6px" }}>Word Count</p>
                   <select value={wordCount} onChange={e=>setWordCount(e.target.value)}
                     style={{ width:"100%", background:"#0F1F32", border:"1px solid rgba(0,180,216,0.15)", borderRadius:8, padding:"9px 12px", color:"#e2e8f0", fontSize:13, outline:"none", fontFamily:"system-ui" }}>
-                    {["500","1000","1500","2000","3000","5000"].map(w=><option key={w}>{w}</option>)}
+                    {(WORD_COUNTS.includes(wordCount) ? WORD_COUNTS : [...WORD_COUNTS, wordCount]).map(w=><option key={w}>{w}</option>)}
                   </select>
                 </div>
               </div>
               <div>
                 <p style={{ fontSize:11, fontWeight:700, color:"#6B7280", textTransform:"uppercase", letterSpacing:"0.05em", margin:"0 0 6px" }}>Chapter Goal</p>
-                <input value={chapterGoal} onChange={e=>setChapterGoal(e.target.value)} placeholder="What must this chapter accomplish?"
-                  style={{ width:"100%", background:"#0F1F32", border:"1px solid rgba(0,180,216,0.15)", borderRadius:8, padding:"9px 12px", color:"#e2e8f0", fontSize:13, outline:"none", fontFamily:"system-ui", boxSizing:"border-box" }} />
+                <textarea value={chapterGoal} onChange={e=>setChapterGoal(e.target.value)} rows={3} placeholder="What must this chapter accomplish?"
+                  style={{ width:"100%", background:"#0F1F32", border:"1px solid rgba(0,180,216,0.15)", borderRadius:8, padding:"9px 12px", color:"#e2e8f0", fontSize:13, outline:"none", fontFamily:"system-ui", boxSizing:"border-box", resize:"vertical" }} />
               </div>
             </>
           )}
 
-          <button onClick={generate} disabled={loading||!premise.trim()}
-            style={{ background: loading||!premise.trim() ? "#0F1F32" : "linear-gradient(135deg,#1E3A5F,#00B4D8)", color: loading||!premise.trim() ? "#374151" : "#fff", border:"none", borderRadius:10, padding:"13px", fontSize:14, fontWeight:700, cursor: loading||!premise.trim() ? "not-allowed":"pointer", fontFamily:"system-ui" }}>
-            {loading ? "Writing..." : mode === "outline" ? "📋 Generate Outline" : "✍️ Write Chapter"}
-          </button>
+          {loading ? (
+            <button onClick={stop}
+              style={{ background:"#0F1F32", color:"#FF0800", border:"1px solid rgba(255,8,0,0.35)", borderRadius:10, padding:"13px", fontSize:14, fontWeight:700, cursor:"pointer", fontFamily:"system-ui" }}>
+              ■ Stop writing
+            </button>
+          ) : (mode === "outline" || mode === "chapter") && (
+            <button onClick={generate} disabled={!premise.trim()}
+              style={{ background: !premise.trim() ? "#0F1F32" : "linear-gradient(135deg,#1E3A5F,#00B4D8)", color: !premise.trim() ? "#374151" : "#fff", border:"none", borderRadius:10, padding:"13px", fontSize:14, fontWeight:700, cursor: !premise.trim() ? "not-allowed":"pointer", fontFamily:"system-ui" }}>
+              {mode === "outline" ? "📋 Generate Outline" : "✍️ Write Chapter"}
+            </button>
+          )}
         </div>
 
         {/* Output */}
         <div>
-          {output ? (
+          {mode === "outline" && outline ? (
             <div style={{ background:"#0F1F32", border:"1px solid rgba(0,180,216,0.12)", borderRadius:14, padding:"20px 24px" }}>
               <div style={{ display:"flex", justifyContent:"space-between", marginBottom:14 }}>
                 <span style={{ fontSize:13, fontWeight:700, color:"#00B4D8" }}>
-                  {mode === "outline" ? "📋 Book Outline" : `✍️ Chapter ${chapterNum}`}
+                  📋 Book Outline
+                  {loading && <span style={{ color:"#6B7280", fontWeight:400, marginLeft:8 }}>revising…</span>}
                 </span>
-                <button onClick={() => navigator.clipboard?.writeText(output)}
+                <button onClick={() => navigator.clipboard?.writeText(outlineToMarkdown(cleanOutline(outline)))}
                   style={{ background:"transparent", color:"#6B7280", border:"1px solid rgba(255,255,255,0.08)", borderRadius:6, padding:"3px 10px", fontSize:12, cursor:"pointer", fontFamily:"system-ui" }}>Copy</button>
               </div>
-              <pre style={{ margin:0, fontSize:13, color:"#e2e8f0", lineHeight:1.75, whiteSpace:"pre-wrap", fontFamily:"system-ui" }}>{output}</pre>
+              <OutlineEditor outline={outline} onChange={setOutline} onWrite={writeChapter} />
+              {notice && <p style={{ margin:"12px 0 0", fontSize:12, color:"#F59E0B" }}>{notice}</p>}
+              {!loading && refineBar("Refine: make chapter 3 darker...")}
+            </div>
+          ) : mode === "chapter" && output ? (
+            <div style={{ background:"#0F1F32", border:"1px solid rgba(0,180,216,0.12)", borderRadius:14, padding:"20px 24px" }}>
+              <div style={{ display:"flex", justifyContent:"space-between", marginBottom:14 }}>
+                <span style={{ fontSize:13, fontWeight:700, color:"#00B4D8" }}>
+                  ✍️ Chapter {chapterNum}
+                  {loading && <span style={{ color:"#6B7280", fontWeight:400, marginLeft:8 }}>writing… {output.split(/\s+/).filter(Boolean).length} words</span>}
+                </span>
+                <div style={{ display:"flex", gap:6 }}>
+                  {!loading && (
+                    <button onClick={() => { setRevising(!revising); setRange(null); setRevision(null); }}
+                      style={{ background:"transparent", color: revising ? "#00B4D8" : "#6B7280", border:"1px solid rgba(255,255,255,0.08)", borderRadius:6, padding:"3px 10px", fontSize:12, cursor:"pointer", fontFamily:"system-ui" }}>✂️ Revise</button>
+                  )}
+                  {!loading && (
+                    <button onClick={() => setShowStats(!showStats)}
+                      style={{ background:"transparent", color: showStats ? "#00B4D8" : "#6B7280", border:"1px solid rgba(255,255,255,0.08)", borderRadius:6, padding:"3px 10px", fontSize:12, cursor:"pointer", fontFamily:"system-ui" }}>📊 Analyze</button>
+                  )}
+                  {project && !loading && (
+                    <button onClick={() => saveChapter()}
+                      style={{ background:"transparent", color:"#00B4D8", border:"1px solid rgba(0,180,216,0.3)", borderRadius:6, padding:"3px 10px", fontSize:12, cursor:"pointer", fontFamily:"system-ui" }}>💾 Save chapter</button>
+                  )}
+                  <button onClick={() => navigator.clipboard?.writeText(output)}
+                    style={{ background:"transparent", color:"#6B7280", border:"1px solid rgba(255,255,255,0.08)", borderRadius:6, padding:"3px 10px", fontSize:12, cursor:"pointer", fontFamily:"system-ui" }}>Copy</button>
+                </div>
+              </div>
+              {savedChapter && savedChapter.versions.length > 1 && !loading && (
+                <div style={{ display:"flex", gap:6, alignItems:"center", marginBottom:12 }}>
+                  <select value={viewVersion || savedChapter.currentVersionId} onChange={e => showVersion(savedChapter, e.target.value)}
+                    style={{ background:"#040912", border:"1px solid rgba(0,180,216,0.15)", borderRadius:6, padding:"4px 8px", color:"#e2e8f0", fontSize:12, outline:"none", fontFamily:"system-ui" }}>
+                    {savedChapter.versions.map((v, i) => <option key={v.id} value={v.id}>v{i + 1} · {v.source} · {v.words.toLocaleString()} words · {new Date(v.createdAt).toLocaleString()}{v.id === savedChapter.currentVersionId ? " (current)" : ""}</option>)}
+                  </select>
+                  {viewVersion && viewVersion !== savedChapter.currentVersionId && (
+                    <button onClick={() => restoreVersion(savedChapter)}
+                      style={{ background:"transparent", color:"#00B4D8", border:"1px solid rgba(0,180,216,0.3)", borderRadius:6, padding:"3px 10px", fontSize:12, cursor:"pointer", fontFamily:"system-ui" }}>Restore this version</button>
+                  )}
+                </div>
+              )}
+              {revising && !loading ? (
+                <>
+                  <textarea value={output} readOnly onSelect={e => { const t = e.currentTarget; setRange(t.selectionEnd > t.selectionStart ? { start: t.selectionStart, end: t.selectionEnd } : null); }}
+                    style={{ width:"100%", height:420, margin:0, fontSize:13, color:"#e2e8f0", lineHeight:1.75, background:"transparent", border:"1px solid rgba(0,180,216,0.15)", borderRadius:8, padding:"8px 10px", outline:"none", resize:"vertical", fontFamily:"system-ui", boxSizing:"border-box" }} />
+                  {revision ? (
+                    <RevisionDiff key={`${revision.start}:${revision.instruction}:${revision.hunks.length}`} hunks={revision.hunks} instruction={revision.instruction} onApply={applyRevision} onDiscard={() => setRevision(null)} />
+                  ) : (
+                    <div style={{ marginTop:12 }}>
+                      <p style={{ margin:"0 0 8px", fontSize:12, color:"#6B7280" }}>{range ? `Selected ${output.slice(range.start, range.end).split(/\s+/).filter(Boolean).length} words — only this passage is rewritten.` : "Select the passage to rewrite."}</p>
+                      <div style={{ display:"flex", flexWrap:"wrap", gap:6, marginBottom:8 }}>
+                        {REVISE_PRESETS.map(p => (
+                          <button key={p} onClick={() => setInstruction(p)}
+                            style={{ background: instruction === p ? "rgba(0,180,216,0.2)" : "#040912", color: instruction === p ? "#00B4D8" : "#9CA3AF", border:"1px solid rgba(255,255,255,0.08)", borderRadius:12, padding:"3px 10px", fontSize:11, cursor:"pointer", fontFamily:"system-ui" }}>{p}</button>
+                        ))}
+                      </div>
+                      <div style={{ display:"flex", gap:8 }}>
+                        <input value={instruction} onChange={e => setInstruction(e.target.value)} onKeyDown={e => e.key === "Enter" && revisePassage()} placeholder="Instruction: more tension, cut the adverbs..." maxLength={500}
+                          style={{ flex:1, background:"#040912", border:"1px solid rgba(0,180,216,0.15)", borderRadius:8, padding:"9px 12px", color:"#e2e8f0", fontSize:13, outline:"none", fontFamily:"system-ui" }} />
+                        <button onClick={revisePassage} disabled={!range || !instruction.trim() || revisionBusy}
+                          style={{ background: !range || !instruction.trim() ? "#0F1F32" : "#00B4D8", color: !range || !instruction.trim() ? "#374151" : "#040912", border:"none", borderRadius:8, padding:"9px 16px", fontSize:13, fontWeight:700, cursor: !range || !instruction.trim() ? "not-allowed" : "pointer", fontFamily:"system-ui" }}>
+                          {revisionBusy ? "Rewriting…" : "Rewrite selection"}
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </>
+              ) : (
+                <pre style={{ margin:0, fontSize:13, color:"#e2e8f0", lineHeight:1.75, whiteSpace:"pre-wrap", fontFamily:"system-ui" }}>{output}</pre>
+              )}
+              {notice && <p style={{ margin:"12px 0 0", fontSize:12, color:"#F59E0B" }}>{notice}</p>}
+              {stats && <ChapterAnalytics analysis={stats} onRevise={askRevision} onDismiss={() => setShowStats(false)} />}
+              {history.length > 0 && !loading && refineBar("Refine: tighten the opening scene...")}
+              {report && !loading && <ContinuityReview key={report.summary} report={report} onAccept={acceptFacts} onDismiss={() => setReport(null)} />}
+            </div>
+          ) : mode === "bible" ? (
+            <div style={{ background:"#0F1F32", border:"1px solid rgba(0,180,216,0.12)", borderRadius:14, padding:"20px 24px" }}>
+              <div style={{ display:"flex", justifyContent:"space-between", alignItems:"center" }}>
+                <span style={{ fontSize:13, fontWeight:700, color:"#00B4D8" }}>📖 Story Bible</span>
+                {project && (
+                  <button onClick={() => saveBible(bible)}
+                    style={{ background:"transparent", color:"#00B4D8", border:"1px solid rgba(0,180,216,0.3)", borderRadius:6, padding:"3px 10px", fontSize:12, cursor:"pointer", fontFamily:"system-ui" }}>💾 Save bible</button>
+                )}
+              </div>
+              {project ? (
+                <>
+                  <p style={{ margin:"8px 0 0", fontSize:12, color:"#6B7280" }}>Everything here, plus summaries of earlier chapters, is sent with every chapter you write.</p>
+                  <StoryBibleEditor bible={bible} onChange={setBible} />
+                </>
+              ) : <p style={{ fontSize:13, color:"#6B7280" }}>Open or create a project to keep a story bible.</p>}
+            </div>
+          ) : mode === "stats" ? (
+            <div style={{ background:"#0F1F32", border:"1px solid rgba(0,180,216,0.12)", borderRadius:14, padding:"20px 24px" }}>
+              <div style={{ display:"flex", justifyContent:"space-between", alignItems:"center", marginBottom:12 }}>
+                <span style={{ fontSize:13, fontWeight:700, color:"#00B4D8" }}>📊 Manuscript Analytics</span>
+                {project && (
+                  <button onClick={loadBook}
+                    style={{ background:"transparent", color:"#6B7280", border:"1px solid rgba(255,255,255,0.08)", borderRadius:6, padding:"3px 10px", fontSize:12, cursor:"pointer", fontFamily:"system-ui" }}>Refresh</button>
+                )}
+              </div>
+              {!project ? <p style={{ fontSize:13, color:"#6B7280" }}>Open or create a project to see every saved chapter here, or <a href="/analyze" style={{ color:"#00B4D8" }}>paste any manuscript</a> to analyze it.</p>
+                : project.chapters.length === 0 ? <p style={{ fontSize:13, color:"#6B7280" }}>Save a chapter to see its pacing, readability and style here.</p>
+                : book ? <BookDashboard book={book} onOpenChapter={n => { const c = project.chapters.find(ch => ch.number === n); if (c) openChapter(c); }} />
+                : <p style={{ fontSize:13, color:"#6B7280" }}>Analyzing…</p>}
             </div>
           ) : (
             <div style={{ background:"#0F1F32", border:"1px solid rgba(0,180,216,0.06)", borderRadius:14, padding:"80px 24px", textAlign:"center", color:"#374151" }}>
               <div style={{ fontSize:48, marginBottom:16 }}>{mode === "outline" ? "📋" : "✍️"}</div>
-              <p style={{ fontSize:14 }}>{mode === "outline" ? "Your 10-chapter outline" : `Chapter ${chapterNum} content`} will appear here</p>
+              <p style={{ fontSize:14 }}>{mode === "outline" ? `Your ${chapterCount}-chapter outline` : `Chapter ${chapterNum} content`} will appear here</p>
               {loading && <p style={{ fontSize:12, marginTop:8, color:"#6B7280" }}>Writing your {mode === "outline" ? "outline" : "chapter"}...</p>}
+              {notice && !loading && <p style={{ fontSize:12, marginTop:8, color:"#F59E0B" }}>{notice}</p>}
             </div>
           )}
         </div>
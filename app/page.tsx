@@ -2,43 +2,42 @@
 // CR AudioViz AI · EIN 39-3646201 · May 2026
 "use client";
 import { useState } from "react";
-
-const TOOLS = [
-  { href:"/outline",      icon:"📋", label:"Book Outline",       desc:"Full chapter-by-chapter outline in minutes" },
-  { href:"/chapter",      icon:"✍️",  label:"Chapter Writer",     desc:"Write compelling chapters with AI" },
-  { href:"/blurb",        icon:"📖", label:"Back Cover Blurb",   desc:"Hook readers with the perfect description" },
-  { href:"/query-letter", icon:"📬", label:"Query Letter",       desc:"Get literary agent attention" },
-  { href:"/title",        icon:"💡", label:"Title Generator",    desc:"Find the perfect title and subtitle" },
-  { href:"/synopsis",     icon:"📝", label:"Synopsis Writer",    desc:"One-page synopsis for publishers" },
-];
+import OutlineEditor from "@/components/OutlineEditor";
+import { OUTLINE_DRAFT_KEY, outlineToMarkdown, type Outline, type OutlineChapter } from "@/lib/outline";
+import { TOOLS } from "@/lib/tools";
 
 const GENRES = ["Fiction","Non-Fiction","Memoir","Business","Self-Help","Children","Romance","Thriller","Fantasy","Sci-Fi"];
 
 export default function BooksHome() {
   const [prompt, setPrompt] = useState("");
   const [genre, setGenre] = useState("Fiction");
-  const [result, setResult] = useState("");
+  const [outline, setOutline] = useState<Outline|null>(null);
+  const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
 
   async function quickOutline() {
     if (!prompt.trim()) return;
-    setLoading(true); setResult("");
+    setLoading(true); setOutline(null); setError("");
     try {
-      const res = await fetch("/api/chat", {
+      const res = await fetch("/api/outline", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          messages: [{ role:"user", content:`Write a 10-chapter outline for a ${genre} book about: ${prompt}. Include chapter titles and 2-3 sentence descriptions of what happens in each chapter.` }],
-          stream: false,
-          systemOverride: "You are a professional book editor and bestselling author. Create compelling, marketable book outlines with strong narrative arcs and memorable characters."
-        }),
+        body: JSON.stringify({ premise: prompt, genre, chapters: 10 }),
       });
       const data = await res.json();
-      setResult(data?.choices?.[0]?.message?.content || data?.content || "Error.");
-    } catch { setResult("Connection error."); }
+      if (data?.outline) setOutline(data.outline);
+      else setError(data?.fields?.[0]?.message || data?.error || "Error.");
+    } catch { setError("Connection error."); }
     setLoading(false);
   }
 
+  // Hands the (edited) outline to the writer, which picks it up on load
+  function openInWriter(c?: OutlineChapter) {
+    if (!outline) return;
+    localStorage.setItem(OUTLINE_DRAFT_KEY, JSON.stringify(outline));
+    window.location.href = c ? `/outline?chapter=${c.number}` : "/outline";
+  }
+
   return (
     <div style={{ minHeight:"100vh", background:"#040912", color:"#e2e8f0", fontFamily:"system-ui" }}>
       <nav style={{ background:"#1E3A5F", padding:"0 20px", height:52, display:"flex", alignItems:"center", justifyContent:"space-between", position:"sticky", top:0, zIndex:100 }}>
@@ -75,15 +74,21 @@ export default function BooksHome() {
         </div>
       </section>
 
-      {result && (
+      {error && <p style={{ textAlign:"center", color:"#F59E0B", fontSize:13, margin:"24px 0 0" }}>{error}</p>}
+
+      {outline && (
         <div style={{ maxWidth:800, margin:"32px auto", padding:"0 20px" }}>
           <div style={{ background:"#0F1F32", border:"1px solid rgba(0,180,216,0.12)", borderRadius:14, padding:24 }}>
-            <div style={{ display:"flex", justifyContent:"space-between", alignItems:"center", marginBottom:14 }}>
+            <div style={{ display:"flex", justifyContent:"space-between", alignItems:"center", marginBottom:14, gap:8 }}>
               <h3 style={{ margin:0, color:"#00B4D8", fontSize:15, fontWeight:700 }}>Your Outline</h3>
-              <button onClick={()=>navigator.clipboard?.writeText(result)}
-                style={{ background:"transparent", color:"#6B7280", border:"1px solid rgba(255,255,255,0.08)", borderRadius:6, padding:"4px 12px", fontSize:12, cursor:"pointer", fontFamily:"system-ui" }}>Copy</button>
+              <div style={{ display:"flex", gap:8 }}>
+                <button onClick={()=>openInWriter()}
+                  style={{ background:"transparent", color:"#00B4D8", border:"1px solid rgba(0,180,216,0.3)", borderRadius:6, padding:"4px 12px", fontSize:12, cursor:"pointer", fontFamily:"system-ui" }}>Open in writer</button>
+                <button onClick={()=>navigator.clipboard?.writeText(outlineToMarkdown(outline))}
+                  style={{ background:"transparent", color:"#6B7280", border:"1px solid rgba(255,255,255,0.08)", borderRadius:6, padding:"4px 12px", fontSize:12, cursor:"pointer", fontFamily:"system-ui" }}>Copy</button>
+              </div>
             </div>
-            <pre style={{ whiteSpace:"pre-wrap", wordBreak:"break-word", color:"#e2e8f0", fontSize:14, lineHeight:1.7, margin:0, fontFamily:"system-ui" }}>{result}</pre>
+            <OutlineEditor outline={outline} onChange={setOutline} onWrite={openInWriter} />
           </div>
         </div>
       )}
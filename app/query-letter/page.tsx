@@ -0,0 +1,7 @@
+// app/query-letter/page.tsx — Query Letter
+// CR AudioViz AI · EIN 39-3646201 · May 2026
+import WritingTool from "@/components/WritingTool";
+
+export default function QueryLetterPage() {
+  return <WritingTool actionId="query_letter" />;
+}
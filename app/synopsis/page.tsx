@@ -0,0 +1,7 @@
+// app/synopsis/page.tsx — Synopsis Writer
+// CR AudioViz AI · EIN 39-3646201 · May 2026
+import WritingTool from "@/components/WritingTool";
+
+export default function SynopsisPage() {
+  return <WritingTool actionId="synopsis" />;
+}
@@ -0,0 +1,7 @@
+// app/title/page.tsx — Title Generator
+// CR AudioViz AI · EIN 39-3646201 · May 2026
+import WritingTool from "@/components/WritingTool";
+
+export default function TitlePage() {
+  return <WritingTool actionId="title_ideas" />;
+}
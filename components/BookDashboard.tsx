@@ -0,0 +1,84 @@
+// components/BookDashboard.tsx — javari-books
+// Per-book analytics — totals, one row per chapter, book-level flags and phrases repeated across chapters
+// CR AudioViz AI · EIN 39-3646201 · May 2026
+"use client";
+import { useState } from "react";
+import ChapterAnalytics from "@/components/ChapterAnalytics";
+import { THRESHOLDS, type BookAnalysis } from "@/lib/analytics";
+
+const heading = { fontSize:11, fontWeight:700, color:"#6B7280", textTransform:"uppercase" as const, letterSpacing:"0.05em", margin:"14px 0 6px" };
+const cell = { padding:"5px 8px", borderBottom:"1px solid rgba(255,255,255,0.05)", textAlign:"right" as const };
+
+export default function BookDashboard({ book, onOpenChapter }: { book: BookAnalysis; onOpenChapter?: (number: number) => void }) {
+  const [open, setOpen] = useState<number|null>(null);
+  const t = book.totals;
+  const detail = book.chapters.find(c => c.number === open);
+
+  return (
+    <div>
+      <div style={{ display:"flex", gap:18, flexWrap:"wrap", fontSize:12, color:"#9CA3AF" }}>
+        <span><b style={{ color:"#e2e8f0" }}>{t.words.toLocaleString()}</b>{t.targetWords ? ` / ${t.targetWords.toLocaleString()}` : ""} words</span>
+        <span>{book.chapters.length} chapters</span>
+        <span>reading ease <b style={{ color:"#e2e8f0" }}>{t.readability.fleschReadingEase}</b> · grade {t.readability.fleschKincaidGrade}</span>
+        <span>{Math.round(t.dialogueRatio * 100)}% dialogue</span>
+        <span>{t.adverbsPer1000} adverbs · {t.fillersPer1000} fillers per 1k</span>
+      </div>
+
+      {book.flags.length > 0 && (
+        <>
+          <p style={heading}>Across the book</p>
+          {book.flags.map(f => <div key={f} style={{ borderLeft:"3px solid #F59E0B", padding:"4px 10px", marginBottom:6, fontSize:12, color:"#e2e8f0" }}>{f}</div>)}
+        </>
+      )}
+
+      <p style={heading}>Chapters</p>
+      <div style={{ overflowX:"auto" }}>
+        <table style={{ width:"100%", borderCollapse:"collapse", fontSize:12, color:"#e2e8f0" }}>
+          <thead>
+            <tr style={{ color:"#6B7280" }}>
+              {["#","Words","Target","Ease","Grade","Sent. var.","Dialogue","Adverbs/1k","Fillers/1k","Flags"].map(h => <th key={h} style={{ ...cell, fontWeight:600, textAlign: h === "#" ? "left" : "right" }}>{h}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {book.chapters.map(c => (
+              <tr key={c.number} onClick={() => setOpen(open === c.number ? null : c.number)} style={{ cursor:"pointer", background: open === c.number ? "rgba(0,180,216,0.08)" : "transparent" }}>
+                <td style={{ ...cell, textAlign:"left", maxWidth:180, overflow:"hidden", textOverflow:"ellipsis", whiteSpace:"nowrap" }}>{c.number}{c.title ? ` · ${c.title}` : ""}</td>
+                <td style={cell}>{c.words.toLocaleString()}</td>
+                <td style={{ ...cell, color: c.targetDelta !== undefined && Math.abs(c.targetDelta) > c.targetWords! * THRESHOLDS.targetTolerance ? "#F59E0B" : "#9CA3AF" }}>{c.targetWords ? `${c.targetDelta! >= 0 ? "+" : ""}${c.targetDelta!.toLocaleString()}` : "—"}</td>
+                <td style={cell}>{c.readability.fleschReadingEase}</td>
+                <td style={cell}>{c.readability.fleschKincaidGrade}</td>
+                <td style={cell}>{c.sentenceLength.variation}</td>
+                <td style={cell}>{Math.round(c.dialogueRatio * 100)}%</td>
+                <td style={cell}>{c.adverbs.per1000}</td>
+                <td style={cell}>{c.fillers.per1000}</td>
+                <td style={{ ...cell, color: c.flags.length ? "#F59E0B" : "#10B981" }}>{c.flags.length || "✓"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {detail && (
+        <>
+          <ChapterAnalytics analysis={detail} onDismiss={() => setOpen(null)} />
+          {onOpenChapter && (
+            <button onClick={() => onOpenChapter(detail.number)}
+              style={{ marginTop:8, background:"transparent", color:"#00B4D8", border:"1px solid rgba(0,180,216,0.3)", borderRadius:6, padding:"4px 10px", fontSize:12, cursor:"pointer", fontFamily:"system-ui" }}>✍️ Open chapter {detail.number}</button>
+          )}
+        </>
+      )}
+
+      {book.repeated.length > 0 && (
+        <>
+          <p style={heading}>Repeated phrases</p>
+          {book.repeated.map(r => (
+            <div key={r.phrase} style={{ display:"flex", justifyContent:"space-between", fontSize:12, padding:"3px 0", borderBottom:"1px solid rgba(255,255,255,0.04)" }}>
+              <span style={{ color:"#e2e8f0" }}>“{r.phrase}”</span>
+              <span style={{ color:"#6B7280" }}>×{r.count} · ch {r.chapters.join(", ")}</span>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+// components/ChapterAnalytics.tsx — javari-books
+// One chapter's diagnostics — length against target, readability, rhythm, dialogue, adverbs/fillers, POV
+// CR AudioViz AI · EIN 39-3646201 · May 2026
+"use client";
+import type { ChapterAnalysis } from "@/lib/analytics";
+
+const heading = { fontSize:11, fontWeight:700, color:"#6B7280", textTransform:"uppercase" as const, letterSpacing:"0.05em", margin:"12px 0 6px" };
+const tile = { background:"#040912", border:"1px solid rgba(255,255,255,0.06)", borderRadius:8, padding:"8px 10px" };
+
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div style={tile}>
+      <div style={{ fontSize:10, color:"#6B7280", textTransform:"uppercase", letterSpacing:"0.05em" }}>{label}</div>
+      <div style={{ fontSize:16, fontWeight:700, color:"#e2e8f0", marginTop:2 }}>{value}</div>
+      {hint && <div style={{ fontSize:11, color:"#6B7280", marginTop:2 }}>{hint}</div>}
+    </div>
+  );
+}
+
+// onRevise, when given, turns each flag into a one-click instruction for the Chapter Writer
+export default function ChapterAnalytics({ analysis: a, onRevise, onDismiss }: { analysis: ChapterAnalysis; onRevise?: (instruction: string) => void; onDismiss?: () => void }) {
+  const pct = (n: number) => `${Math.round(n * 100)}%`;
+  return (
+    <div style={{ marginTop:16, borderTop:"1px solid rgba(255,255,255,0.06)", paddingTop:14 }}>
+      <div style={{ display:"flex", justifyContent:"space-between", alignItems:"center" }}>
+        <span style={{ fontSize:13, fontWeight:700, color:"#00B4D8" }}>📊 Chapter {a.number}{a.title ? ` — ${a.title}` : ""}</span>
+        {onDismiss && <button onClick={onDismiss} style={{ background:"transparent", color:"#6B7280", border:"none", fontSize:12, cursor:"pointer", fontFamily:"system-ui" }}>Dismiss</button>}
+      </div>
+
+      <div style={{ display:"grid", gridTemplateColumns:"repeat(auto-fill,minmax(130px,1fr))", gap:8, marginTop:10 }}>
+        <Stat label="Words" value={a.words.toLocaleString()} hint={a.targetWords ? `target ${a.targetWords.toLocaleString()} (${a.targetDelta! >= 0 ? "+" : ""}${a.targetDelta!.toLocaleString()})` : undefined} />
+        <Stat label="Reading ease" value={String(a.readability.fleschReadingEase)} hint={`grade ${a.readability.fleschKincaidGrade}`} />
+        <Stat label="Sentences" value={a.sentences.toLocaleString()} hint={`avg ${a.sentenceLength.mean} words ± ${a.sentenceLength.stdDev}`} />
+        <Stat label="Dialogue" value={pct(a.dialogueRatio)} hint={`${pct(1 - a.dialogueRatio)} narration`} />
+        <Stat label="Adverbs" value={`${a.adverbs.per1000}/1k`} hint={a.adverbs.top.slice(0, 3).map(t => t.word).join(", ") || undefined} />
+        <Stat label="Fillers" value={`${a.fillers.per1000}/1k`} hint={a.fillers.top.slice(0, 3).map(t => t.word).join(", ") || undefined} />
+        <Stat label="POV" value={a.pov.detected} hint={a.pov.expected && (a.pov.issues.length ? `expected ${a.pov.expected}` : "consistent")} />
+      </div>
+
+      <p style={heading}>Readability</p>
+      <div style={{ fontSize:12, color:"#9CA3AF", lineHeight:1.7 }}>
+        Flesch-Kincaid grade {a.readability.fleschKincaidGrade} · Gunning fog {a.readability.gunningFog} · SMOG {a.readability.smog} · Coleman-Liau {a.readability.colemanLiau} · ARI {a.readability.automatedReadabilityIndex}
+        <br />Sentence length {a.sentenceLength.shortest}–{a.sentenceLength.longest} words, variation {a.sentenceLength.variation}
+      </div>
+
+      <p style={heading}>To revise ({a.flags.length})</p>
+      {a.flags.length === 0 ? <p style={{ margin:0, fontSize:12, color:"#10B981" }}>Nothing flagged.</p> : a.flags.map(f => (
+        <div key={f} style={{ display:"flex", justifyContent:"space-between", alignItems:"center", gap:8, borderLeft:"3px solid #F59E0B", padding:"4px 10px", marginBottom:6, fontSize:12, color:"#e2e8f0" }}>
+          <span>{f}</span>
+          {onRevise && (
+            <button onClick={() => onRevise(`Revise this chapter to fix: ${f}`)}
+              style={{ background:"transparent", color:"#00B4D8", border:"1px solid rgba(0,180,216,0.3)", borderRadius:6, padding:"2px 8px", fontSize:11, cursor:"pointer", fontFamily:"system-ui", whiteSpace:"nowrap" }}>Ask writer</button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+// components/ContinuityReview.tsx — javari-books
+// Post-chapter continuity report — pick which new facts join the bible, see suspected contradictions
+// CR AudioViz AI · EIN 39-3646201 · May 2026
+"use client";
+import { useState } from "react";
+import type { BibleFacts, ContinuityReport } from "@/lib/bible";
+
+const SEVERITY = { low:"#6B7280", medium:"#F59E0B", high:"#FF0800" };
+const heading = { fontSize:11, fontWeight:700, color:"#6B7280", textTransform:"uppercase" as const, letterSpacing:"0.05em", margin:"12px 0 6px" };
+
+type Item = { kind: keyof BibleFacts; index: number; label: string };
+
+export default function ContinuityReview({ report, onAccept, onDismiss }: { report: ContinuityReport; onAccept: (facts: BibleFacts) => void; onDismiss: () => void }) {
+  const items: Item[] = [
+    ...report.facts.characters.map((c, index) => ({ kind: "characters" as const, index, label: `👤 ${c.name}${c.role ? ` (${c.role})` : ""} — ${c.description}` })),
+    ...report.facts.locations.map((l, index) => ({ kind: "locations" as const, index, label: `📍 ${l.name} — ${l.description}` })),
+    ...report.facts.timeline.map((t, index) => ({ kind: "timeline" as const, index, label: `🕒 ${t.chapter ? `Ch ${t.chapter}: ` : ""}${t.event}` })),
+    ...report.facts.glossary.map((g, index) => ({ kind: "glossary" as const, index, label: `📖 ${g.term} — ${g.definition}` })),
+  ];
+  const [picked, setPicked] = useState<Set<string>>(() => new Set(items.map(i => `${i.kind}:${i.index}`)));
+
+  function accept() {
+    const keep = <K extends keyof BibleFacts>(kind: K) => report.facts[kind].filter((_, i) => picked.has(`${kind}:${i}`)) as BibleFacts[K];
+    onAccept({ characters: keep("characters"), locations: keep("locations"), timeline: keep("timeline"), glossary: keep("glossary") });
+  }
+
+  return (
+    <div style={{ marginTop:16, borderTop:"1px solid rgba(255,255,255,0.06)", paddingTop:14 }}>
+      <div style={{ display:"flex", justifyContent:"space-between", alignItems:"center" }}>
+        <span style={{ fontSize:13, fontWeight:700, color:"#00B4D8" }}>🔎 Continuity review</span>
+        <button onClick={onDismiss} style={{ background:"transparent", color:"#6B7280", border:"none", fontSize:12, cursor:"pointer", fontFamily:"system-ui" }}>Dismiss</button>
+      </div>
+      <p style={{ margin:"8px 0 0", fontSize:12, color:"#9CA3AF", lineHeight:1.6 }}>{report.summary}</p>
+
+      {report.contradictions.length > 0 && (
+        <>
+          <p style={heading}>Suspected contradictions ({report.contradictions.length})</p>
+          {report.contradictions.map((c, i) => (
+            <div key={i} style={{ borderLeft:`3px solid ${SEVERITY[c.severity]}`, padding:"4px 10px", marginBottom:6, fontSize:12 }}>
+              <div style={{ color:"#e2e8f0" }}>“{c.claim}”</div>
+              <div style={{ color:"#6B7280" }}>conflicts with: {c.conflictsWith}</div>
+            </div>
+          ))}
+        </>
+      )}
+
+      {items.length > 0 ? (
+        <>
+          <p style={heading}>New facts ({items.length})</p>
+          {items.map(i => {
+            const key = `${i.kind}:${i.index}`;
+            return (
+              <label key={key} style={{ display:"flex", gap:8, fontSize:12, color:"#e2e8f0", marginBottom:4, cursor:"pointer" }}>
+                <input type="checkbox" checked={picked.has(key)} onChange={() => { const next = new Set(picked); next.has(key) ? next.delete(key) : next.add(key); setPicked(next); }} />
+                <span>{i.label}</span>
+              </label>
+            );
+          })}
+          <button onClick={accept} disabled={picked.size === 0}
+            style={{ marginTop:8, background: picked.size ? "#00B4D8" : "#0F1F32", color: picked.size ? "#040912" : "#374151", border:"none", borderRadius:6, padding:"6px 12px", fontSize:12, fontWeight:700, cursor: picked.size ? "pointer" : "not-allowed", fontFamily:"system-ui" }}>
+            Add {picked.size} to story bible
+          </button>
+        </>
+      ) : <p style={{ fontSize:12, color:"#6B7280", margin:"8px 0 0" }}>No new facts found.</p>}
+    </div>
+  );
+}
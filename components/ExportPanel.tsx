@@ -0,0 +1,64 @@
+// components/ExportPanel.tsx — javari-books
+// Download the assembled book — Markdown, DOCX, EPUB or a standard manuscript for agent submissions
+// CR AudioViz AI · EIN 39-3646201 · May 2026
+"use client";
+import { useState } from "react";
+
+const label = { fontSize:11, fontWeight:700, color:"#6B7280", textTransform:"uppercase" as const, letterSpacing:"0.05em", margin:"0 0 6px" };
+const field = { width:"100%", background:"#040912", border:"1px solid rgba(0,180,216,0.15)", borderRadius:8, padding:"7px 10px", color:"#e2e8f0", fontSize:12, outline:"none", fontFamily:"system-ui", boxSizing:"border-box" as const };
+const small = { background:"transparent", color:"#00B4D8", border:"1px solid rgba(0,180,216,0.3)", borderRadius:6, padding:"6px 8px", fontSize:12, fontWeight:700, cursor:"pointer", fontFamily:"system-ui" };
+
+const FORMATS = [["markdown","Markdown"],["docx","DOCX"],["epub","EPUB"],["manuscript","Manuscript"]];
+
+// Either a saved project (its saved chapters) or an inline book for unsaved sessions
+export type ExportSource = { projectId: string } | { book: Record<string, unknown> };
+
+export default function ExportPanel({ source }: { source: ExportSource }) {
+  const [author, setAuthor] = useState("");
+  const [contact, setContact] = useState("");
+  const [busy, setBusy] = useState("");
+  const [error, setError] = useState("");
+
+  async function download(format: string) {
+    setBusy(format); setError("");
+    try {
+      const res = await fetch("/api/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format, author, contact: contact.split("\n").filter(l => l.trim()), ...source }),
+      });
+      if (!res.ok) {
+        const d = await res.json().catch(() => null);
+        setError(d?.fields?.[0]?.message || d?.error || `Export failed (${res.status})`);
+        return;
+      }
+      const name = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `book.${format}`;
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url; a.download = name; a.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch {
+      setError("Export failed — check your connection.");
+    } finally {
+      setBusy("");
+    }
+  }
+
+  return (
+    <div style={{ background:"#0F1F32", border:"1px solid rgba(0,180,216,0.12)", borderRadius:10, padding:12, display:"flex", flexDirection:"column", gap:8 }}>
+      <p style={label}>Export book</p>
+      <input value={author} onChange={e => setAuthor(e.target.value)} placeholder="Author name" style={field} />
+      <textarea value={contact} onChange={e => setContact(e.target.value)} rows={3} placeholder={"Contact for manuscript title page\nStreet, City\nemail@example.com"}
+        style={{ ...field, resize:"vertical" }} />
+      <div style={{ display:"grid", gridTemplateColumns:"1fr 1fr", gap:6 }}>
+        {FORMATS.map(([f, l]) => (
+          <button key={f} onClick={() => download(f)} disabled={!!busy} style={{ ...small, opacity: busy && busy !== f ? 0.4 : 1, cursor: busy ? "wait" : "pointer" }}>
+            {busy === f ? "…" : `⬇ ${l}`}
+          </button>
+        ))}
+      </div>
+      {"projectId" in source && <p style={{ margin:0, fontSize:11, color:"#6B7280" }}>Exports the saved chapters of this project.</p>}
+      {error && <p style={{ margin:0, fontSize:11, color:"#FF0800" }}>{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+// components/OutlineEditor.tsx — javari-books
+// Editable chapter list for a structured outline — shared by the home page and the writer
+// CR AudioViz AI · EIN 39-3646201 · May 2026
+"use client";
+import type { Outline, OutlineChapter } from "@/lib/outline";
+
+const label = { fontSize:10, fontWeight:700, color:"#6B7280", textTransform:"uppercase" as const, letterSpacing:"0.05em", margin:"10px 0 4px" };
+const field = { width:"100%", background:"#040912", border:"1px solid rgba(0,180,216,0.12)", borderRadius:6, padding:"7px 10px", color:"#e2e8f0", fontSize:13, outline:"none", fontFamily:"system-ui", boxSizing:"border-box" as const };
+
+export default function OutlineEditor({ outline, onChange, onWrite }: { outline: Outline; onChange: (o: Outline) => void; onWrite?: (c: OutlineChapter) => void }) {
+  function patch(i: number, p: Partial<OutlineChapter>) {
+    onChange({ ...outline, chapters: outline.chapters.map((c, j) => j === i ? { ...c, ...p } : c) });
+  }
+
+  return (
+    <div style={{ display:"flex", flexDirection:"column", gap:12 }}>
+      <div>
+        <input value={outline.book.title} onChange={e=>onChange({ ...outline, book: { ...outline.book, title: e.target.value } })}
+          style={{ ...field, fontSize:18, fontWeight:800, background:"transparent", border:"none", padding:0, color:"#fff" }} />
+        <p style={{ margin:"4px 0 0", fontSize:12, color:"#6B7280" }}>{[outline.book.genre, outline.book.pov, outline.book.tone].filter(Boolean).join(" · ")} · {outline.chapters.length} chapters · ~{outline.chapters.reduce((n, c) => n + (c.targetWords || 0), 0).toLocaleString()} words</p>
+        {outline.book.logline && <p style={{ margin:"8px 0 0", fontSize:13, color:"#9CA3AF", fontStyle:"italic" }}>{outline.book.logline}</p>}
+      </div>
+      {outline.chapters.map((c, i) => (
+        <div key={i} style={{ background:"#040912", border:"1px solid rgba(0,180,216,0.1)", borderRadius:10, padding:"12px 14px" }}>
+          <div style={{ display:"flex", gap:8, alignItems:"center" }}>
+            <span style={{ color:"#00B4D8", fontWeight:800, fontSize:13, whiteSpace:"nowrap" }}>Ch {c.number}</span>
+            <input value={c.title} onChange={e=>patch(i, { title: e.target.value })} style={{ ...field, flex:1, fontWeight:700 }} />
+            <input value={c.targetWords || ""} onChange={e=>patch(i, { targetWords: Number(e.target.value) || 0 })} type="number" min="100" step="100" title="Target words"
+              style={{ ...field, width:90 }} />
+            {onWrite && (
+              <button onClick={()=>onWrite(c)}
+                style={{ background:"rgba(0,180,216,0.15)", color:"#00B4D8", border:"1px solid rgba(0,180,216,0.3)", borderRadius:6, padding:"7px 10px", fontSize:12, fontWeight:700, cursor:"pointer", fontFamily:"system-ui", whiteSpace:"nowrap" }}>
+                ✍️ Write this chapter
+              </button>
+            )}
+          </div>
+          <p style={label}>Scenes (one per line)</p>
+          <textarea value={c.scenes.join("\n")} onChange={e=>patch(i, { scenes: e.target.value.split("\n") })} rows={Math.max(2, c.scenes.length)} style={{ ...field, resize:"vertical" }} />
+          <p style={label}>Character beats (one per line)</p>
+          <textarea value={c.beats.join("\n")} onChange={e=>patch(i, { beats: e.target.value.split("\n") })} rows={Math.max(1, c.beats.length)} style={{ ...field, resize:"vertical" }} />
+          <p style={label}>Ending hook</p>
+          <input value={c.hook} onChange={e=>patch(i, { hook: e.target.value })} style={field} />
+        </div>
+      ))}
+    </div>
+  );
+}
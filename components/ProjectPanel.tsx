@@ -0,0 +1,59 @@
+// components/ProjectPanel.tsx — javari-books
+// Book project picker for the writer — open, create and save a manuscript, jump to saved chapters
+// CR AudioViz AI · EIN 39-3646201 · May 2026
+"use client";
+import { useEffect, useState } from "react";
+import { currentVersion, type Project, type ProjectChapter, type ProjectSummary } from "@/lib/projects";
+
+const label = { fontSize:11, fontWeight:700, color:"#6B7280", textTransform:"uppercase" as const, letterSpacing:"0.05em", margin:"0 0 6px" };
+const small = { background:"transparent", color:"#00B4D8", border:"1px solid rgba(0,180,216,0.3)", borderRadius:6, padding:"6px 10px", fontSize:12, fontWeight:700, cursor:"pointer", fontFamily:"system-ui" };
+
+type Props = {
+  project: Project | null;
+  notes: string;
+  status: string;
+  onNotes: (n: string) => void;
+  onOpen: (id: string | null) => void;
+  onCreate: () => void;
+  onSave: () => void;
+  onOpenChapter: (c: ProjectChapter) => void;
+};
+
+export default function ProjectPanel({ project, notes, status, onNotes, onOpen, onCreate, onSave, onOpenChapter }: Props) {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+
+  useEffect(() => {
+    fetch("/api/projects").then(r => r.json()).then(d => setProjects(d?.projects ?? [])).catch(() => {});
+  }, [project?.id, project?.updatedAt]);
+
+  return (
+    <div style={{ background:"#0F1F32", border:"1px solid rgba(0,180,216,0.12)", borderRadius:10, padding:12, display:"flex", flexDirection:"column", gap:8 }}>
+      <p style={label}>Project</p>
+      <select value={project?.id ?? ""} onChange={e => onOpen(e.target.value || null)}
+        style={{ width:"100%", background:"#040912", border:"1px solid rgba(0,180,216,0.15)", borderRadius:8, padding:"8px 10px", color:"#e2e8f0", fontSize:13, outline:"none", fontFamily:"system-ui" }}>
+        <option value="">— Unsaved session —</option>
+        {projects.map(p => <option key={p.id} value={p.id}>{p.title} · {p.chapters} ch · {p.words.toLocaleString()} words</option>)}
+      </select>
+      <div style={{ display:"flex", gap:6 }}>
+        <button onClick={onCreate} style={{ ...small, flex:1 }}>＋ New</button>
+        <button onClick={onSave} disabled={!project} style={{ ...small, flex:1, opacity: project ? 1 : 0.4, cursor: project ? "pointer" : "not-allowed" }}>💾 Save</button>
+      </div>
+      {status && <p style={{ margin:0, fontSize:11, color:"#6B7280" }}>{status}</p>}
+      {project && project.chapters.length > 0 && (
+        <div style={{ display:"flex", flexDirection:"column", gap:4 }}>
+          {project.chapters.map(c => (
+            <button key={c.id} onClick={() => onOpenChapter(c)}
+              style={{ background:"#040912", color:"#e2e8f0", border:"1px solid rgba(255,255,255,0.05)", borderRadius:6, padding:"6px 8px", fontSize:12, textAlign:"left", cursor:"pointer", fontFamily:"system-ui" }}>
+              <span style={{ color:"#00B4D8", fontWeight:700 }}>Ch {c.number}</span> {c.title}
+              <span style={{ color:"#6B7280" }}> · {(currentVersion(c)?.words ?? 0).toLocaleString()} words · v{c.versions.length}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      {project && (
+        <textarea value={notes} onChange={e => onNotes(e.target.value)} rows={3} placeholder="Project notes..."
+          style={{ width:"100%", background:"#040912", border:"1px solid rgba(0,180,216,0.15)", borderRadius:8, padding:"8px 10px", color:"#e2e8f0", fontSize:12, outline:"none", fontFamily:"system-ui", boxSizing:"border-box", resize:"vertical" }} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+// components/RevisionDiff.tsx — javari-books
+// Inline word diff of a revised passage — accept or reject each change, then apply the accepted ones
+// CR AudioViz AI · EIN 39-3646201 · May 2026
+"use client";
+import { useState } from "react";
+import { applyHunks, changeIds, type DiffHunk } from "@/lib/diff";
+
+const small = { background:"transparent", border:"1px solid rgba(255,255,255,0.08)", borderRadius:6, padding:"3px 10px", fontSize:12, cursor:"pointer", fontFamily:"system-ui" };
+
+export default function RevisionDiff({ hunks, instruction, onApply, onDiscard }: { hunks: DiffHunk[]; instruction: string; onApply: (passage: string, accepted: number) => void; onDiscard: () => void }) {
+  const ids = changeIds(hunks);
+  const [accepted, setAccepted] = useState<Set<number>>(() => new Set(ids));
+  const toggle = (id: number) => { const next = new Set(accepted); next.has(id) ? next.delete(id) : next.add(id); setAccepted(next); };
+
+  return (
+    <div style={{ marginTop:12, border:"1px solid rgba(0,180,216,0.2)", borderRadius:10, padding:"12px 14px", background:"#040912" }}>
+      <div style={{ display:"flex", justifyContent:"space-between", alignItems:"center", gap:8, marginBottom:10 }}>
+        <span style={{ fontSize:12, color:"#9CA3AF" }}><b style={{ color:"#00B4D8" }}>✂️ {instruction}</b> · {ids.length} change{ids.length === 1 ? "" : "s"} · click one to accept or reject it</span>
+        <div style={{ display:"flex", gap:6 }}>
+          <button onClick={() => setAccepted(new Set(ids))} style={{ ...small, color:"#10B981" }}>Accept all</button>
+          <button onClick={() => setAccepted(new Set())} style={{ ...small, color:"#FF0800" }}>Reject all</button>
+        </div>
+      </div>
+
+      <div style={{ fontSize:13, color:"#e2e8f0", lineHeight:1.75, whiteSpace:"pre-wrap" }}>
+        {hunks.map((h, i) => h.kind === "equal" ? <span key={i}>{h.text}</span> : (
+          <span key={i} onClick={() => toggle(h.id)} title={accepted.has(h.id) ? "Accepted — click to keep the original" : "Rejected — click to accept the change"}
+            style={{ cursor:"pointer", borderRadius:3, outline: accepted.has(h.id) ? "1px solid rgba(16,185,129,0.35)" : "1px solid rgba(255,255,255,0.12)" }}>
+            {h.before && <del style={{ color: accepted.has(h.id) ? "#FF6B6B" : "#e2e8f0", background: accepted.has(h.id) ? "rgba(255,8,0,0.12)" : "transparent", textDecoration: accepted.has(h.id) ? "line-through" : "none" }}>{h.before}</del>}
+            {h.after && <ins style={{ color: accepted.has(h.id) ? "#10B981" : "#4B5563", background: accepted.has(h.id) ? "rgba(16,185,129,0.12)" : "transparent", textDecoration: accepted.has(h.id) ? "none" : "line-through" }}>{h.after}</ins>}
+          </span>
+        ))}
+      </div>
+
+      <div style={{ display:"flex", gap:6, marginTop:12 }}>
+        <button onClick={() => onApply(applyHunks(hunks, accepted), accepted.size)} disabled={accepted.size === 0}
+          style={{ background: accepted.size ? "#00B4D8" : "#0F1F32", color: accepted.size ? "#040912" : "#374151", border:"none", borderRadius:6, padding:"6px 12px", fontSize:12, fontWeight:700, cursor: accepted.size ? "pointer" : "not-allowed", fontFamily:"system-ui" }}>
+          Apply {accepted.size} of {ids.length}
+        </button>
+        <button onClick={onDiscard} style={{ ...small, color:"#6B7280" }}>Discard</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+// components/StoryBibleEditor.tsx — javari-books
+// Editable story bible — characters, locations, timeline, glossary and style rules
+// CR AudioViz AI · EIN 39-3646201 · May 2026
+"use client";
+import type { StoryBible } from "@/lib/bible";
+
+const heading = { fontSize:11, fontWeight:700, color:"#6B7280", textTransform:"uppercase" as const, letterSpacing:"0.05em", margin:"18px 0 8px" };
+const field = { background:"#040912", border:"1px solid rgba(0,180,216,0.12)", borderRadius:6, padding:"7px 10px", color:"#e2e8f0", fontSize:13, outline:"none", fontFamily:"system-ui", boxSizing:"border-box" as const };
+const small = { background:"transparent", color:"#6B7280", border:"1px solid rgba(255,255,255,0.08)", borderRadius:6, padding:"6px 10px", fontSize:12, cursor:"pointer", fontFamily:"system-ui" };
+
+type Column<T> = { key: keyof T; placeholder: string; width?: number };
+
+// One editable table per list; rows are plain objects with string (or chapter number) cells
+function Rows<T extends Record<string, unknown>>({ title, rows, columns, blank, onChange }: { title: string; rows: T[]; columns: Column<T>[]; blank: T; onChange: (rows: T[]) => void }) {
+  return (
+    <>
+      <p style={heading}>{title} ({rows.length})</p>
+      {rows.map((r, i) => (
+        <div key={i} style={{ display:"flex", gap:6, marginBottom:6 }}>
+          {columns.map(c => (
+            <input key={String(c.key)} value={r[c.key] == null ? "" : String(r[c.key])} placeholder={c.placeholder}
+              onChange={e => onChange(rows.map((x, j) => j === i ? { ...x, [c.key]: c.key === "chapter" ? (Number(e.target.value) || null) : e.target.value } : x))}
+              style={{ ...field, ...(c.width ? { width:c.width } : { flex:1 }) }} />
+          ))}
+          <button onClick={() => onChange(rows.filter((_, j) => j !== i))} style={small} title="Remove">✕</button>
+        </div>
+      ))}
+      <button onClick={() => onChange([...rows, { ...blank }])} style={small}>＋ Add</button>
+    </>
+  );
+}
+
+export default function StoryBibleEditor({ bible, onChange }: { bible: StoryBible; onChange: (b: StoryBible) => void }) {
+  return (
+    <div>
+      <Rows title="Characters" rows={bible.characters} blank={{ name:"", role:"", description:"" }} onChange={characters => onChange({ ...bible, characters })}
+        columns={[{ key:"name", placeholder:"Name", width:140 }, { key:"role", placeholder:"Role", width:120 }, { key:"description", placeholder:"Description, age, relationships..." }]} />
+      <Rows title="Locations" rows={bible.locations} blank={{ name:"", description:"" }} onChange={locations => onChange({ ...bible, locations })}
+        columns={[{ key:"name", placeholder:"Place", width:160 }, { key:"description", placeholder:"What is established about it" }]} />
+      <Rows title="Timeline" rows={bible.timeline} blank={{ chapter:null, event:"" }} onChange={timeline => onChange({ ...bible, timeline })}
+        columns={[{ key:"chapter", placeholder:"Ch", width:60 }, { key:"event", placeholder:"What happened" }]} />
+      <Rows title="Glossary" rows={bible.glossary} blank={{ term:"", definition:"" }} onChange={glossary => onChange({ ...bible, glossary })}
+        columns={[{ key:"term", placeholder:"Term", width:160 }, { key:"definition", placeholder:"Meaning" }]} />
+      <p style={heading}>Style rules (one per line)</p>
+      <textarea value={bible.styleRules.join("\n")} onChange={e => onChange({ ...bible, styleRules: e.target.value.split("\n") })} rows={4}
+        placeholder={"Past tense throughout\nNo profanity\nBritish spelling"}
+        style={{ ...field, width:"100%", resize:"vertical" }} />
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+// components/WritingTool.tsx — javari-books
+// One page for every writing tool — form rendered from the tool-data schema, streamed result, project pre-fill
+// CR AudioViz AI · EIN 39-3646201 · May 2026
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { countWords, prefillValues, projectPrefill, type Project, type ProjectSummary } from "@/lib/projects";
+import { streamPost } from "@/lib/stream-client";
+import { getAction, getFields, type FieldValues } from "@/lib/tool-data";
+
+const label = { fontSize:11, fontWeight:700, color:"#6B7280", textTransform:"uppercase" as const, letterSpacing:"0.05em", margin:"0 0 6px" };
+const input = { width:"100%", background:"#0F1F32", border:"1px solid rgba(0,180,216,0.15)", borderRadius:8, padding:"9px 12px", color:"#e2e8f0", fontSize:13, outline:"none", fontFamily:"system-ui", boxSizing:"border-box" as const };
+const small = { background:"transparent", color:"#6B7280", border:"1px solid rgba(255,255,255,0.08)", borderRadius:6, padding:"3px 10px", fontSize:12, cursor:"pointer", fontFamily:"system-ui" };
+
+export default function WritingTool({ actionId }: { actionId: string }) {
+  const action = getAction(actionId);
+  const group = getFields(actionId);
+  const [values, setValues] = useState<FieldValues>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [projectId, setProjectId] = useState("");
+  const [output, setOutput] = useState("");
+  const [notice, setNotice] = useState("");
+  const [loading, setLoading] = useState(false);
+  const abortRef = useRef<AbortController|null>(null);
+
+  // ?project=ID pre-selects a saved project; otherwise the user can pick one from the list
+  useEffect(() => {
+    fetch("/api/projects").then(r => r.json()).then(d => setProjects(d?.projects ?? [])).catch(() => {});
+    const id = new URLSearchParams(window.location.search).get("project");
+    if (id) fillFrom(id);
+  }, []);
+
+  async function fillFrom(id: string) {
+    setProjectId(id);
+    if (!id) return;
+    try {
+      const d = await fetch(`/api/projects/${id}`).then(r => r.json());
+      const p = d?.project as Project | undefined;
+      if (p) setValues(v => prefillValues(group.fields, projectPrefill(p), v));
+      else setNotice("Project not found.");
+    } catch { setNotice("Could not load project."); }
+  }
+
+  async function generate() {
+    if (!action) return;
+    setLoading(true); setOutput(""); setNotice(""); setErrors({});
+    const ctl = new AbortController();
+    abortRef.current = ctl;
+    const r = await streamPost("/api/generate", { action: action.id, values }, setOutput, ctl.signal);
+    abortRef.current = null;
+    if (r.fields) setErrors(Object.fromEntries(r.fields.map(e => [e.field, e.message])));
+    if (r.aborted) setNotice(r.text ? "Stopped — partial text kept." : "");
+    else if (r.error) setNotice(r.text ? `${r.error} — partial text kept.` : r.error);
+    else if (r.finish?.truncated) setNotice(`Cut at the ${Number(r.finish.word_cap).toLocaleString()}-word cap.`);
+    setLoading(false);
+  }
+
+  if (!action) return null;
+  const cap = action.wordCap?.(values);
+  const words = countWords(output);
+  const missing = group.fields.some(f => f.required && !values[f.id]?.trim());
+
+  return (
+    <div style={{ minHeight:"100vh", background:"#040912", color:"#e2e8f0", fontFamily:"system-ui" }}>
+      <nav style={{ background:"#1E3A5F", padding:"0 20px", height:52, display:"flex", alignItems:"center", justifyContent:"space-between", position:"sticky", top:0, zIndex:100 }}>
+        <div style={{ display:"flex", alignItems:"center", gap:8 }}>
+          <a href="/" style={{ color:"#9CA3AF", textDecoration:"none", fontSize:13 }}>📚 Javari Books</a>
+          <span style={{ color:"#374151" }}>·</span>
+          <span style={{ color:"#00B4D8", fontWeight:700 }}>{action.label.replace(/^\S+\s/, "")}</span>
+        </div>
+        <a href="https://craudiovizai.com/auth/signup" style={{ background:"#FF0800", color:"#fff", borderRadius:7, padding:"5px 14px", fontSize:12, fontWeight:700, textDecoration:"none" }}>Sign Up</a>
+      </nav>
+
+      <div style={{ maxWidth:1000, margin:"0 auto", padding:"28px 20px 72px", display:"grid", gridTemplateColumns:"300px 1fr", gap:24 }}>
+        {/* Form */}
+        <div style={{ display:"flex", flexDirection:"column", gap:14 }}>
+          <div style={{ background:"#0F1F32", border:"1px solid rgba(0,180,216,0.12)", borderRadius:10, padding:12 }}>
+            <p style={label}>Fill from project</p>
+            <select value={projectId} onChange={e => fillFrom(e.target.value)} style={{ ...input, background:"#040912", padding:"8px 10px" }}>
+              <option value="">— None —</option>
+              {projects.map(p => <option key={p.id} value={p.id}>{p.title} · {p.chapters} ch</option>)}
+            </select>
+            <p style={{ margin:"6px 0 0", fontSize:11, color:"#6B7280" }}>Fills empty fields from the saved outline, premise and story bible.</p>
+          </div>
+
+          <p style={{ ...label, margin:0, color:"#9CA3AF" }}>{group.label}</p>
+          {group.fields.map(f => (
+            <div key={f.id}>
+              <p style={label}>{f.label}{f.required && <span style={{ color:"#FF0800" }}> *</span>}</p>
+              {f.options ? (
+                <select value={values[f.id] ?? ""} onChange={e => setValues({ ...values, [f.id]: e.target.value })} style={input}>
+                  <option value="">{f.placeholder}</option>
+                  {f.options.map(o => <option key={o}>{o}</option>)}
+                </select>
+              ) : f.multiline ? (
+                <textarea value={values[f.id] ?? ""} onChange={e => setValues({ ...values, [f.id]: e.target.value })} rows={4} placeholder={f.placeholder} maxLength={f.maxLength}
+                  style={{ ...input, resize:"vertical" }} />
+              ) : (
+                <input value={values[f.id] ?? ""} onChange={e => setValues({ ...values, [f.id]: e.target.value })} placeholder={f.placeholder} maxLength={f.maxLength}
+                  inputMode={f.type === "number" ? "numeric" : undefined} style={input} />
+              )}
+              {errors[f.id] && <p style={{ margin:"4px 0 0", fontSize:11, color:"#F59E0B" }}>{errors[f.id]}</p>}
+            </div>
+          ))}
+
+          {loading ? (
+            <button onClick={() => abortRef.current?.abort()}
+              style={{ background:"#0F1F32", color:"#F59E0B", border:"1px solid rgba(245,158,11,0.4)", borderRadius:10, padding:"13px", fontSize:14, fontWeight:700, cursor:"pointer", fontFamily:"system-ui" }}>■ Stop</button>
+          ) : (
+            <button onClick={generate} disabled={missing}
+              style={{ background: missing ? "#0F1F32" : "#FF0800", color: missing ? "#374151" : "#fff", border:"none", borderRadius:10, padding:"13px", fontSize:14, fontWeight:700, cursor: missing ? "not-allowed" : "pointer", fontFamily:"system-ui" }}>
+              {action.label.split(" ")[0]} Generate
+            </button>
+          )}
+        </div>
+
+        {/* Output */}
+        <div>
+          {output ? (
+            <div style={{ background:"#0F1F32", border:"1px solid rgba(0,180,216,0.12)", borderRadius:14, padding:"20px 24px" }}>
+              <div style={{ display:"flex", justifyContent:"space-between", marginBottom:14 }}>
+                <span style={{ fontSize:13, fontWeight:700, color:"#00B4D8" }}>
+                  {action.label}
+                  <span style={{ color: cap && words > cap ? "#F59E0B" : "#6B7280", fontWeight:400, marginLeft:8 }}>
+                    {loading ? "writing… " : ""}{words.toLocaleString()}{cap ? ` / ${cap.toLocaleString()}` : ""} words
+                  </span>
+                </span>
+                <button onClick={() => navigator.clipboard?.writeText(output)} style={small}>Copy</button>
+              </div>
+              <pre style={{ margin:0, fontSize:13, color:"#e2e8f0", lineHeight:1.75, whiteSpace:"pre-wrap", fontFamily:"system-ui" }}>{output}</pre>
+              {notice && <p style={{ margin:"12px 0 0", fontSize:12, color:"#F59E0B" }}>{notice}</p>}
+            </div>
+          ) : (
+            <div style={{ background:"#0F1F32", border:"1px solid rgba(0,180,216,0.06)", borderRadius:14, padding:"80px 24px", textAlign:"center", color:"#374151" }}>
+              <div style={{ fontSize:48, marginBottom:16 }}>{action.label.split(" ")[0]}</div>
+              <p style={{ fontSize:14 }}>{action.desc}</p>
+              {loading && <p style={{ fontSize:12, marginTop:8, color:"#6B7280" }}>Writing...</p>}
+              {notice && !loading && <p style={{ fontSize:12, marginTop:8, color:"#F59E0B" }}>{notice}</p>}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+// lib/ai.ts — javari-books
+// Shared completion helper — walks the provider chain with per-provider timeouts and retries
+import { getGenerationDefaults, getProviderChain, ProviderError, type Provider } from './providers'
+
+export type ChatRole = 'system' | 'user' | 'assistant'
+export type ChatMessage = { role: ChatRole; content: string }
+// `deadline` (epoch ms, from requestDeadline()) is shared by every call one request makes; without it each call gets its own
+export type CompleteOptions = { maxTokens?: number; temperature?: number; task?: string; deadline?: number }
+
+export class AIUnavailableError extends Error {
+  constructor(public failures: ProviderError[]) {
+    super('AI unavailable' + (failures.length ? ': ' + failures.map(f => f.message).join('; ') : ''))
+    this.name = 'AIUnavailableError'
+  }
+  // Safe to return to clients — reasons and statuses only, never keys or bodies
+  get summary() { return this.failures.map(f => ({ provider: f.provider, reason: f.reason, status: f.status })) }
+}
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms))
+
+export class CancelledError extends Error {
+  constructor() { super('Cancelled'); this.name = 'CancelledError' }
+}
+
+// Runs one provider attempt under its timeout, shortened to what is left of the chain deadline. `touch`
+// restarts the clock at the provider's own timeout, so streams time out on idle, not length.
+async function attempt<T>(p: Provider, run: (signal: AbortSignal, touch: () => void) => Promise<T>, deadline: number, outer?: AbortSignal): Promise<T> {
+  const ctl = new AbortController()
+  let timedOut = false
+  let limit = Math.min(p.timeoutMs, Math.max(0, deadline - Date.now()))
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const arm = () => { clearTimeout(timer); timer = setTimeout(() => { timedOut = true; ctl.abort() }, limit) }
+  const touch = () => { limit = p.timeoutMs; arm() }
+  const onOuter = () => ctl.abort()
+  outer?.addEventListener('abort', onOuter)
+  arm()
+  try {
+    return await run(ctl.signal, touch)
+  } catch (e) {
+    if (outer?.aborted) throw new CancelledError()
+    if (timedOut) throw new ProviderError(p.name, 'timeout', `no response within ${limit}ms`)
+    if (e instanceof ProviderError) throw e
+    throw new ProviderError(p.name, 'network', e instanceof Error ? e.message : 'request failed')
+  } finally {
+    clearTimeout(timer)
+    outer?.removeEventListener('abort', onOuter)
+  }
+}
+
+// Every attempt, retry and backoff shares the deadline, so the chain gives up (and the route
+// refunds) before the platform's maxDuration kills the function
+const pastDeadline = (p: Provider, deadline: number, deadlineMs: number) =>
+  Date.now() >= deadline ? new ProviderError(p.name, 'timeout', `chain deadline of ${deadlineMs}ms reached`) : undefined
+
+// One AI_DEADLINE_MS budget for a whole request, so a route that calls complete() twice still answers (and refunds)
+// before maxDuration
+export const requestDeadline = () => Date.now() + getGenerationDefaults().deadlineMs
+
+// A second pass (a repair or replacement) is only started with at least this much of the request deadline left
+export const MIN_FOLLOW_UP_MS = 15000
+export const timeForFollowUp = (deadline: number) => deadline - Date.now() >= MIN_FOLLOW_UP_MS
+
+function buildRequest(messages: ChatMessage[], system: string, opts: CompleteOptions) {
+  const d = getGenerationDefaults()
+  return { messages: [{ role: 'system' as const, content: system }, ...messages], maxTokens: opts.maxTokens ?? d.maxTokens, temperature: opts.temperature ?? d.temperature, task: opts.task }
+}
+
+export async function complete(messages: ChatMessage[], system: string, opts: CompleteOptions = {}): Promise<string> {
+  const req = buildRequest(messages, system, opts)
+  const { backoffMs, deadlineMs } = getGenerationDefaults()
+  const deadline = opts.deadline ?? Date.now() + deadlineMs
+  const failures: ProviderError[] = []
+  for (const p of getProviderChain()) {
+    for (let i = 0; i <= p.retries; i++) {
+      const late = pastDeadline(p, deadline, deadlineMs)
+      if (late) throw new AIUnavailableError([...failures, late])
+      try {
+        return await attempt(p, signal => p.complete(req, signal), deadline)
+      } catch (e) {
+        const err = e as ProviderError
+        failures.push(err)
+        if (!err.retryable || i === p.retries) break
+        await sleep(Math.min(backoffMs * 2 ** i, deadline - Date.now()))
+      }
+    }
+  }
+  throw new AIUnavailableError(failures)
+}
+
+// Same chain as complete(), but once a provider has emitted text there is no falling back —
+// a mid-stream failure surfaces immediately so the caller keeps what already arrived. The chain deadline
+// only bounds the wait for the first token; after that the provider's idle timeout applies.
+export async function streamComplete(messages: ChatMessage[], system: string, onDelta: (t: string) => void, opts: CompleteOptions & { signal?: AbortSignal } = {}): Promise<string> {
+  const req = buildRequest(messages, system, opts)
+  const { backoffMs, deadlineMs } = getGenerationDefaults()
+  const deadline = opts.deadline ?? Date.now() + deadlineMs
+  const failures: ProviderError[] = []
+  let emitted = false
+  for (const p of getProviderChain()) {
+    for (let i = 0; i <= p.retries; i++) {
+      const late = pastDeadline(p, deadline, deadlineMs)
+      if (late) throw new AIUnavailableError([...failures, late])
+      try {
+        return await attempt(p, (signal, touch) => p.stream(req, signal, t => { emitted = true; touch(); onDelta(t) }), deadline, opts.signal)
+      } catch (e) {
+        if (e instanceof CancelledError) throw e
+        const err = e as ProviderError
+        failures.push(err)
+        if (emitted) throw new AIUnavailableError(failures)
+        if (!err.retryable || i === p.retries) break
+        await sleep(Math.min(backoffMs * 2 ** i, deadline - Date.now()))
+      }
+    }
+  }
+  throw new AIUnavailableError(failures)
+}
@@ -0,0 +1,272 @@
+// lib/analytics.ts — javari-books
+// Deterministic manuscript diagnostics — length against target, readability, sentence rhythm, dialogue share,
+// adverb and filler density, repeated phrases, POV drift. No AI; runs on any text (client-safe)
+import { currentVersion, type Project } from './projects'
+
+export type Readability = { fleschReadingEase: number; fleschKincaidGrade: number; gunningFog: number; smog: number; colemanLiau: number; automatedReadabilityIndex: number }
+export type Density = { count: number; per1000: number; top: Array<{ word: string; count: number }> }
+export type PovReport = {
+  expected?: string
+  detected: 'First Person' | 'Second Person' | 'Third Person'
+  // pronouns per 1,000 narration words (dialogue excluded)
+  narration: { first: number; second: number; third: number }
+  issues: string[]
+}
+export type TextAnalysis = {
+  words: number
+  sentences: number
+  paragraphs: number
+  sentenceLength: { mean: number; stdDev: number; variation: number; shortest: number; longest: number }
+  readability: Readability
+  dialogueRatio: number  // share of words inside quotation marks
+  adverbs: Density
+  fillers: Density
+  pov: PovReport
+}
+export type RepeatedPhrase = { phrase: string; count: number; chapters: number[] }
+export type AnalyzeChapter = { number: number; title?: string; text: string; targetWords?: number }
+export type ChapterAnalysis = TextAnalysis & { number: number; title?: string; targetWords?: number; targetDelta?: number; flags: string[] }
+export type BookAnalysis = {
+  chapters: ChapterAnalysis[]
+  totals: { words: number; targetWords?: number; sentences: number; dialogueRatio: number; readability: Readability; adverbsPer1000: number; fillersPer1000: number }
+  repeated: RepeatedPhrase[]
+  flags: string[]
+}
+
+// Where a chapter gets flagged
+export const THRESHOLDS = {
+  targetTolerance: 0.2,  // ±20% of the chapter's target
+  maxGrade: 12,  // Flesch-Kincaid grade
+  minVariation: 0.35,  // sentence-length stdDev / mean, over at least 20 sentences
+  maxAdverbsPer1000: 20,
+  maxFillersPer1000: 15,
+  povPronounsPer1000: 8,  // off-POV pronouns in narration before it's called drift
+}
+
+const round = (n: number, d = 1) => (isFinite(n) ? Math.round(n * 10 ** d) / 10 ** d : 0)
+const WORD = /[A-Za-z0-9]+(?:['’][A-Za-z]+)*/g
+
+export function words(text: string): string[] { return text.match(WORD) ?? [] }
+
+const ABBREVIATIONS = /\b(Mr|Mrs|Ms|Dr|St|Jr|Sr|Prof|Mt|vs)\./g
+
+// Paragraph breaks end sentences too, so headings and dialogue lines without end punctuation still count.
+// A piece starting in lower case continues the last one — "Stop!" she said. is one sentence.
+export function sentences(text: string): string[] {
+  return text.split(/\n\s*\n/).flatMap(p => {
+    const pieces = p.replace(/\s+/g, ' ').replace(ABBREVIATIONS, '$1').match(/[^.!?…]+(?:[.!?…]+["'”’)\]]*|$)/g) ?? []
+    return pieces.reduce<string[]>((out, piece) => {
+      const s = piece.trim()
+      if (out.length && /^[a-z]/.test(s)) out[out.length - 1] += ' ' + s
+      else out.push(s)
+      return out
+    }, [])
+  }).filter(s => words(s).length)
+}
+
+export function syllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '')
+  if (!w) return 0
+  if (w.length <= 3) return 1
+  const groups = w.replace(/(?:[^laeiouy]es|[^laeiouydt]ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]+/g)
+  return Math.max(1, groups?.length ?? 1)
+}
+
+function readability(ws: string[], sentenceCount: number): Readability {
+  const n = Math.max(ws.length, 1), s = Math.max(sentenceCount, 1)
+  const syl = ws.reduce((t, w) => t + syllables(w), 0)
+  const poly = ws.filter(w => syllables(w) >= 3).length
+  const letters = ws.reduce((t, w) => t + w.replace(/[^A-Za-z0-9]/g, '').length, 0)
+  return {
+    fleschReadingEase: round(206.835 - 1.015 * (n / s) - 84.6 * (syl / n)),
+    fleschKincaidGrade: round(0.39 * (n / s) + 11.8 * (syl / n) - 15.59),
+    gunningFog: round(0.4 * (n / s + 100 * (poly / n))),
+    smog: round(1.043 * Math.sqrt(poly * (30 / s)) + 3.1291),
+    colemanLiau: round(0.0588 * (letters / n) * 100 - 0.296 * (s / n) * 100 - 15.8),
+    automatedReadabilityIndex: round(4.71 * (letters / n) + 0.5 * (n / s) - 21.43),
+  }
+}
+
+// Double quotes, straight or curly; single quotes are too easily apostrophes
+const DIALOGUE = /["“][^"“”]*["”]/g
+const narrationOf = (text: string) => text.replace(DIALOGUE, ' ')
+
+// -ly words that aren't adverbs, or are too plain to count against the prose (fillers are counted on their own)
+const NOT_ADVERBS = new Set('only family early reply holy ugly belly fly july italy supply apply rely ally bully jelly lily silly curly friendly lovely lonely likely daily weekly monthly yearly elderly costly deadly fly butterfly assembly anomaly homily melancholy rally sly wily oily hilly chilly frilly jolly folly dolly tally sully gully emily molly polly kelly sally billy willy reilly ely lowly comely ghastly ugly burly surly portly stately orderly'.split(' '))
+export const FILLERS = ['just', 'really', 'very', 'quite', 'actually', 'basically', 'literally', 'simply', 'somewhat', 'rather', 'totally', 'suddenly', 'certainly', 'definitely', 'probably', 'practically', 'virtually', 'slightly', 'kind of', 'sort of', 'began to', 'started to', 'seemed to', 'in order to']
+
+function density(matches: string[], total: number): Density {
+  const counts = new Map<string, number>()
+  for (const m of matches) counts.set(m, (counts.get(m) ?? 0) + 1)
+  const top = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).slice(0, 8).map(([word, count]) => ({ word, count }))
+  return { count: matches.length, per1000: round((matches.length / Math.max(total, 1)) * 1000), top }
+}
+
+const FIRST = /^(i|me|my|mine|myself|we|us|our|ours|ourselves)$/
+const SECOND = /^(you|your|yours|yourself|yourselves)$/
+const THIRD = /^(he|him|his|himself|she|her|hers|herself|they|them|their|theirs|themselves)$/
+const INTERIOR = /\b([A-Z][a-z]+) (thought|felt|wondered|knew|realized|realised|wanted|feared|hoped|remembered|decided|worried)\b/g
+const NOT_NAMES = new Set(['The', 'A', 'An', 'It', 'This', 'That', 'There', 'Then', 'When', 'Everyone', 'Nobody', 'Somebody', 'Someone', 'No', 'One'])
+
+// Narration pronouns decide the detected POV; limited third also gets a head-hopping check — interior
+// verbs (thought, felt, wondered…) attached to more than one named character within a scene
+function povReport(text: string, expected?: string): PovReport {
+  const narration = narrationOf(text)
+  const ws = words(narration).map(w => w.toLowerCase())
+  const per = (re: RegExp) => round((ws.filter(w => re.test(w)).length / Math.max(ws.length, 1)) * 1000)
+  const rates = { first: per(FIRST), second: per(SECOND), third: per(THIRD) }
+  const detected: PovReport['detected'] = rates.first >= THRESHOLDS.povPronounsPer1000 && rates.first >= rates.third / 2 ? 'First Person'
+    : rates.second >= THRESHOLDS.povPronounsPer1000 && rates.second >= rates.third / 2 ? 'Second Person' : 'Third Person'
+  const issues: string[] = []
+  const off = (rate: number, what: string) => rate >= THRESHOLDS.povPronounsPer1000 && issues.push(`${what} pronouns in narration (${rate} per 1,000 words)`)
+  if (expected?.startsWith('Third Person')) { off(rates.first, 'First-person'); off(rates.second, 'Second-person') }
+  if (expected === 'First Person' && detected !== 'First Person') issues.push(`Narration reads as ${detected.toLowerCase()}, not first person`)
+  if (expected === 'Second Person' && detected !== 'Second Person') issues.push(`Narration reads as ${detected.toLowerCase()}, not second person`)
+  if (expected === 'Third Person Limited') {
+    narration.split(/\n\s*(?:\*\s*\*\s*\*|#|-{3,})\s*\n/).forEach((scene, i) => {
+      const heads = new Set<string>()
+      for (const m of Array.from(scene.matchAll(INTERIOR))) if (!NOT_NAMES.has(m[1])) heads.add(m[1])
+      if (heads.size > 1) issues.push(`Possible head-hopping in scene ${i + 1}: inside ${Array.from(heads).slice(0, 3).join(' and ')}`)
+    })
+  }
+  return { ...(expected ? { expected } : {}), detected, narration: rates, issues }
+}
+
+export function analyzeText(text: string, opts: { pov?: string } = {}): TextAnalysis {
+  const ws = words(text)
+  const ss = sentences(text)
+  const lengths = ss.map(s => words(s).length)
+  const mean = lengths.length ? lengths.reduce((a, b) => a + b, 0) / lengths.length : 0
+  const stdDev = lengths.length ? Math.sqrt(lengths.reduce((t, l) => t + (l - mean) ** 2, 0) / lengths.length) : 0
+  const lower = ws.map(w => w.toLowerCase())
+  const dialogueWords = (text.match(DIALOGUE) ?? []).reduce((t, q) => t + words(q).length, 0)
+  const flat = ' ' + lower.join(' ') + ' '
+  const fillerHits = FILLERS.flatMap(f => Array(flat.split(` ${f} `).length - 1).fill(f) as string[])
+  return {
+    words: ws.length,
+    sentences: ss.length,
+    paragraphs: text.split(/\n\s*\n/).filter(p => p.trim()).length,
+    sentenceLength: { mean: round(mean), stdDev: round(stdDev), variation: round(mean ? stdDev / mean : 0, 2), shortest: lengths.length ? Math.min(...lengths) : 0, longest: lengths.length ? Math.max(...lengths) : 0 },
+    readability: readability(ws, ss.length),
+    dialogueRatio: round(ws.length ? dialogueWords / ws.length : 0, 2),
+    adverbs: density(lower.filter(w => w.length > 4 && w.endsWith('ly') && !NOT_ADVERBS.has(w) && !FILLERS.includes(w)), ws.length),
+    fillers: density(fillerHits, ws.length),
+    pov: povReport(text, opts.pov),
+  }
+}
+
+// What an author would want to revise, phrased so it can go straight to the Chapter Writer as an instruction
+function chapterFlags(a: TextAnalysis, targetWords?: number): string[] {
+  const flags: string[] = []
+  if (targetWords) {
+    const off = (a.words - targetWords) / targetWords
+    if (Math.abs(off) > THRESHOLDS.targetTolerance) flags.push(`${Math.abs(Math.round(off * 100))}% ${off < 0 ? 'under' : 'over'} the ${targetWords.toLocaleString()}-word target`)
+  }
+  if (a.readability.fleschKincaidGrade > THRESHOLDS.maxGrade) flags.push(`Dense prose — grade ${a.readability.fleschKincaidGrade} reading level`)
+  if (a.sentences >= 20 && a.sentenceLength.variation < THRESHOLDS.minVariation) flags.push(`Monotonous rhythm — most sentences run about ${Math.round(a.sentenceLength.mean)} words`)
+  if (a.adverbs.per1000 > THRESHOLDS.maxAdverbsPer1000) flags.push(`Heavy on adverbs (${a.adverbs.per1000} per 1,000 words: ${a.adverbs.top.slice(0, 3).map(t => t.word).join(', ')})`)
+  if (a.fillers.per1000 > THRESHOLDS.maxFillersPer1000) flags.push(`Filler words (${a.fillers.per1000} per 1,000 words: ${a.fillers.top.slice(0, 3).map(t => t.word).join(', ')})`)
+  return flags.concat(a.pov.issues)
+}
+
+export function analyzeChapter(c: AnalyzeChapter, opts: { pov?: string } = {}): ChapterAnalysis {
+  const a = analyzeText(c.text, opts)
+  return {
+    ...a, number: c.number, ...(c.title ? { title: c.title } : {}),
+    ...(c.targetWords ? { targetWords: c.targetWords, targetDelta: a.words - c.targetWords } : {}),
+    flags: chapterFlags(a, c.targetWords),
+  }
+}
+
+const STOP = new Set('a an the and or but of to in on at by for with from as is was were be been it its he she they i you we his her their my your our that this there then than so not no had has have did do said says'.split(' '))
+
+// Three- to five-word phrases that recur, sub-phrases of a longer repeat with the same count folded into it.
+// Phrases never cross a sentence end, and ones made only of stop words don't count.
+export function repeatedPhrases(chapters: Array<{ number: number; text: string }>, minCount = 3, limit = 25): RepeatedPhrase[] {
+  // One chapter is counted at a time, so a chapter is new to a phrase exactly when it isn't the last one listed
+  const found = new Map<string, { count: number; chapters: number[] }>()
+  for (const c of chapters) {
+    for (const s of sentences(c.text)) {
+      const ws = words(s).map(w => w.toLowerCase().replace(/’/g, "'"))
+      // Each start position extends one key to three, four and five words
+      for (let i = 0; i + 3 <= ws.length; i++) {
+        let key = `${ws[i]} ${ws[i + 1]}`
+        let content = !STOP.has(ws[i]) || !STOP.has(ws[i + 1])
+        for (let j = i + 2; j < i + 5 && j < ws.length; j++) {
+          key += ` ${ws[j]}`
+          content ||= !STOP.has(ws[j])
+          if (!content) continue
+          const e = found.get(key)
+          if (!e) found.set(key, { count: 1, chapters: [c.number] })
+          else { e.count++; if (e.chapters[e.chapters.length - 1] !== c.number) e.chapters.push(c.number) }
+        }
+      }
+    }
+  }
+  const hits = Array.from(found.entries()).filter(([, e]) => e.count >= minCount)
+  // Each repeat folds only the handful of shorter phrases inside it, so this stays linear in the number of repeats
+  const folded = new Set<string>()
+  for (const [q, f] of hits) {
+    const ws = q.split(' ')
+    for (let n = 3; n < ws.length; n++) {
+      for (let i = 0; i + n <= ws.length; i++) {
+        const p = ws.slice(i, i + n).join(' ')
+        if (found.get(p)?.count === f.count) folded.add(p)
+      }
+    }
+  }
+  return hits.filter(([p]) => !folded.has(p))
+    .sort((a, b) => b[1].count * b[0].split(' ').length - a[1].count * a[0].split(' ').length || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([phrase, e]) => ({ phrase, count: e.count, chapters: [...e.chapters].sort((x, y) => x - y) }))
+}
+
+// Totals are recomputed over the whole text, not averaged, so long chapters weigh what they should
+export function analyzeBook(chapters: AnalyzeChapter[], opts: { pov?: string } = {}): BookAnalysis {
+  const analyses = chapters.map(c => analyzeChapter(c, opts))
+  const all = chapters.map(c => c.text).join('\n\n')
+  const whole = analyzeText(all)
+  const target = chapters.reduce((t, c) => t + (c.targetWords ?? 0), 0)
+  const repeated = repeatedPhrases(chapters)
+  const flags: string[] = []
+  const words = analyses.map(a => a.words).filter(Boolean)
+  if (words.length >= 3) {
+    const mean = words.reduce((a, b) => a + b, 0) / words.length
+    analyses.forEach(a => { if (a.words && (a.words > mean * 1.75 || a.words < mean * 0.4)) flags.push(`Chapter ${a.number} runs ${a.words.toLocaleString()} words against a ${Math.round(mean).toLocaleString()}-word average`) })
+  }
+  const drift = analyses.filter(a => a.pov.issues.length).map(a => a.number)
+  if (drift.length) flags.push(`POV issues in chapter${drift.length > 1 ? 's' : ''} ${drift.join(', ')}`)
+  const spread = repeated.filter(r => r.chapters.length >= 3).slice(0, 3)
+  if (spread.length) flags.push(`Phrases repeated across chapters: ${spread.map(r => `"${r.phrase}" ×${r.count}`).join(', ')}`)
+  return {
+    chapters: analyses,
+    totals: {
+      words: whole.words, ...(target ? { targetWords: target } : {}), sentences: whole.sentences, dialogueRatio: whole.dialogueRatio,
+      readability: whole.readability, adverbsPer1000: whole.adverbs.per1000, fillersPer1000: whole.fillers.per1000,
+    },
+    repeated,
+    flags,
+  }
+}
+
+const HEADING = /^[ \t]*(?:#{1,3}[ \t]+)?chapter[ \t]+[\w-]+[^\n]*$/gim
+
+// Pasted manuscripts split on "Chapter …" lines (markdown headings too), dropping any title page before the first;
+// text with no headings is one chapter
+export function splitChapters(text: string): AnalyzeChapter[] {
+  const heads = Array.from(text.matchAll(HEADING))
+  if (!heads.length) return [{ number: 1, text }]
+  return heads.map((h, i) => {
+    const title = h[0].replace(/^[\s#]*chapter[ \t]+[\w-]+[\s:.—-]*/i, '').trim()
+    return { number: i + 1, ...(title ? { title } : {}), text: text.slice(h.index! + h[0].length, heads[i + 1]?.index ?? text.length).trim() }
+  }).filter(c => c.text)
+}
+
+// The saved manuscript: each chapter's current version, its outline target, the project's POV
+export function analyzeProject(p: Project): BookAnalysis {
+  const chapters = p.chapters.map(c => ({
+    number: c.number, title: c.title, text: currentVersion(c)?.text ?? '',
+    targetWords: p.outline?.chapters.find(o => o.number === c.number)?.targetWords,
+  }))
+  return analyzeBook(chapters, { pov: p.settings.pov })
+}
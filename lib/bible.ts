@@ -0,0 +1,123 @@
+// lib/bible.ts — javari-books
+// Story bible and continuity — characters, places, timeline, glossary, style rules; the context
+// injected into chapter prompts; and the post-chapter fact/contradiction report
+import type { Project } from './projects'
+
+export type BibleCharacter = { name: string; role: string; description: string }
+export type BibleLocation = { name: string; description: string }
+export type TimelineEvent = { chapter: number | null; event: string }
+export type GlossaryTerm = { term: string; definition: string }
+export type StoryBible = { characters: BibleCharacter[]; locations: BibleLocation[]; timeline: TimelineEvent[]; glossary: GlossaryTerm[]; styleRules: string[] }
+export type BibleFacts = Omit<StoryBible, 'styleRules'>
+export type Contradiction = { claim: string; conflictsWith: string; severity: 'low' | 'medium' | 'high' }
+export type ContinuityReport = { summary: string; facts: BibleFacts; contradictions: Contradiction[] }
+
+export const EMPTY_BIBLE: StoryBible = { characters: [], locations: [], timeline: [], glossary: [], styleRules: [] }
+export const MAX_BIBLE_ENTRIES = 200
+export const CONTEXT_TOKEN_BUDGET = 3000
+
+const str = (v: unknown, max = 2000) => (typeof v === 'string' ? v.trim().slice(0, max) : '')
+const list = (v: unknown) => (Array.isArray(v) ? v.slice(0, MAX_BIBLE_ENTRIES) : []) as Array<Record<string, unknown>>
+
+// Lenient: drops entries without a name/term/event rather than rejecting the whole bible
+export function normalizeFacts(raw: unknown): BibleFacts {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  return {
+    characters: list(r.characters).map(c => ({ name: str(c?.name, 120), role: str(c?.role, 120), description: str(c?.description) })).filter(c => c.name),
+    locations: list(r.locations).map(l => ({ name: str(l?.name, 120), description: str(l?.description) })).filter(l => l.name),
+    timeline: list(r.timeline).map(t => ({ chapter: Number.isInteger(Number(t?.chapter)) && t?.chapter !== null && t?.chapter !== '' ? Number(t.chapter) : null, event: str(t?.event, 500) })).filter(t => t.event),
+    glossary: list(r.glossary).map(g => ({ term: str(g?.term, 120), definition: str(g?.definition) })).filter(g => g.term),
+  }
+}
+
+export function normalizeBible(raw: unknown): StoryBible {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const rules = Array.isArray(r.styleRules) ? r.styleRules.map(s => str(s, 500)).filter(Boolean).slice(0, MAX_BIBLE_ENTRIES) : []
+  return { ...normalizeFacts(raw), styleRules: rules }
+}
+
+export const bibleOf = (p: Pick<Project, 'bible'>): StoryBible => p.bible ?? EMPTY_BIBLE
+
+// Accepted facts join the bible; names and terms already present (case-insensitive) are skipped
+export function mergeFacts(bible: StoryBible, facts: BibleFacts): StoryBible {
+  const fresh = <T>(have: T[], add: T[], key: (x: T) => string) => {
+    const seen = new Set(have.map(x => key(x).toLowerCase()))
+    return [...have, ...add.filter(x => { const k = key(x).toLowerCase(); if (seen.has(k)) return false; seen.add(k); return true })]
+  }
+  return {
+    characters: fresh(bible.characters, facts.characters, c => c.name),
+    locations: fresh(bible.locations, facts.locations, l => l.name),
+    timeline: fresh(bible.timeline, facts.timeline, t => t.event),
+    glossary: fresh(bible.glossary, facts.glossary, g => g.term),
+    styleRules: bible.styleRules,
+  }
+}
+
+export function bibleToText(b: StoryBible): string {
+  const parts: string[] = []
+  if (b.styleRules.length) parts.push('Style rules:\n' + b.styleRules.map(r => `- ${r}`).join('\n'))
+  if (b.characters.length) parts.push('Characters:\n' + b.characters.map(c => `- ${c.name}${c.role ? ` (${c.role})` : ''}: ${c.description}`).join('\n'))
+  if (b.locations.length) parts.push('Locations:\n' + b.locations.map(l => `- ${l.name}: ${l.description}`).join('\n'))
+  if (b.glossary.length) parts.push('Glossary:\n' + b.glossary.map(g => `- ${g.term}: ${g.definition}`).join('\n'))
+  if (b.timeline.length) parts.push('Timeline:\n' + b.timeline.map(t => `- ${t.chapter ? `Ch ${t.chapter}: ` : ''}${t.event}`).join('\n'))
+  return parts.join('\n\n')
+}
+
+// Rough but provider-agnostic: ~4 characters per token for English prose
+export const estimateTokens = (s: string) => Math.ceil(s.length / 4)
+
+const lastWords = (text: string, n: number) => text.split(/\s+/).filter(Boolean).slice(-n).join(' ')
+
+// The bible comes first; then summaries of earlier chapters, newest first, until the budget is spent.
+// A chapter saved without a summary falls back to its closing lines.
+export function continuityContext(p: Project, chapterNumber: number, budget = CONTEXT_TOKEN_BUDGET): string {
+  let bible = bibleToText(bibleOf(p))
+  if (estimateTokens(bible) > budget) bible = bible.slice(0, budget * 4) + '\n…'
+  let left = budget - estimateTokens(bible)
+  const earlier = p.chapters.filter(c => c.number < chapterNumber).sort((a, b) => b.number - a.number)
+  const recaps: string[] = []
+  for (const c of earlier) {
+    const text = c.versions.find(v => v.id === c.currentVersionId)?.text ?? ''
+    const recap = `Chapter ${c.number} — ${c.title}: ${c.summary || `…${lastWords(text, 120)}`}`
+    if (estimateTokens(recap) > left) break
+    recaps.unshift(recap); left -= estimateTokens(recap)
+  }
+  return [bible && `STORY BIBLE\n${bible}`, recaps.length && `PREVIOUSLY\n${recaps.join('\n')}`].filter(Boolean).join('\n\n')
+}
+
+export const REPORT_SHAPE = `{
+  "summary": "3-5 sentence summary of this chapter",
+  "facts": {
+    "characters": [{ "name": string, "role": string, "description": string }],
+    "locations": [{ "name": string, "description": string }],
+    "timeline": [{ "chapter": number, "event": string }],
+    "glossary": [{ "term": string, "definition": string }]
+  },
+  "contradictions": [{ "claim": string, "conflictsWith": string, "severity": "low" | "medium" | "high" }]
+}`
+
+export function continuityPrompt(b: StoryBible, chapterNumber: number, text: string): string {
+  return `Act as a continuity editor. Read Chapter ${chapterNumber} and compare it with the story bible.
+
+STORY BIBLE
+${bibleToText(b) || '(empty)'}
+
+CHAPTER ${chapterNumber}
+${text.slice(0, 60000)}
+
+List only facts that are new — characters, locations, events and terms not already in the bible.
+Flag every statement in the chapter that contradicts the bible (names, ages, relationships, places, dates, rules of the world).
+Respond with JSON only, matching exactly this shape:
+${REPORT_SHAPE}`
+}
+
+export function validateReport(raw: unknown): ContinuityReport | undefined {
+  if (!raw || typeof raw !== 'object') return undefined
+  const r = raw as { summary?: unknown; facts?: unknown; contradictions?: unknown }
+  const summary = str(r.summary)
+  if (!summary) return undefined
+  const contradictions = list(r.contradictions)
+    .map(c => ({ claim: str(c?.claim, 500), conflictsWith: str(c?.conflictsWith, 500), severity: (['low', 'medium', 'high'].includes(c?.severity as string) ? c.severity : 'medium') as Contradiction['severity'] }))
+    .filter(c => c.claim)
+  return { summary, facts: normalizeFacts(r.facts), contradictions }
+}
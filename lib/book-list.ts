@@ -0,0 +1,143 @@
+// lib/book-list.ts — javari-books
+// Structured book lists for the discovery tools — schema, prompt, parsing, and per-entry checks against a catalog
+import { CatalogError, authorKey, sameAuthor, sameTitle, titleKey, type Catalog, type CatalogRecord } from './catalog'
+import { toIsbn13 } from './isbn'
+
+export type BookEntry = { title: string; author: string; year?: number; isbn?: string; description: string; why: string }
+export type BookList = { summary: string; books: BookEntry[] }
+// verified: the catalog has it; unverified: couldn't check (no catalog, lookup failed); rejected: checked and wrong
+export type BookStatus = 'verified' | 'unverified' | 'rejected'
+export type CheckedBook = BookEntry & { status: BookStatus; reasons: string[] }
+
+export const BOOK_LIST_SHAPE = `{
+  "summary": string,
+  "books": [
+    { "title": string, "author": string, "year": number | null, "isbn": string | null, "description": string, "why": string }
+  ]
+}`
+
+// ask is the tool's request; why says what the per-book "why" field should hold
+export function bookListPrompt(ask: string, count: number, why: string): string {
+  return `${ask}
+
+List exactly ${count} books. Include only books you are certain exist, with the author's name as printed on the cover.
+Give an ISBN-13 only if you know it exactly, otherwise null — never guess one. "year" is the first publication year.
+"summary" holds everything else the answer calls for, as plain prose. "why": ${why}.
+
+Respond with JSON only — no commentary, no code fences — matching exactly this shape:
+${BOOK_LIST_SHAPE}`
+}
+
+export function replacementPrompt(rejected: CheckedBook[], kept: BookEntry[]): string {
+  return `These entries failed verification and were removed:
+${rejected.map(b => `- "${b.title}" by ${b.author} — ${b.reasons.join('; ')}`).join('\n')}
+
+List exactly ${rejected.length} different books to replace them, serving the same purpose. Do not repeat any of:
+${kept.map(b => `- "${b.title}" by ${b.author}`).join('\n') || '- (none)'}
+
+Respond with JSON only, matching the same shape (summary may be empty):
+${BOOK_LIST_SHAPE}`
+}
+
+const str = (v: unknown) => (typeof v === 'string' ? v.trim() : '')
+
+// Entries without a title or author are dropped; the list fails only when nothing usable is left
+export function parseBookList(raw: unknown): { list?: BookList; errors: string[] } {
+  if (!raw || typeof raw !== 'object') return { errors: ['response is not a JSON object'] }
+  const r = raw as { summary?: unknown; books?: unknown }
+  if (!Array.isArray(r.books)) return { errors: ['"books" must be an array'] }
+  const errors: string[] = []
+  const books: BookEntry[] = []
+  r.books.forEach((b: Record<string, unknown>, i: number) => {
+    if (!b || typeof b !== 'object') { errors.push(`books[${i}] must be an object`); return }
+    const title = str(b.title), author = str(b.author)
+    if (!title || !author) { errors.push(`books[${i}] needs a title and an author`); return }
+    const year = Math.round(Number(b.year))
+    const isbn = typeof b.isbn === 'number' ? String(b.isbn) : str(b.isbn)
+    books.push({ title, author, ...(year > 0 && year <= 9999 ? { year } : {}), ...(isbn ? { isbn } : {}), description: str(b.description), why: str(b.why) })
+  })
+  if (!books.length) return { errors: errors.length ? errors : ['"books" is empty'] }
+  return { list: { summary: str(r.summary), books }, errors }
+}
+
+const describe = (r: CatalogRecord) => `"${r.title}" by ${r.authors.join(', ') || 'an unknown author'}`
+
+// The catalog wins on ISBN and year; anything it changed is listed in reasons. byIsbn: r was found by the entry's own ISBN
+function confirmed(b: BookEntry, r: CatalogRecord, isbn: string | undefined, catalog: string, byIsbn = false): CheckedBook {
+  const reasons = [`found in ${catalog}`]
+  if (isbn && !byIsbn && !r.isbns.includes(isbn)) { reasons.push(`ISBN ${isbn} is not in the catalog`); isbn = undefined }
+  isbn ??= r.isbns[0]
+  let year = b.year
+  if (r.year && year !== r.year) { if (year) reasons.push(`year corrected from ${year}`); year = r.year }
+  return { ...b, ...(isbn ? { isbn } : {}), ...(year ? { year } : {}), status: 'verified', reasons }
+}
+
+export async function checkBook(b: BookEntry, catalog?: Catalog): Promise<CheckedBook> {
+  let isbn: string | undefined
+  if (b.isbn) {
+    isbn = toIsbn13(b.isbn)
+    if (!isbn) return { ...b, status: 'rejected', reasons: [`ISBN ${b.isbn} fails its checksum`] }
+  }
+  const unverified = (reason: string): CheckedBook => ({ ...b, ...(isbn ? { isbn } : {}), status: 'unverified', reasons: [reason] })
+  if (!catalog) return unverified('no catalog configured')
+  try {
+    // An ISBN that belongs to another book by the same author is dropped, and the title search decides
+    let misfiled: CatalogRecord | undefined
+    if (isbn) {
+      const r = await catalog.findByIsbn(isbn)
+      if (r && !sameAuthor(b.author, r.authors)) return { ...b, status: 'rejected', reasons: [`ISBN ${isbn} is ${describe(r)}`] }
+      if (r && sameTitle(b.title, r.title)) return confirmed(b, r, isbn, catalog.name, true)
+      if (r) misfiled = r
+    }
+    const found = await catalog.search(b.title, b.author)
+    const match = found.find(r => sameTitle(b.title, r.title) && sameAuthor(b.author, r.authors))
+    if (match && misfiled) {
+      const c = confirmed({ ...b, isbn: undefined }, match, undefined, catalog.name)
+      return { ...c, reasons: [...c.reasons, `ISBN ${isbn} is ${describe(misfiled)}, replaced`] }
+    }
+    if (match) return confirmed(b, match, isbn, catalog.name)
+    if (misfiled) return { ...b, status: 'rejected', reasons: [`ISBN ${isbn} is ${describe(misfiled)}`] }
+    const other = found.find(r => sameTitle(b.title, r.title))
+    return { ...b, status: 'rejected', reasons: [other ? `${describe(other)}, not ${b.author}` : `not found in ${catalog.name}`] }
+  } catch (e) {
+    if (e instanceof CatalogError) return unverified(`catalog lookup failed — ${e.message}`)
+    throw e
+  }
+}
+
+const CHECK_CONCURRENCY = 5
+
+// Checks a few entries at a time; a repeat of an earlier entry (or of one in `taken`) is rejected
+export async function checkBooks(books: BookEntry[], catalog?: Catalog, taken: BookEntry[] = []): Promise<CheckedBook[]> {
+  const checked: CheckedBook[] = []
+  for (let i = 0; i < books.length; i += CHECK_CONCURRENCY) {
+    checked.push(...await Promise.all(books.slice(i, i + CHECK_CONCURRENCY).map(b => checkBook(b, catalog))))
+  }
+  const seen = new Set<string>()
+  const keys = (b: BookEntry) => [`${titleKey(b.title)}|${authorKey(b.author)}`, ...(b.isbn ? [b.isbn] : [])]
+  for (const b of taken) keys(b).forEach(k => seen.add(k))
+  return checked.map(b => {
+    if (b.status === 'rejected') return b
+    const ks = keys(b)
+    if (ks.some(k => seen.has(k))) return { ...b, status: 'rejected', reasons: ['repeats an earlier entry'] }
+    ks.forEach(k => seen.add(k))
+    return b
+  })
+}
+
+export function tallyBooks(books: CheckedBook[]): Record<BookStatus, number> {
+  const t = { verified: 0, unverified: 0, rejected: 0 }
+  for (const b of books) t[b.status]++
+  return t
+}
+
+// Readable result for clients that only show text — rejected entries are left out, unverified ones flagged
+export function bookListToText(summary: string, books: CheckedBook[]): string {
+  const entries = books.filter(b => b.status !== 'rejected').map((b, i) => [
+    `${i + 1}. ${b.title} — ${b.author}${b.year ? ` (${b.year})` : ''}${b.status === 'unverified' ? ' [unverified]' : ''}`,
+    b.isbn && `   ISBN ${b.isbn}`,
+    b.description && `   ${b.description}`,
+    b.why && `   ${b.why}`,
+  ].filter(Boolean).join('\n'))
+  return [summary, ...entries].filter(Boolean).join('\n\n')
+}
@@ -0,0 +1,5 @@
+// lib/book-options.ts — javari-books
+// Genre, POV and tone choices shared by the writer UI and project settings
+export const GENRES = ['Fiction', 'Mystery/Thriller', 'Romance', 'Fantasy', 'Sci-Fi', 'Non-Fiction', 'Memoir', 'Business', 'Self-Help']
+export const POVS = ['First Person', 'Third Person Limited', 'Third Person Omniscient', 'Second Person']
+export const TONES = ['Literary', 'Commercial/Thriller', 'Cozy/Warm', 'Dark/Gritty', 'Humorous', 'Inspirational']
@@ -0,0 +1,120 @@
+// lib/catalog.ts — javari-books
+// Bibliographic catalogs for checking that recommended books exist — an offline fixture and Open Library,
+// chosen with BOOK_CATALOG
+import { toIsbn13 } from './isbn'
+
+// isbns are canonical ISBN-13s; year is the first publication year when the catalog knows it
+export type CatalogRecord = { title: string; authors: string[]; year?: number; isbns: string[] }
+export type Catalog = {
+  name: string
+  findByIsbn(isbn13: string): Promise<CatalogRecord | undefined>
+  search(title: string, author: string): Promise<CatalogRecord[]>
+}
+
+// The catalog could not answer (network, timeout, bad status) — entries stay unverified rather than rejected
+export class CatalogError extends Error {
+  constructor(public catalog: string, message: string) {
+    super(`${catalog}: ${message}`)
+    this.name = 'CatalogError'
+  }
+}
+
+const fold = (s: string) => s.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+
+// Ignores case, accents, punctuation, a leading article and anything after a subtitle separator
+export function titleKey(t: string): string {
+  return fold(t).split(/:|\(|, or,? /)[0].replace(/&/g, ' and ').replace(/[^a-z0-9 ]+/g, ' ').replace(/^\s*(the|a|an) /, '').replace(/\s+/g, ' ').trim()
+}
+
+// Surname — last word that isn't a suffix or an initial
+export function authorKey(name: string): string {
+  const words = fold(name).replace(/[^a-z ]+/g, ' ').split(/\s+/).filter(w => w.length > 1 && !/^(jr|sr|ii|iii|phd)$/.test(w))
+  return words[words.length - 1] ?? ''
+}
+
+export const sameTitle = (a: string, b: string) => !!titleKey(a) && titleKey(a) === titleKey(b)
+export const sameAuthor = (name: string, authors: string[]) => !!authorKey(name) && authors.some(a => authorKey(a) === authorKey(name))
+
+export function createFixtureCatalog(records: CatalogRecord[], name = 'fixture'): Catalog {
+  return {
+    name,
+    async findByIsbn(isbn13) { return records.find(r => r.isbns.includes(isbn13)) },
+    async search(title) { return records.filter(r => sameTitle(title, r.title)) },
+  }
+}
+
+type OpenLibraryDoc = { title?: string; author_name?: string[]; first_publish_year?: number; isbn?: string[] }
+type OpenLibraryOptions = { baseUrl: string; timeoutMs: number; fetch?: typeof fetch }
+
+export function createOpenLibraryCatalog(o: OpenLibraryOptions): Catalog {
+  const name = 'openlibrary'
+  async function query(params: Record<string, string>): Promise<CatalogRecord[]> {
+    const qs = Object.keys(params).map(k => `${k}=${encodeURIComponent(params[k])}`).join('&')
+    const ctl = new AbortController()
+    const timer = setTimeout(() => ctl.abort(), o.timeoutMs)
+    let res: Response
+    try {
+      res = await (o.fetch ?? fetch)(`${o.baseUrl}/search.json?${qs}&fields=title,author_name,first_publish_year,isbn`, { signal: ctl.signal, headers: { Accept: 'application/json' } })
+    } catch (e) {
+      throw new CatalogError(name, ctl.signal.aborted ? `no response within ${o.timeoutMs}ms` : e instanceof Error ? e.message : 'request failed')
+    } finally {
+      clearTimeout(timer)
+    }
+    if (!res.ok) throw new CatalogError(name, `HTTP ${res.status}`)
+    const data = await res.json().catch(() => null) as { docs?: OpenLibraryDoc[] } | null
+    if (!data || !Array.isArray(data.docs)) throw new CatalogError(name, 'unexpected response')
+    return data.docs.filter(d => d.title).map(d => ({
+      title: d.title!, authors: d.author_name ?? [], year: d.first_publish_year,
+      isbns: (d.isbn ?? []).map(toIsbn13).filter((i): i is string => !!i).slice(0, 50),
+    }))
+  }
+  return {
+    name,
+    async findByIsbn(isbn13) { return (await query({ isbn: isbn13, limit: '1' }))[0] },
+    async search(title, author) { return query({ title, ...(author ? { author } : {}), limit: '5' }) },
+  }
+}
+
+// Real editions, used by BOOK_CATALOG=fixture and by the mock provider's book lists, so the whole
+// recommend-and-verify path runs offline
+export const FIXTURE_BOOKS: CatalogRecord[] = [
+  { title: 'Dune', authors: ['Frank Herbert'], year: 1965, isbns: ['9780441013593'] },
+  { title: '1984', authors: ['George Orwell'], year: 1949, isbns: ['9780451524935'] },
+  { title: 'The Name of the Wind', authors: ['Patrick Rothfuss'], year: 2007, isbns: ['9780756404741'] },
+  { title: 'The Left Hand of Darkness', authors: ['Ursula K. Le Guin'], year: 1969, isbns: ['9780441478125'] },
+  { title: 'The Dispossessed', authors: ['Ursula K. Le Guin'], year: 1974, isbns: ['9780061054884'] },
+  { title: 'A Wizard of Earthsea', authors: ['Ursula K. Le Guin'], year: 1968, isbns: ['9780547773742'] },
+  { title: 'The Hobbit', authors: ['J. R. R. Tolkien'], year: 1937, isbns: ['9780547928227'] },
+  { title: 'Pride and Prejudice', authors: ['Jane Austen'], year: 1813, isbns: ['9780141439518'] },
+  { title: 'Jane Eyre', authors: ['Charlotte Brontë'], year: 1847, isbns: ['9780141441146'] },
+  { title: 'Frankenstein', authors: ['Mary Shelley'], year: 1818, isbns: ['9780141439471'] },
+  { title: 'Rebecca', authors: ['Daphne du Maurier'], year: 1938, isbns: ['9780380730407'] },
+  { title: 'Beloved', authors: ['Toni Morrison'], year: 1987, isbns: ['9781400033416'] },
+  { title: 'The Road', authors: ['Cormac McCarthy'], year: 2006, isbns: ['9780307387899'] },
+  { title: 'Never Let Me Go', authors: ['Kazuo Ishiguro'], year: 2005, isbns: ['9781400078776'] },
+  { title: 'The Remains of the Day', authors: ['Kazuo Ishiguro'], year: 1989, isbns: ['9780679731726'] },
+  { title: 'Neuromancer', authors: ['William Gibson'], year: 1984, isbns: ['9780441569595'] },
+  { title: 'Foundation', authors: ['Isaac Asimov'], year: 1951, isbns: ['9780553293357'] },
+  { title: "The Handmaid's Tale", authors: ['Margaret Atwood'], year: 1985, isbns: ['9780385490818'] },
+  { title: 'Station Eleven', authors: ['Emily St. John Mandel'], year: 2014, isbns: ['9780804172448'] },
+  { title: 'Project Hail Mary', authors: ['Andy Weir'], year: 2021, isbns: ['9780593135204'] },
+  { title: 'The Midnight Library', authors: ['Matt Haig'], year: 2020, isbns: ['9780525559474'] },
+  { title: 'Educated', authors: ['Tara Westover'], year: 2018, isbns: ['9780399590504'] },
+  { title: 'Pachinko', authors: ['Min Jin Lee'], year: 2017, isbns: ['9781455563937'] },
+  { title: 'Sapiens: A Brief History of Humankind', authors: ['Yuval Noah Harari'], year: 2011, isbns: ['9780062316097'] },
+  { title: 'Thinking, Fast and Slow', authors: ['Daniel Kahneman'], year: 2011, isbns: ['9780374533557'] },
+]
+
+type Env = Record<string, string | undefined>
+const num = (v: string | undefined, d: number) => (v !== undefined && v !== '' && !isNaN(Number(v)) ? Number(v) : d)
+
+export const DEFAULT_CATALOG = 'openlibrary'
+
+// BOOK_CATALOG is openlibrary (default), fixture, or none — none leaves every entry unverified
+export function getCatalog(env: Env = process.env): Catalog | undefined {
+  const name = (env.BOOK_CATALOG || DEFAULT_CATALOG).trim().toLowerCase()
+  if (name === 'none') return undefined
+  if (name === 'fixture') return createFixtureCatalog(FIXTURE_BOOKS)
+  if (name === 'openlibrary') return createOpenLibraryCatalog({ baseUrl: (env.OPENLIBRARY_URL || 'https://openlibrary.org').replace(/\/+$/, ''), timeoutMs: num(env.BOOK_CATALOG_TIMEOUT_MS, 5000) })
+  throw new Error(`Unknown book catalog: ${name}`)
+}
@@ -0,0 +1,43 @@
+// lib/chapter.ts — javari-books
+// Chapter Writer prompt — settings, chapter brief and (when a project is open) continuity context
+import { GENRES, POVS, TONES } from './book-options'
+import type { Field, FieldValues } from './tool-data'
+
+export const CHAPTER_FIELDS: Field[] = [
+  { id: 'title', label: 'Book Title', placeholder: 'Optional', maxLength: 200 },
+  { id: 'premise', label: 'Premise', placeholder: 'Your story premise...', required: true, maxLength: 4000 },
+  { id: 'genre', label: 'Genre', placeholder: 'Fiction', options: GENRES },
+  { id: 'pov', label: 'POV', placeholder: 'Third Person Limited', options: POVS },
+  { id: 'tone', label: 'Tone', placeholder: 'Literary', options: TONES },
+  { id: 'chapterNumber', label: 'Chapter #', placeholder: '1', type: 'number', min: 1, max: 500, required: true },
+  { id: 'goal', label: 'Chapter Goal', placeholder: 'What must this chapter accomplish?', maxLength: 2000 },
+  { id: 'wordCount', label: 'Word Count', placeholder: '1500', type: 'number', min: 100, max: 8000 },
+]
+
+// A finished chapter handed to the Chapter Writer from the analytics page, to revise there; read once and removed
+export const CHAPTER_DRAFT_KEY = 'javari-books:chapter-draft'
+export type ChapterDraft = { number: number; text: string; pov?: string; targetWords?: number }
+
+export function chapterSystem(genre: string): string {
+  return `You are a bestselling ${genre} author and writing coach. Write compelling, professional-quality fiction and non-fiction. Your prose is specific, sensory, and emotionally resonant. Never generic.`
+}
+
+export function chapterPrompt(v: FieldValues, context = ''): string {
+  const brief = `Write Chapter ${v.chapterNumber} of a ${v.genre || 'Fiction'} book.
+Title: ${v.title || 'Untitled'}
+Premise: ${v.premise}
+Chapter Goal: ${v.goal || 'Advance the plot'}
+POV: ${v.pov || 'Third Person Limited'}
+Tone: ${v.tone || 'Literary'}
+Target Length: approximately ${v.wordCount || '1500'} words
+
+Write the complete chapter. Start in media res. Use strong sensory details.
+End on a hook that compels the reader to continue.`
+  if (!context) return brief
+  return `${brief}
+
+Stay consistent with everything below — names, relationships, places, established events and style rules.
+Do not contradict it; build on it.
+
+${context}`
+}
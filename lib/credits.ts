@@ -0,0 +1,95 @@
+// lib/credits.ts — javari-books
+// Credit ledger — per-identity balances, per-action costs, charges that can be refunded (server only)
+import { createMemoryStore, getStore, type Store } from './storage'
+
+export type CreditAccount = { id: string; balance: number; createdAt: string; updatedAt: string }
+export type Charge = { id: string; identity: string; amount: number; action: string; createdAt: string; refundedAt?: string }
+export type ChargeResult = { ok: true; charge: Charge; balance: number } | { ok: false; balance: number }
+
+export type CreditStore = {
+  balance(identity: string): Promise<number>
+  // Checks and deducts in one step; never takes a balance below zero
+  charge(identity: string, amount: number, action: string): Promise<ChargeResult>
+  // Returns the new balance, or undefined when the charge is unknown or already refunded
+  refund(chargeId: string): Promise<number | undefined>
+  grant(identity: string, amount: number): Promise<number>
+}
+
+export const DEFAULT_STARTING_BALANCE = 50
+
+const num = (v: string | undefined, d: number) => (v !== undefined && v !== '' && !isNaN(Number(v)) ? Number(v) : d)
+
+export const getStartingBalance = (env: Record<string, string | undefined> = process.env) => Math.max(0, Math.floor(num(env.CREDITS_STARTING_BALANCE, DEFAULT_STARTING_BALANCE)))
+
+// What each kind of request costs. Length-driven work scales with what was asked for, so a
+// 5,000-word chapter costs several times a title list.
+export type CostRequest =
+  | { kind: 'generate'; action: string; wordCap?: number; regenerate?: boolean }
+  | { kind: 'chapter'; words: number }
+  | { kind: 'revise'; words: number }
+  | { kind: 'chat'; maxTokens: number }
+  | { kind: 'outline' }
+  | { kind: 'continuity' }
+
+export const GENERATE_COST = 2
+export const ACTION_COSTS: Record<string, number> = { blurb: 3, query_letter: 3, title_ideas: 2 }
+export const OUTLINE_COST = 5
+// Book lists asked to replace rejected entries may need a second generation
+export const REGENERATE_COST = 1
+export const CONTINUITY_COST = 2
+
+export function creditCost(r: CostRequest): number {
+  switch (r.kind) {
+    case 'generate': return (r.wordCap ? Math.max(GENERATE_COST, Math.ceil(r.wordCap / 250)) : ACTION_COSTS[r.action] ?? GENERATE_COST) + (r.regenerate ? REGENERATE_COST : 0)
+    case 'chapter': return 1 + Math.ceil(Math.max(r.words, 1) / 500)
+    case 'revise': return 1 + Math.ceil(Math.max(r.words, 1) / 500)
+    case 'chat': return 1 + Math.ceil(Math.max(r.maxTokens, 1) / 1024)
+    case 'outline': return OUTLINE_COST
+    case 'continuity': return CONTINUITY_COST
+  }
+}
+
+// Every balance change goes through one queue, so concurrent requests can't both spend the same credit
+export function createCreditStore(accounts: Store<CreditAccount>, charges: Store<Charge>, startingBalance = DEFAULT_STARTING_BALANCE): CreditStore {
+  let queue: Promise<unknown> = Promise.resolve()
+  const serial = <R>(fn: () => Promise<R>): Promise<R> => { const next = queue.then(fn, fn); queue = next.catch(() => {}); return next }
+
+  async function account(identity: string): Promise<CreditAccount> {
+    const existing = await accounts.get(identity)
+    if (existing) return existing
+    const now = new Date().toISOString()
+    return accounts.put({ id: identity, balance: startingBalance, createdAt: now, updatedAt: now })
+  }
+  const adjust = async (a: CreditAccount, delta: number) => (await accounts.put({ ...a, balance: a.balance + delta, updatedAt: new Date().toISOString() })).balance
+
+  return {
+    balance: identity => serial(async () => (await account(identity)).balance),
+    charge: (identity, amount, action) => serial(async () => {
+      const a = await account(identity)
+      if (a.balance < amount) return { ok: false as const, balance: a.balance }
+      const charge = await charges.put({ id: crypto.randomUUID(), identity, amount, action, createdAt: new Date().toISOString() })
+      return { ok: true as const, charge, balance: await adjust(a, -amount) }
+    }),
+    refund: chargeId => serial(async () => {
+      const c = await charges.get(chargeId)
+      if (!c || c.refundedAt) return undefined
+      await charges.put({ ...c, refundedAt: new Date().toISOString() })
+      return adjust(await account(c.identity), c.amount)
+    }),
+    grant: (identity, amount) => serial(async () => adjust(await account(identity), amount)),
+  }
+}
+
+export const createMemoryCreditStore = (startingBalance = DEFAULT_STARTING_BALANCE) =>
+  createCreditStore(createMemoryStore(), createMemoryStore(), startingBalance)
+
+let shared: CreditStore | undefined
+
+// Backed by the storage adapter, so BOOKS_STORE=memory keeps the ledger in-process
+export function getCreditStore(): CreditStore {
+  shared ??= createCreditStore(getStore<CreditAccount>('credit-accounts'), getStore<Charge>('credit-charges'), getStartingBalance())
+  return shared
+}
+
+// Test hook — pair with resetStores()
+export function resetCreditStore() { shared = undefined }
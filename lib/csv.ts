@@ -0,0 +1,41 @@
+// lib/csv.ts — javari-books
+// RFC 4180 CSV parsing — quoted fields, doubled quotes, embedded newlines, CRLF, a leading BOM (client-safe)
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = [], field = '', quoted = false, i = 0
+  const s = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  while (i < s.length) {
+    const c = s[i]
+    if (quoted) {
+      if (c === '"' && s[i + 1] === '"') { field += '"'; i += 2; continue }
+      if (c === '"') quoted = false
+      else field += c
+      i++
+      continue
+    }
+    if (c === '"' && field === '') quoted = true
+    else if (c === ',') { row.push(field); field = '' }
+    else if (c === '\n' || c === '\r') {
+      row.push(field); field = ''
+      if (row.length > 1 || row[0] !== '') rows.push(row)
+      row = []
+      if (c === '\r' && s[i + 1] === '\n') i++
+    } else field += c
+    i++
+  }
+  if (field !== '' || row.length) { row.push(field); rows.push(row) }
+  return rows
+}
+
+// One object per data row, keyed by the trimmed header; missing trailing cells read as ''
+export function csvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) return []
+  const keys = header.map(h => h.trim())
+  return rows.map(r => {
+    const o: Record<string, string> = {}
+    keys.forEach((k, i) => { o[k] = (r[i] ?? '').trim() })
+    return o
+  })
+}
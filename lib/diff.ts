@@ -0,0 +1,79 @@
+// lib/diff.ts — javari-books
+// Word-level diff — equal runs and change hunks that can each be accepted or rejected (client-safe)
+
+export type DiffHunk = { kind: 'equal'; text: string } | { kind: 'change'; id: number; before: string; after: string }
+
+// Words, whitespace and punctuation are separate tokens, so "dark." → "dark," changes only the comma
+const FINE = /\s+|[\w'’-]+|[^\s\w'’-]+/g
+// A word with its trailing whitespace — the fallback when the fine table would be too big
+const COARSE = /\S+\s*|\s+/g
+// LCS table cells allowed — 18 MB, enough for a whole revised passage (lib/revise MAX_PASSAGE_CHARS) word by word
+const MAX_CELLS = 9000000
+
+type Op = { kind: 'equal' | 'delete' | 'insert'; text: string }
+
+// Classic LCS over the middle section, after the common prefix and suffix are peeled off
+function lcsOps(a: string[], b: string[]): Op[] | undefined {
+  let pre = 0
+  while (pre < a.length && pre < b.length && a[pre] === b[pre]) pre++
+  let suf = 0
+  while (suf < a.length - pre && suf < b.length - pre && a[a.length - 1 - suf] === b[b.length - 1 - suf]) suf++
+  const x = a.slice(pre, a.length - suf), y = b.slice(pre, b.length - suf)
+  const n = x.length, m = y.length
+  if ((n + 1) * (m + 1) > MAX_CELLS) return undefined
+  // L[i][j] = LCS length of x[i:] and y[j:]; min(n, m) ≤ 3000 here, so 16 bits is enough
+  const w = m + 1
+  const L = new Uint16Array((n + 1) * w)
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) L[i * w + j] = x[i] === y[j] ? L[(i + 1) * w + j + 1] + 1 : Math.max(L[(i + 1) * w + j], L[i * w + j + 1])
+  }
+  const ops: Op[] = a.slice(0, pre).map(text => ({ kind: 'equal' as const, text }))
+  let i = 0, j = 0
+  while (i < n || j < m) {
+    if (i < n && j < m && x[i] === y[j]) { ops.push({ kind: 'equal', text: x[i] }); i++; j++ }
+    else if (j >= m || (i < n && L[(i + 1) * w + j] >= L[i * w + j + 1])) ops.push({ kind: 'delete', text: x[i++] })
+    else ops.push({ kind: 'insert', text: y[j++] })
+  }
+  return ops.concat(a.slice(a.length - suf).map(text => ({ kind: 'equal' as const, text })))
+}
+
+// Adjacent deletes and inserts become one change; a whitespace-only gap between two changes joins them,
+// so "the cold grey sea" → "a warm blue sea" is one decision rather than three
+function toHunks(ops: Op[]): DiffHunk[] {
+  type Run = { kind: 'equal'; text: string } | { kind: 'change'; before: string; after: string }
+  const runs: Run[] = []
+  for (const op of ops) {
+    const last = runs[runs.length - 1]
+    if (op.kind === 'equal') {
+      if (last?.kind === 'equal') last.text += op.text
+      else runs.push({ kind: 'equal', text: op.text })
+    } else {
+      const c = last?.kind === 'change' ? last : { kind: 'change' as const, before: '', after: '' }
+      if (c !== last) runs.push(c)
+      if (op.kind === 'delete') c.before += op.text
+      else c.after += op.text
+    }
+  }
+  const merged: Run[] = []
+  for (let k = 0; k < runs.length; k++) {
+    const r = runs[k], prev = merged[merged.length - 1], next = runs[k + 1]
+    if (r.kind === 'equal' && !r.text.trim() && prev?.kind === 'change' && next?.kind === 'change') {
+      prev.before += r.text + next.before; prev.after += r.text + next.after; k++
+    } else merged.push(r)
+  }
+  let id = 0
+  return merged.map(r => (r.kind === 'equal' ? r : { ...r, id: id++ }))
+}
+
+export function diffWords(before: string, after: string): DiffHunk[] {
+  if (before === after) return before ? [{ kind: 'equal', text: before }] : []
+  const ops = lcsOps(before.match(FINE) ?? [], after.match(FINE) ?? []) ?? lcsOps(before.match(COARSE) ?? [], after.match(COARSE) ?? [])
+  return ops ? toHunks(ops) : [{ kind: 'change', id: 0, before, after }]
+}
+
+// Accepted changes take their new text, everything else keeps the old
+export function applyHunks(hunks: DiffHunk[], accepted: Set<number>): string {
+  return hunks.map(h => (h.kind === 'equal' ? h.text : accepted.has(h.id) ? h.after : h.before)).join('')
+}
+
+export const changeIds = (hunks: DiffHunk[]) => hunks.flatMap(h => (h.kind === 'change' ? [h.id] : []))
@@ -0,0 +1,131 @@
+// lib/export/book.ts — javari-books
+// The assembled book every exporter works from — built from a saved project or an inline outline + chapters
+import { validateOutline, type Outline } from '../outline'
+import { countWords, currentVersion, MAX_CHAPTER_CHARS, type Project } from '../projects'
+import type { FieldError } from '../validate'
+
+export type ExportChapter = { number: number; title: string; text: string }
+export type ExportBook = {
+  identifier: string  // urn:uuid, stable for a saved project
+  title: string
+  author: string
+  genre: string
+  description: string
+  contact: string[]  // name/address/email lines for the manuscript title page
+  chapters: ExportChapter[]  // sorted by number, only chapters with text
+}
+export type ExportMeta = { author?: string; contact?: string[] }
+
+// A paragraph of prose, or a scene break ("***", "* * *", "#", "---" on a line of their own)
+export type Block = { kind: 'para'; text: string } | { kind: 'break' }
+
+export const MAX_EXPORT_CHAPTERS = 500
+export const MAX_CONTACT_LINES = 6
+
+const SCENE_BREAK = /^\s*(\*\s*\*\s*\*|#|-{3,}|~{3,})\s*$/
+const CHAPTER_HEADING = /^#*\s*chapter\s+(\d+|[a-z]+(-[a-z]+)?)\s*([:.\-–—].*)?$/i
+
+// Models often open with their own "Chapter 3: Title" line; the exporters supply headings themselves
+export function chapterBlocks(text: string): Block[] {
+  const lines = text.replace(/\r\n?/g, '\n').split(/\n+/).map(l => l.trim()).filter(Boolean)
+  if (lines.length > 1 && lines[0].length < 160 && CHAPTER_HEADING.test(lines[0])) lines.shift()
+  const blocks: Block[] = []
+  for (const l of lines) {
+    if (SCENE_BREAK.test(l)) { if (blocks.length && blocks[blocks.length - 1].kind !== 'break') blocks.push({ kind: 'break' }) }
+    else blocks.push({ kind: 'para', text: l.replace(/^#+\s*/, '') })
+  }
+  while (blocks.length && blocks[blocks.length - 1].kind === 'break') blocks.pop()
+  return blocks
+}
+
+// Untitled chapters carry the default "Chapter N" title; don't repeat it
+export const hasOwnTitle = (c: ExportChapter) => c.title !== `Chapter ${c.number}`
+export const chapterHeading = (c: ExportChapter) => (hasOwnTitle(c) ? `Chapter ${c.number}: ${c.title}` : c.title)
+
+export const bookWords = (b: ExportBook) => b.chapters.reduce((n, c) => n + countWords(c.text), 0)
+
+// Shunn: round to the nearest 100 for short works, the nearest 1,000 for novel-length ones
+export function approximateWords(words: number): string {
+  const step = words >= 10000 ? 1000 : 100
+  return `about ${(Math.max(step, Math.round(words / step) * step)).toLocaleString('en-US')} words`
+}
+
+export function slugify(s: string): string {
+  return s.toLowerCase().normalize('NFKD').replace(/[^\w\s-]/g, '').trim().replace(/[\s_-]+/g, '-').slice(0, 60) || 'book'
+}
+
+const str = (v: unknown, max: number) => (typeof v === 'string' ? v.trim().slice(0, max) : '')
+
+function meta(raw: ExportMeta | undefined) {
+  return {
+    author: str(raw?.author, 200),
+    contact: (Array.isArray(raw?.contact) ? raw!.contact : []).map(l => str(l, 200)).filter(Boolean).slice(0, MAX_CONTACT_LINES),
+  }
+}
+
+// Chapters take the saved current version; the outline supplies the description
+export function bookFromProject(p: Project, m?: ExportMeta): ExportBook {
+  const chapters = p.chapters
+    .map(c => ({ number: c.number, title: c.title, text: currentVersion(c)?.text ?? '' }))
+    .filter(c => c.text.trim())
+  return {
+    identifier: `urn:uuid:${p.id}`,
+    title: p.settings.title || p.outline?.book.title || 'Untitled',
+    genre: p.settings.genre || p.outline?.book.genre || 'Fiction',
+    description: p.outline?.book.logline || p.settings.premise,
+    ...meta(m),
+    chapters,
+  }
+}
+
+// Inline form: { title?, genre?, outline?, chapters: [{ number, title?, text }] }; a chapter's
+// title falls back to the outline's title for that number
+export function parseExportBook(raw: unknown, m?: ExportMeta): { book?: ExportBook; errors: FieldError[] } {
+  const b = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const errors: FieldError[] = []
+  let outline: Outline | null = null
+  if (b.outline !== undefined && b.outline !== null) {
+    const r = validateOutline(b.outline)
+    if (r.outline) outline = r.outline
+    else errors.push({ field: 'outline', message: r.errors[0] ?? 'Invalid outline' })
+  }
+  const list = Array.isArray(b.chapters) ? b.chapters as Array<Record<string, unknown>> : null
+  if (!list || !list.length) errors.push({ field: 'chapters', message: 'chapters must be a non-empty array' })
+  else if (list.length > MAX_EXPORT_CHAPTERS) errors.push({ field: 'chapters', message: `at most ${MAX_EXPORT_CHAPTERS} chapters` })
+  const chapters: ExportChapter[] = []
+  list?.slice(0, MAX_EXPORT_CHAPTERS).forEach((c, i) => {
+    const number = Number(c?.number ?? i + 1)
+    if (!Number.isInteger(number) || number < 1) return errors.push({ field: `chapters[${i}].number`, message: 'number must be a positive whole number' })
+    if (typeof c?.text !== 'string' || !c.text.trim()) return errors.push({ field: `chapters[${i}].text`, message: 'text is required' })
+    if (c.text.length > MAX_CHAPTER_CHARS) return errors.push({ field: `chapters[${i}].text`, message: `text must be at most ${MAX_CHAPTER_CHARS} characters` })
+    const title = str(c.title, 200) || outline?.chapters.find(o => o.number === number)?.title || `Chapter ${number}`
+    chapters.push({ number, title, text: c.text })
+  })
+  if (new Set(chapters.map(c => c.number)).size !== chapters.length) errors.push({ field: 'chapters', message: 'chapter numbers must be unique' })
+  if (errors.length) return { errors }
+  return {
+    book: {
+      identifier: `urn:uuid:${crypto.randomUUID()}`,
+      title: str(b.title, 200) || outline?.book.title || 'Untitled',
+      genre: str(b.genre, 100) || outline?.book.genre || 'Fiction',
+      description: outline?.book.logline ?? '',
+      ...meta(m),
+      chapters: chapters.sort((a, c) => a.number - c.number),
+    },
+    errors,
+  }
+}
+
+// Strips characters XML 1.0 forbids, then escapes markup
+export function escapeXml(s: string): string {
+  return s.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;')
+}
+
+// *emphasis* in model output becomes italics; **bold** markers are dropped
+export type Run = { text: string; italic: boolean }
+export function inlineRuns(text: string): Run[] {
+  return text.replace(/\*\*(.+?)\*\*/g, '$1').split(/(\*[^*\s][^*]*\*)/)
+    .filter(Boolean)
+    .map(part => (/^\*[^*]+\*$/.test(part) ? { text: part.slice(1, -1), italic: true } : { text: part, italic: false }))
+}
@@ -0,0 +1,147 @@
+// lib/export/docx.ts — javari-books
+// WordprocessingML writer — just enough OOXML for styled paragraphs, sections and a page-numbered header
+import { approximateWords, bookWords, chapterBlocks, chapterHeading, escapeXml, hasOwnTitle, inlineRuns, type ExportBook } from './book'
+import { createZip } from './zip'
+
+export type DocxParagraph = {
+  text: string
+  style?: 'Title' | 'Subtitle' | 'Heading1'
+  align?: 'left' | 'center' | 'right'
+  pageBreakBefore?: boolean
+  spaceBefore?: number  // twips
+  single?: boolean      // single line spacing regardless of the document default
+  indent?: boolean      // first-line indent; defaults to the Normal style's
+  rightTab?: boolean    // a tab in the text jumps to the right margin
+}
+export type DocxSection = { paragraphs: DocxParagraph[]; header?: string; restartNumbering?: boolean }
+export type DocxDocument = {
+  title: string
+  author: string
+  subject: string
+  font: string
+  sizePt: number
+  line: number       // 240 = single spaced, 480 = double
+  firstLine: number  // twips
+  sections: DocxSection[]
+}
+
+export const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main'
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+const HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+
+function paragraph(p: DocxParagraph): string {
+  const props = [
+    p.style && `<w:pStyle w:val="${p.style}"/>`,
+    p.pageBreakBefore && '<w:pageBreakBefore/>',
+    p.rightTab && '<w:tabs><w:tab w:val="right" w:pos="9360"/></w:tabs>',
+    (p.spaceBefore || p.single) && `<w:spacing${p.spaceBefore ? ` w:before="${p.spaceBefore}"` : ''}${p.single ? ' w:line="240" w:lineRule="auto"' : ''}/>`,
+    p.indent === false && '<w:ind w:firstLine="0"/>',
+    p.align && `<w:jc w:val="${p.align}"/>`,
+  ].filter(Boolean).join('')
+  const text = (t: string) => t.split('\t').map(part => `<w:t xml:space="preserve">${escapeXml(part)}</w:t>`).join('<w:tab/>')
+  const runs = inlineRuns(p.text).map(r => `<w:r>${r.italic ? '<w:rPr><w:i/></w:rPr>' : ''}${text(r.text)}</w:r>`).join('')
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs}</w:p>`
+}
+
+// US Letter with one-inch margins
+function sectionProps(s: DocxSection, headerId?: string): string {
+  return `<w:sectPr>${headerId ? `<w:headerReference w:type="default" r:id="${headerId}"/>` : ''}`
+    + '<w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>'
+    + `${s.restartNumbering ? '<w:pgNumType w:start="1"/>' : ''}</w:sectPr>`
+}
+
+function header(text: string): string {
+  return `${HEAD}<w:hdr xmlns:w="${W}"><w:p><w:pPr><w:spacing w:line="240" w:lineRule="auto"/><w:ind w:firstLine="0"/><w:jc w:val="right"/></w:pPr>`
+    + `<w:r><w:t xml:space="preserve">${escapeXml(text)} / </w:t></w:r><w:fldSimple w:instr=" PAGE "><w:r><w:t>1</w:t></w:r></w:fldSimple></w:p></w:hdr>`
+}
+
+function styles(d: DocxDocument): string {
+  const size = d.sizePt * 2
+  return `${HEAD}<w:styles xmlns:w="${W}">`
+    + `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="${escapeXml(d.font)}" w:hAnsi="${escapeXml(d.font)}" w:cs="${escapeXml(d.font)}" w:eastAsia="${escapeXml(d.font)}"/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>`
+    + `<w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="${d.line}" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>`
+    + `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/><w:pPr><w:ind w:firstLine="${d.firstLine}"/></w:pPr></w:style>`
+    + `<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="240"/><w:ind w:firstLine="0"/><w:jc w:val="center"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size * 2}"/><w:szCs w:val="${size * 2}"/></w:rPr></w:style>`
+    + `<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:ind w:firstLine="0"/><w:jc w:val="center"/></w:pPr></w:style>`
+    + `<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:after="240"/><w:ind w:firstLine="0"/><w:jc w:val="center"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/></w:rPr></w:style>`
+    + '</w:styles>'
+}
+
+// Every section but the last is closed by a paragraph carrying its sectPr; the last one sits on the body
+export function buildDocx(d: DocxDocument): Uint8Array {
+  const headers: string[] = []
+  const body = d.sections.map((s, i) => {
+    let headerId: string | undefined
+    if (s.header) { headers.push(header(s.header)); headerId = `rIdHeader${headers.length}` }
+    const paras = s.paragraphs.map(paragraph).join('')
+    return i < d.sections.length - 1 ? `${paras}<w:p><w:pPr>${sectionProps(s, headerId)}</w:pPr></w:p>` : paras + sectionProps(s, headerId)
+  }).join('')
+  const headerFiles = headers.map((h, i) => ({ name: `word/header${i + 1}.xml`, data: h }))
+  return createZip([
+    { name: '[Content_Types].xml', data: `${HEAD}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+      + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+      + headerFiles.map(h => `<Override PartName="/${h.name}" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>`).join('')
+      + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>' },
+    { name: '_rels/.rels', data: `${HEAD}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + `<Relationship Id="rId1" Type="${REL}/officeDocument" Target="word/document.xml"/>`
+      + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>' },
+    { name: 'docProps/core.xml', data: `${HEAD}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">`
+      + `<dc:title>${escapeXml(d.title)}</dc:title><dc:creator>${escapeXml(d.author)}</dc:creator><dc:subject>${escapeXml(d.subject)}</dc:subject></cp:coreProperties>` },
+    { name: 'word/_rels/document.xml.rels', data: `${HEAD}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + `<Relationship Id="rIdStyles" Type="${REL}/styles" Target="styles.xml"/>`
+      + headerFiles.map((_, i) => `<Relationship Id="rIdHeader${i + 1}" Type="${REL}/header" Target="header${i + 1}.xml"/>`).join('')
+      + '</Relationships>' },
+    { name: 'word/document.xml', data: `${HEAD}<w:document xmlns:w="${W}" xmlns:r="${REL}"><w:body>${body}</w:body></w:document>` },
+    { name: 'word/styles.xml', data: styles(d) },
+    ...headerFiles,
+  ])
+}
+
+function chapterParagraphs(text: string, breakMark: string): DocxParagraph[] {
+  return chapterBlocks(text).map(k => (k.kind === 'break' ? { text: breakMark, align: 'center', indent: false } : { text: k.text }))
+}
+
+// Reading copy — title page, then each chapter on a new page
+export function bookToDocx(b: ExportBook): Uint8Array {
+  const front: DocxParagraph[] = [
+    { text: b.title, style: 'Title', spaceBefore: 3600 },
+    ...(b.author ? [{ text: `by ${b.author}`, style: 'Subtitle' as const }] : []),
+    { text: b.genre, style: 'Subtitle', spaceBefore: 240 },
+    ...(b.description ? [{ text: b.description, style: 'Subtitle' as const, spaceBefore: 720 }] : []),
+  ]
+  const chapters = b.chapters.flatMap(c => [
+    { text: chapterHeading(c), style: 'Heading1' as const, pageBreakBefore: true },
+    ...chapterParagraphs(c.text, '* * *'),
+  ])
+  return buildDocx({ title: b.title, author: b.author, subject: b.genre, font: 'Georgia', sizePt: 11, line: 276, firstLine: 360, sections: [{ paragraphs: [...front, ...chapters] }] })
+}
+
+// Shunn standard manuscript: 12pt Times, double spaced, half-inch indents; a title page with contact
+// details and rounded word count, chapters starting a third of the way down a new page, "#" scene
+// breaks, "Surname / TITLE / page" in the header from the first chapter on, and END at the close
+export function bookToManuscript(b: ExportBook): Uint8Array {
+  const surname = b.author.split(/\s+/).filter(Boolean).pop() || 'Author'
+  const keyword = b.title.replace(/^(the|a|an)\s+/i, '').split(/\s+/).slice(0, 3).join(' ').toUpperCase()
+  const contact = b.contact.length ? b.contact : b.author ? [b.author] : []
+  const words = approximateWords(bookWords(b))
+  const titlePage: DocxParagraph[] = [
+    ...(contact.length ? contact : ['']).map((text, i) => ({ text: i === 0 ? `${text}\t${words}` : text, indent: false, single: true, rightTab: i === 0 })),
+    { text: b.title.toUpperCase(), align: 'center', indent: false, spaceBefore: 4320 },
+    { text: `by ${b.author || 'Anonymous'}`, align: 'center', indent: false },
+  ]
+  const body = b.chapters.flatMap((c, i) => [
+    { text: `Chapter ${c.number}`, align: 'center' as const, indent: false, pageBreakBefore: i > 0, spaceBefore: 2880 },
+    ...(hasOwnTitle(c) ? [{ text: c.title, align: 'center' as const, indent: false }] : []),
+    { text: '', indent: false },
+    ...chapterParagraphs(c.text, '#'),
+  ])
+  body.push({ text: 'END', align: 'center', indent: false, spaceBefore: 480 })
+  return buildDocx({
+    title: b.title, author: b.author, subject: b.genre, font: 'Times New Roman', sizePt: 12, line: 480, firstLine: 720,
+    sections: [{ paragraphs: titlePage }, { paragraphs: body, header: `${surname} / ${keyword}`, restartNumbering: true }],
+  })
+}
@@ -0,0 +1,104 @@
+// lib/export/epub.ts — javari-books
+// EPUB 3 package — title page, one XHTML file per chapter, nav document (plus NCX for older readers)
+import { chapterBlocks, chapterHeading, escapeXml, inlineRuns, type ExportBook } from './book'
+import { createZip } from './zip'
+
+export const EPUB_MIME = 'application/epub+zip'
+
+const XHTML_HEAD = '<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE html>\n'
+const STYLE = `body { font-family: Georgia, serif; line-height: 1.5; margin: 0 5%; }
+h1 { text-align: center; margin: 3em 0 1.5em; font-size: 1.4em; }
+p { margin: 0; text-indent: 1.5em; }
+h1 + p, hr + p { text-indent: 0; }
+hr { border: none; text-align: center; margin: 1.5em 0; }
+hr::after { content: "* * *"; }
+.title { text-align: center; margin-top: 30%; }
+.title p { text-indent: 0; margin: 0.5em 0; }
+nav ol { list-style: none; padding: 0; }
+`
+
+const chapterFile = (n: number) => `chapter-${String(n).padStart(3, '0')}.xhtml`
+
+function page(title: string, body: string, extraNs = ''): string {
+  return `${XHTML_HEAD}<html xmlns="http://www.w3.org/1999/xhtml"${extraNs} xml:lang="en" lang="en">
+<head><meta charset="utf-8"/><title>${escapeXml(title)}</title><link rel="stylesheet" type="text/css" href="style.css"/></head>
+<body>
+${body}
+</body>
+</html>
+`
+}
+
+const inline = (text: string) => inlineRuns(text).map(r => (r.italic ? `<em>${escapeXml(r.text)}</em>` : escapeXml(r.text))).join('')
+
+function chapterPage(title: string, text: string): string {
+  const body = chapterBlocks(text).map(k => (k.kind === 'break' ? '<hr/>' : `<p>${inline(k.text)}</p>`)).join('\n')
+  return page(title, `<section epub:type="chapter"><h1>${escapeXml(title)}</h1>\n${body}\n</section>`, ' xmlns:epub="http://www.idpf.org/2007/ops"')
+}
+
+// dcterms:modified must be CCYY-MM-DDThh:mm:ssZ, without fractional seconds
+export function bookToEpub(b: ExportBook, now = new Date()): Uint8Array {
+  const modified = now.toISOString().replace(/\.\d+Z$/, 'Z')
+  const chapters = b.chapters.map(c => ({ id: `ch${c.number}`, file: chapterFile(c.number), heading: chapterHeading(c), text: c.text }))
+
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${escapeXml(b.identifier)}</dc:identifier>
+    <dc:title>${escapeXml(b.title)}</dc:title>
+    <dc:language>en</dc:language>
+${b.author ? `    <dc:creator>${escapeXml(b.author)}</dc:creator>\n` : ''}    <dc:subject>${escapeXml(b.genre)}</dc:subject>
+${b.description ? `    <dc:description>${escapeXml(b.description)}</dc:description>\n` : ''}    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+    <item id="style" href="style.css" media-type="text/css"/>
+    <item id="title" href="title.xhtml" media-type="application/xhtml+xml"/>
+${chapters.map(c => `    <item id="${c.id}" href="${c.file}" media-type="application/xhtml+xml"/>`).join('\n')}
+  </manifest>
+  <spine toc="ncx">
+    <itemref idref="title"/>
+${chapters.map(c => `    <itemref idref="${c.id}"/>`).join('\n')}
+  </spine>
+</package>
+`
+
+  const nav = page('Contents', `<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+${chapters.map(c => `<li><a href="${c.file}">${escapeXml(c.heading)}</a></li>`).join('\n')}
+</ol>
+</nav>`, ' xmlns:epub="http://www.idpf.org/2007/ops"')
+
+  const ncx = `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+<head><meta name="dtb:uid" content="${escapeXml(b.identifier)}"/></head>
+<docTitle><text>${escapeXml(b.title)}</text></docTitle>
+<navMap>
+${chapters.map((c, i) => `<navPoint id="nav-${c.id}" playOrder="${i + 1}"><navLabel><text>${escapeXml(c.heading)}</text></navLabel><content src="${c.file}"/></navPoint>`).join('\n')}
+</navMap>
+</ncx>
+`
+
+  const title = page(b.title, `<div class="title">
+<h1>${escapeXml(b.title)}</h1>
+${b.author ? `<p>by ${escapeXml(b.author)}</p>\n` : ''}<p>${escapeXml(b.genre)}</p>
+${b.description ? `<p><em>${escapeXml(b.description)}</em></p>\n` : ''}</div>`)
+
+  // mimetype must be the first entry, stored uncompressed — createZip never compresses
+  return createZip([
+    { name: 'mimetype', data: EPUB_MIME },
+    { name: 'META-INF/container.xml', data: `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>
+` },
+    { name: 'OEBPS/content.opf', data: opf },
+    { name: 'OEBPS/nav.xhtml', data: nav },
+    { name: 'OEBPS/toc.ncx', data: ncx },
+    { name: 'OEBPS/style.css', data: STYLE },
+    { name: 'OEBPS/title.xhtml', data: title },
+    ...chapters.map(c => ({ name: `OEBPS/${c.file}`, data: chapterPage(c.heading, c.text) })),
+  ])
+}
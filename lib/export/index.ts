@@ -0,0 +1,37 @@
+// lib/export/index.ts — javari-books
+// Export formats — each builds a file from an assembled book and names the check it must pass
+import { slugify, type ExportBook } from './book'
+import { bookToDocx, bookToManuscript, DOCX_MIME } from './docx'
+import { bookToEpub, EPUB_MIME } from './epub'
+import { bookToMarkdown } from './markdown'
+import { validateDocx, validateEpub } from './validate'
+
+export type ExportFormat = 'markdown' | 'docx' | 'epub' | 'manuscript'
+export type ExportFile = { filename: string; mime: string; data: Uint8Array }
+
+type FormatSpec = { label: string; ext: string; mime: string; build: (b: ExportBook) => Uint8Array; validate?: (data: Uint8Array) => string[] }
+
+export const EXPORT_FORMATS: Record<ExportFormat, FormatSpec> = {
+  markdown: { label: 'Markdown', ext: 'md', mime: 'text/markdown; charset=utf-8', build: b => new TextEncoder().encode(bookToMarkdown(b)) },
+  docx: { label: 'Word (DOCX)', ext: 'docx', mime: DOCX_MIME, build: bookToDocx, validate: validateDocx },
+  epub: { label: 'EPUB 3', ext: 'epub', mime: EPUB_MIME, build: b => bookToEpub(b), validate: validateEpub },
+  manuscript: { label: 'Standard manuscript (DOCX)', ext: 'docx', mime: DOCX_MIME, build: bookToManuscript, validate: validateDocx },
+}
+
+export class ExportValidationError extends Error {
+  constructor(public format: ExportFormat, public problems: string[]) {
+    super(`${format} export failed validation: ${problems.join('; ')}`)
+    this.name = 'ExportValidationError'
+  }
+}
+
+export function exportBook(b: ExportBook, format: ExportFormat): ExportFile {
+  const spec = EXPORT_FORMATS[format]
+  const data = spec.build(b)
+  const problems = spec.validate?.(data) ?? []
+  if (problems.length) throw new ExportValidationError(format, problems)
+  const suffix = format === 'manuscript' ? '-manuscript' : ''
+  return { filename: `${slugify(b.title)}${suffix}.${spec.ext}`, mime: spec.mime, data }
+}
+
+export { bookFromProject, parseExportBook, type ExportBook, type ExportMeta } from './book'
@@ -0,0 +1,16 @@
+// lib/export/markdown.ts — javari-books
+// Assembled book as a single Markdown file
+import { chapterBlocks, chapterHeading, type ExportBook } from './book'
+
+export function bookToMarkdown(b: ExportBook): string {
+  const front = [`# ${b.title}`]
+  if (b.author) front.push(`*by ${b.author}*`)
+  front.push(`**Genre:** ${b.genre}`)
+  if (b.description) front.push(`> ${b.description}`)
+  const contents = b.chapters.map(c => `- ${chapterHeading(c)}`).join('\n')
+  const chapters = b.chapters.map(c => {
+    const body = chapterBlocks(c.text).map(k => (k.kind === 'break' ? '* * *' : k.text)).join('\n\n')
+    return `## ${chapterHeading(c)}\n\n${body}`
+  })
+  return [front.join('\n\n'), `## Contents\n\n${contents}`, ...chapters].join('\n\n---\n\n') + '\n'
+}
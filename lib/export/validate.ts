@@ -0,0 +1,138 @@
+// lib/export/validate.ts — javari-books
+// Structural checks for generated packages — run on every export before it is served, and in tests.
+// Not a full epubcheck: verifies the container, package metadata, manifest/spine/nav references and
+// that every XML part is well formed. Each returns a list of problems; empty means valid.
+import { readZip, type ZipEntry } from './zip'
+
+const dec = new TextDecoder()
+
+// Tag balance and entity syntax — enough to catch unescaped text and broken templates
+export function xmlProblem(xml: string): string | undefined {
+  const body = xml.replace(/<!--[\s\S]*?-->/g, '').replace(/<\?[\s\S]*?\?>/g, '').replace(/<!DOCTYPE[^>]*>/i, '').replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '')
+  const bad = body.match(/&(?!(amp|lt|gt|quot|apos|#\d+|#x[0-9a-fA-F]+);)/)
+  if (bad) return `bare "&" at offset ${bad.index}`
+  const stack: string[] = []
+  const tag = /<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g
+  let m: RegExpExecArray | null
+  let roots = 0
+  let last = 0
+  while ((m = tag.exec(body))) {
+    if (body.slice(last, m.index).includes('<')) return `malformed tag near offset ${last}`
+    last = tag.lastIndex
+    const [, closing, name, , selfClosing] = m
+    if (closing) {
+      const open = stack.pop()
+      if (open !== name) return `</${name}> closes <${open ?? 'nothing'}>`
+    } else if (!selfClosing) {
+      if (!stack.length) roots++
+      stack.push(name)
+    } else if (!stack.length) roots++
+  }
+  if (body.slice(last).includes('<')) return `malformed tag near offset ${last}`
+  if (stack.length) return `<${stack[stack.length - 1]}> is never closed`
+  if (roots !== 1) return `expected one root element, found ${roots}`
+  return undefined
+}
+
+const attr = (tag: string, name: string) => tag.match(new RegExp(`\\s${name}\\s*=\\s*"([^"]*)"`))?.[1]
+const tags = (xml: string, name: string) => xml.match(new RegExp(`<${name}\\b[^>]*>`, 'g')) ?? []
+const element = (xml: string, name: string) => xml.match(new RegExp(`<${name}\\b[^>]*>([\\s\\S]*?)</${name}>`))?.[1]?.trim()
+
+// Resolves a relative href against the directory of the file that contains it
+function resolve(from: string, href: string): string {
+  const parts = from.split('/').slice(0, -1)
+  for (const seg of decodeURIComponent(href.split('#')[0]).split('/')) {
+    if (seg === '..') parts.pop()
+    else if (seg && seg !== '.') parts.push(seg)
+  }
+  return parts.join('/')
+}
+
+function open(buf: Uint8Array): { entries?: ZipEntry[]; files: Map<string, string>; problems: string[] } {
+  try {
+    const entries = readZip(buf)
+    const files = new Map(entries.map(e => [e.name, dec.decode(e.data)]))
+    const problems = entries.filter(e => /\.(xml|xhtml|opf|ncx|rels)$/.test(e.name))
+      .map(e => { const p = xmlProblem(files.get(e.name)!); return p && `${e.name}: ${p}` })
+      .filter((p): p is string => !!p)
+    return { entries, files, problems }
+  } catch (e) {
+    return { files: new Map(), problems: [`not a readable zip: ${e instanceof Error ? e.message : String(e)}`] }
+  }
+}
+
+export function validateEpub(buf: Uint8Array): string[] {
+  const { entries, files, problems } = open(buf)
+  if (!entries) return problems
+  if (entries[0]?.name !== 'mimetype') problems.push('mimetype must be the first entry')
+  if (files.get('mimetype') !== 'application/epub+zip') problems.push('mimetype must contain exactly "application/epub+zip"')
+
+  const container = files.get('META-INF/container.xml')
+  if (!container) return [...problems, 'missing META-INF/container.xml']
+  const opfPath = attr(tags(container, 'rootfile')[0] ?? '', 'full-path')
+  const opf = opfPath && files.get(opfPath)
+  if (!opfPath || !opf) return [...problems, `container rootfile ${opfPath ?? '(none)'} not found`]
+
+  const pkg = tags(opf, 'package')[0] ?? ''
+  if (attr(pkg, 'version') !== '3.0') problems.push('package version must be 3.0')
+  const uid = attr(pkg, 'unique-identifier')
+  if (!uid || !tags(opf, 'dc:identifier').some(t => attr(t, 'id') === uid)) problems.push('unique-identifier does not match a dc:identifier')
+  if (!element(opf, 'dc:title')) problems.push('missing dc:title')
+  if (!element(opf, 'dc:language')) problems.push('missing dc:language')
+  const modified = opf.match(/<meta\s+property="dcterms:modified"\s*>([^<]*)<\/meta>/)?.[1]
+  if (!modified || !/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/.test(modified)) problems.push('missing or malformed dcterms:modified')
+
+  const items = tags(opf, 'item').map(t => ({ id: attr(t, 'id') ?? '', href: attr(t, 'href') ?? '', type: attr(t, 'media-type') ?? '', props: (attr(t, 'properties') ?? '').split(/\s+/) }))
+  const ids = new Set<string>()
+  for (const it of items) {
+    if (!it.id || ids.has(it.id)) problems.push(`manifest item id "${it.id}" is missing or duplicated`)
+    ids.add(it.id)
+    if (!it.type) problems.push(`manifest item ${it.id} has no media-type`)
+    if (!files.has(resolve(opfPath, it.href))) problems.push(`manifest item ${it.id} points to missing ${it.href}`)
+  }
+  const spine = tags(opf, 'itemref').map(t => attr(t, 'idref') ?? '')
+  if (!spine.length) problems.push('spine is empty')
+  for (const ref of spine) if (!ids.has(ref)) problems.push(`spine itemref ${ref} is not in the manifest`)
+
+  const navItems = items.filter(it => it.props.includes('nav'))
+  if (navItems.length !== 1) return [...problems, `expected exactly one nav document, found ${navItems.length}`]
+  const navPath = resolve(opfPath, navItems[0].href)
+  const nav = files.get(navPath) ?? ''
+  if (!/<nav\b[^>]*epub:type="toc"/.test(nav)) problems.push('nav document has no epub:type="toc" nav')
+  const spineFiles = new Set(spine.map(ref => resolve(opfPath, items.find(it => it.id === ref)?.href ?? '')))
+  const links = tags(nav, 'a').map(t => attr(t, 'href') ?? '')
+  if (!links.length) problems.push('table of contents is empty')
+  for (const href of links) {
+    const target = resolve(navPath, href)
+    if (!files.has(target)) problems.push(`table of contents links to missing ${href}`)
+    else if (!spineFiles.has(target)) problems.push(`table of contents links to ${href}, which is not in the spine`)
+  }
+  return problems
+}
+
+export function validateDocx(buf: Uint8Array): string[] {
+  const { entries, files, problems } = open(buf)
+  if (!entries) return problems
+  const types = files.get('[Content_Types].xml')
+  if (!types) return [...problems, 'missing [Content_Types].xml']
+  for (const t of tags(types, 'Override')) {
+    const part = (attr(t, 'PartName') ?? '').replace(/^\//, '')
+    if (!files.has(part)) problems.push(`content type declared for missing part ${part}`)
+  }
+  const rootRels = files.get('_rels/.rels') ?? ''
+  const main = tags(rootRels, 'Relationship').find(t => (attr(t, 'Type') ?? '').endsWith('/officeDocument'))
+  const docPath = main && attr(main, 'Target')?.replace(/^\//, '')
+  const doc = docPath && files.get(docPath)
+  if (!docPath || !doc) return [...problems, 'no officeDocument relationship to an existing part']
+  if (!tags(types, 'Override').some(t => attr(t, 'PartName') === `/${docPath}` && /document\.main\+xml$/.test(attr(t, 'ContentType') ?? ''))) problems.push(`${docPath} is not declared as the main document`)
+  if (!/<w:body>/.test(doc)) problems.push(`${docPath} has no w:body`)
+  const relsPath = resolve(docPath, `_rels/${docPath.split('/').pop()}.rels`)
+  const rels = files.get(relsPath) ?? ''
+  const relIds = new Set<string>()
+  for (const t of tags(rels, 'Relationship')) {
+    relIds.add(attr(t, 'Id') ?? '')
+    if (attr(t, 'TargetMode') !== 'External' && !files.has(resolve(docPath, attr(t, 'Target') ?? ''))) problems.push(`relationship ${attr(t, 'Id')} points to missing ${attr(t, 'Target')}`)
+  }
+  for (const id of doc.match(/r:id="[^"]*"/g) ?? []) if (!relIds.has(id.slice(6, -1))) problems.push(`${docPath} references unknown relationship ${id.slice(6, -1)}`)
+  return problems
+}
@@ -0,0 +1,91 @@
+// lib/export/zip.ts — javari-books
+// Minimal ZIP container — stored (uncompressed) entries, which is all DOCX and EPUB need.
+// readZip is the inverse, used to check generated files before they are served.
+export type ZipEntry = { name: string; data: Uint8Array }
+export type ZipInput = { name: string; data: Uint8Array | string }
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    t[n] = c >>> 0
+  }
+  return t
+})()
+
+export function crc32(data: Uint8Array): number {
+  let c = 0xffffffff
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+// DOS date/time fields; a fixed timestamp keeps output byte-for-byte reproducible
+const DOS_TIME = 0
+const DOS_DATE = ((2026 - 1980) << 9) | (1 << 5) | 1
+const UTF8_NAMES = 0x0800
+
+export function createZip(files: ZipInput[]): Uint8Array {
+  const enc = new TextEncoder()
+  const locals: Uint8Array[] = []
+  const centrals: Uint8Array[] = []
+  let offset = 0
+  for (const f of files) {
+    const name = enc.encode(f.name)
+    const data = typeof f.data === 'string' ? enc.encode(f.data) : f.data
+    const crc = crc32(data)
+    const local = new Uint8Array(30 + name.length + data.length)
+    const lv = new DataView(local.buffer)
+    lv.setUint32(0, 0x04034b50, true); lv.setUint16(4, 20, true); lv.setUint16(6, UTF8_NAMES, true); lv.setUint16(8, 0, true)
+    lv.setUint16(10, DOS_TIME, true); lv.setUint16(12, DOS_DATE, true); lv.setUint32(14, crc, true)
+    lv.setUint32(18, data.length, true); lv.setUint32(22, data.length, true); lv.setUint16(26, name.length, true); lv.setUint16(28, 0, true)
+    local.set(name, 30); local.set(data, 30 + name.length)
+    const central = new Uint8Array(46 + name.length)
+    const cv = new DataView(central.buffer)
+    cv.setUint32(0, 0x02014b50, true); cv.setUint16(4, 20, true); cv.setUint16(6, 20, true); cv.setUint16(8, UTF8_NAMES, true); cv.setUint16(10, 0, true)
+    cv.setUint16(12, DOS_TIME, true); cv.setUint16(14, DOS_DATE, true); cv.setUint32(16, crc, true)
+    cv.setUint32(20, data.length, true); cv.setUint32(24, data.length, true); cv.setUint16(28, name.length, true)
+    cv.setUint32(42, offset, true)
+    central.set(name, 46)
+    locals.push(local); centrals.push(central)
+    offset += local.length
+  }
+  const cdSize = centrals.reduce((n, c) => n + c.length, 0)
+  const end = new Uint8Array(22)
+  const ev = new DataView(end.buffer)
+  ev.setUint32(0, 0x06054b50, true); ev.setUint16(8, files.length, true); ev.setUint16(10, files.length, true)
+  ev.setUint32(12, cdSize, true); ev.setUint32(16, offset, true)
+  const out = new Uint8Array(offset + cdSize + end.length)
+  let at = 0
+  for (const part of [...locals, ...centrals, end]) { out.set(part, at); at += part.length }
+  return out
+}
+
+// Reads entries in central-directory order; throws on anything this writer wouldn't produce
+export function readZip(buf: Uint8Array): ZipEntry[] {
+  const v = new DataView(buf.buffer, buf.byteOffset, buf.byteLength)
+  let eocd = -1
+  for (let i = buf.length - 22; i >= 0; i--) if (v.getUint32(i, true) === 0x06054b50) { eocd = i; break }
+  if (eocd < 0) throw new Error('not a zip archive')
+  const count = v.getUint16(eocd + 10, true)
+  let p = v.getUint32(eocd + 16, true)
+  const dec = new TextDecoder()
+  const entries: ZipEntry[] = []
+  for (let i = 0; i < count; i++) {
+    if (v.getUint32(p, true) !== 0x02014b50) throw new Error('corrupt central directory')
+    const method = v.getUint16(p + 10, true)
+    const crc = v.getUint32(p + 16, true)
+    const size = v.getUint32(p + 20, true)
+    const nameLen = v.getUint16(p + 28, true), extraLen = v.getUint16(p + 30, true), commentLen = v.getUint16(p + 32, true)
+    const localAt = v.getUint32(p + 42, true)
+    const name = dec.decode(buf.subarray(p + 46, p + 46 + nameLen))
+    if (method !== 0) throw new Error(`${name}: compressed entries are not supported`)
+    if (v.getUint32(localAt, true) !== 0x04034b50) throw new Error(`${name}: missing local header`)
+    const dataAt = localAt + 30 + v.getUint16(localAt + 26, true) + v.getUint16(localAt + 28, true)
+    const data = buf.subarray(dataAt, dataAt + size)
+    if (crc32(data) !== crc) throw new Error(`${name}: CRC mismatch`)
+    entries.push({ name, data })
+    p += 46 + nameLen + extraLen + commentLen
+  }
+  return entries
+}
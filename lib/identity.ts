@@ -0,0 +1,47 @@
+// lib/identity.ts — javari-books
+// Who is calling — API key, trusted user header, or client IP — for credits and rate limits (server only)
+import { createHash } from 'crypto'
+
+export type IdentityKind = 'key' | 'user' | 'ip'
+export type Identity = { id: string; kind: IdentityKind }
+
+export class IdentityError extends Error {
+  constructor(message: string) { super(message); this.name = 'IdentityError' }
+}
+
+const USER_ID = /^[\w@.:-]{1,128}$/
+
+// Keys are never stored; the ledger sees a short hash
+const keyId = (key: string) => 'key:' + createHash('sha256').update(key).digest('hex').slice(0, 16)
+
+// 1. An API key (Authorization: Bearer … or x-api-key) listed in JAVARI_API_KEYS; an unknown key is rejected
+//    rather than treated as anonymous, so a typo doesn't silently spend someone's IP balance.
+// 2. x-javari-user, only when JAVARI_TRUST_USER_HEADER=1 — set it behind an auth proxy that owns the header.
+// 3. The client IP, as seen by the nearest proxy we trust — see clientIp().
+export function identify(headers: Headers, env: Record<string, string | undefined> = process.env): Identity {
+  const bearer = headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]
+  const key = (bearer ?? headers.get('x-api-key') ?? '').trim()
+  if (key) {
+    const known = (env.JAVARI_API_KEYS ?? '').split(',').map(k => k.trim()).filter(Boolean)
+    if (!known.includes(key)) throw new IdentityError('Invalid API key')
+    return { id: keyId(key), kind: 'key' }
+  }
+  const user = headers.get('x-javari-user')?.trim()
+  if (user && env.JAVARI_TRUST_USER_HEADER === '1') {
+    if (!USER_ID.test(user)) throw new IdentityError('Invalid x-javari-user header')
+    return { id: `user:${user}`, kind: 'user' }
+  }
+  return { id: `ip:${clientIp(headers, env)}`, kind: 'ip' }
+}
+
+// Clients can send any x-forwarded-for they like, and each proxy only appends to it, so the leftmost entries
+// are unverified. JAVARI_IP_HEADER names a header the platform sets itself (e.g. x-vercel-forwarded-for,
+// cf-connecting-ip); otherwise the entry JAVARI_TRUSTED_PROXIES (default 1) hops from the right is used —
+// the address our own outermost proxy saw.
+export function clientIp(headers: Headers, env: Record<string, string | undefined> = process.env): string {
+  const named = env.JAVARI_IP_HEADER?.trim()
+  if (named) return headers.get(named)?.split(',')[0]?.trim() || 'unknown'
+  const hops = Math.max(1, Math.floor(Number(env.JAVARI_TRUSTED_PROXIES) || 1))
+  const chain = (headers.get('x-forwarded-for') ?? '').split(',').map(s => s.trim()).filter(Boolean)
+  return chain[Math.max(0, chain.length - hops)] || headers.get('x-real-ip')?.trim() || 'unknown'
+}
@@ -0,0 +1,36 @@
+// lib/isbn.ts — javari-books
+// ISBN-10 / ISBN-13 checksums and normalization (client-safe)
+
+// Strips hyphens, spaces and an "ISBN" prefix; keeps a trailing X
+export function cleanIsbn(s: string): string {
+  return s.toUpperCase().replace(/^ISBN(?:-1[03])?:?/, '').replace(/[\s-]/g, '')
+}
+
+export function isValidIsbn10(s: string): boolean {
+  const d = cleanIsbn(s)
+  if (!/^\d{9}[\dX]$/.test(d)) return false
+  let sum = 0
+  for (let i = 0; i < 10; i++) sum += (d[i] === 'X' ? 10 : Number(d[i])) * (10 - i)
+  return sum % 11 === 0
+}
+
+export function isValidIsbn13(s: string): boolean {
+  const d = cleanIsbn(s)
+  if (!/^97[89]\d{10}$/.test(d)) return false
+  let sum = 0
+  for (let i = 0; i < 13; i++) sum += Number(d[i]) * (i % 2 ? 3 : 1)
+  return sum % 10 === 0
+}
+
+export const isValidIsbn = (s: string) => isValidIsbn10(s) || isValidIsbn13(s)
+
+// Canonical 13-digit form, or undefined when the checksum fails — catalog lookups and de-duplication key on this
+export function toIsbn13(s: string): string | undefined {
+  const d = cleanIsbn(s)
+  if (isValidIsbn13(d)) return d
+  if (!isValidIsbn10(d)) return undefined
+  const body = '978' + d.slice(0, 9)
+  let sum = 0
+  for (let i = 0; i < 12; i++) sum += Number(body[i]) * (i % 2 ? 3 : 1)
+  return body + ((10 - (sum % 10)) % 10)
+}
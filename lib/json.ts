@@ -0,0 +1,15 @@
+// lib/json.ts — javari-books
+// Pulls a JSON value out of model output that may wrap it in prose or ```json fences
+export function extractJSON(text: string): unknown {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text)
+  const body = fenced ? fenced[1] : text
+  // Try the outermost {...} and [...] spans, earliest first
+  const spans = [['{', '}'], ['[', ']']]
+    .map(([open, close]) => [body.indexOf(open), body.lastIndexOf(close)])
+    .filter(([start, end]) => start >= 0 && end > start)
+    .sort((a, b) => a[0] - b[0])
+  for (const [start, end] of spans) {
+    try { return JSON.parse(body.slice(start, end + 1)) } catch { /* next span */ }
+  }
+  return undefined
+}
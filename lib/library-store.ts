@@ -0,0 +1,38 @@
+// lib/library-store.ts — javari-books
+// Loads and saves the caller's reading library — one record per owner (server only)
+import { emptyLibrary, libraryStats, planProgress, type Library } from './library'
+import { ownerOf } from './owner'
+import { getStore } from './storage'
+
+export const libraryStore = () => getStore<Library>('libraries')
+
+// The caller's library, empty if they have none yet; a caller without an owner gets a ready-made 401
+export async function callerLibrary(req: Request): Promise<Library | Response> {
+  const id = ownerOf(req)
+  if (id instanceof Response) return id
+  return (await libraryStore().get(id)) ?? emptyLibrary(id, new Date().toISOString())
+}
+
+// Applies `change` to the freshly read library inside one store operation, so two requests from the same
+// caller (a session logged during an import) can't drop each other's writes. `change` returns the next
+// library, or a Response to answer without writing.
+export async function updateCallerLibrary(req: Request, change: (lib: Library) => Library | Response): Promise<Library | Response> {
+  const id = ownerOf(req)
+  if (id instanceof Response) return id
+  let answer: Response | undefined
+  const saved = await libraryStore().update(id, lib => {
+    const next = change(lib ?? emptyLibrary(id, new Date().toISOString()))
+    if (next instanceof Response) { answer = next; return undefined }
+    return next
+  })
+  return saved ?? answer!
+}
+
+// What the library routes answer with — books, plans with their progress, and shelf/speed stats
+export function libraryView(lib: Library, now = new Date().toISOString()) {
+  return {
+    books: [...lib.books].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)),
+    plans: lib.plans.map(p => ({ ...p, ...planProgress(p, lib, now.slice(0, 10)) })),
+    stats: libraryStats(lib, Number(now.slice(0, 4))),
+  }
+}
@@ -0,0 +1,372 @@
+// lib/library.ts — javari-books
+// Reading tracker — per-identity library of shelved books with ratings, progress, dates and reading sessions;
+// Goodreads / StoryGraph CSV import; reading plans with a schedule; the history fed to the discovery tools.
+// Pure data helpers (client-safe); the API routes own persistence via lib/storage
+import type { BookEntry, CheckedBook } from './book-list'
+import { authorKey, titleKey } from './catalog'
+import { csvRecords } from './csv'
+import { toIsbn13 } from './isbn'
+import type { FieldValues } from './tool-data'
+import type { FieldError } from './validate'
+
+export type Shelf = 'to-read' | 'reading' | 'read' | 'dnf'
+// words, when given, beats the pages estimate for speed
+export type ReadingSession = { id: string; date: string; minutes: number; pages?: number; words?: number }
+export type LibraryBook = {
+  id: string
+  title: string
+  author: string
+  isbn?: string  // ISBN-13
+  year?: number
+  pages?: number
+  shelf: Shelf
+  rating?: number  // 0.25–5 in quarter stars, as StoryGraph allows
+  progress: number  // percent read, 0–100
+  startedAt?: string  // YYYY-MM-DD
+  finishedAt?: string
+  review?: string
+  tags: string[]
+  sessions: ReadingSession[]
+  addedAt: string
+  updatedAt: string
+}
+export type PlanItem = { bookId: string; title: string; author: string; why?: string; pages: number; due: string }
+// wpm is the reading speed the schedule was built with
+export type ReadingPlan = { id: string; title: string; createdAt: string; startDate: string; minutesPerDay: number; wpm: number; items: PlanItem[] }
+// id is the owner id (see lib/owner)
+export type Library = { id: string; books: LibraryBook[]; plans: ReadingPlan[]; createdAt: string; updatedAt: string }
+
+export const SHELVES: Shelf[] = ['to-read', 'reading', 'read', 'dnf']
+export const SHELF_LABELS: Record<Shelf, string> = { 'to-read': 'To read', reading: 'Reading', read: 'Read', dnf: 'Did not finish' }
+export const MAX_LIBRARY_BOOKS = 5000
+export const MAX_SESSIONS = 200
+export const MAX_PLANS = 50
+export const MAX_PLAN_ITEMS = 50
+export const MAX_IMPORT_CHARS = 5000000
+export const WORDS_PER_PAGE = 275
+export const DEFAULT_PAGES = 300
+export const DEFAULT_WPM = 250
+
+export const emptyLibrary = (id: string, now: string): Library => ({ id, books: [], plans: [], createdAt: now, updatedAt: now })
+
+const DATE = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/
+const pad = (n: number) => String(n).padStart(2, '0')
+
+// YYYY-MM-DD from ISO dates and Goodreads / StoryGraph YYYY/MM/DD; undefined when it isn't a real date
+export function normalizeDate(s: string): string | undefined {
+  const m = DATE.exec(s.trim())
+  if (!m) return undefined
+  const d = new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])))
+  return d.getUTCMonth() === Number(m[2]) - 1 ? `${m[1]}-${pad(Number(m[2]))}-${pad(Number(m[3]))}` : undefined
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(date + 'T00:00:00Z')
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+const quarterStars = (n: number) => (n > 0 && n <= 5 ? Math.max(0.25, Math.round(n * 4) / 4) : undefined)
+const bookKeys = (b: { title: string; author: string; isbn?: string }) => [`${titleKey(b.title)}|${authorKey(b.author)}`, ...(b.isbn ? [b.isbn] : [])]
+
+export function findBook(lib: Library, b: { title: string; author: string; isbn?: string }): LibraryBook | undefined {
+  const keys = bookKeys(b)
+  return lib.books.find(x => bookKeys(x).some(k => keys.includes(k)))
+}
+
+export type BookPatch = Partial<Omit<LibraryBook, 'id' | 'sessions' | 'addedAt' | 'updatedAt'>>
+
+// Creating needs a title and author; on update every field is optional and null clears it
+export function parseBookInput(raw: unknown, creating: boolean): { patch: BookPatch; errors: FieldError[] } {
+  const b = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const patch: BookPatch = {}
+  const errors: FieldError[] = []
+  const has = (k: string) => b[k] !== undefined
+  const cleared = (k: string) => b[k] === null || b[k] === ''
+  for (const [k, max] of [['title', 300], ['author', 200]] as const) {
+    if (!has(k) && !creating) continue
+    const v = typeof b[k] === 'string' ? (b[k] as string).trim() : ''
+    if (!v || v.length > max) errors.push({ field: k, message: `${k} is required, at most ${max} characters` })
+    else patch[k] = v
+  }
+  if (has('isbn')) {
+    const isbn = cleared('isbn') ? undefined : toIsbn13(String(b.isbn))
+    if (!cleared('isbn') && !isbn) errors.push({ field: 'isbn', message: 'isbn must be a valid ISBN-10 or ISBN-13' })
+    else patch.isbn = isbn
+  }
+  for (const [k, lo, hi] of [['year', 1, 9999], ['pages', 1, 20000]] as const) {
+    if (!has(k)) continue
+    const n = Number(b[k])
+    if (cleared(k)) patch[k] = undefined
+    else if (!Number.isInteger(n) || n < lo || n > hi) errors.push({ field: k, message: `${k} must be a whole number from ${lo} to ${hi}` })
+    else patch[k] = n
+  }
+  if (has('shelf')) {
+    if (!SHELVES.includes(b.shelf as Shelf)) errors.push({ field: 'shelf', message: `shelf must be one of: ${SHELVES.join(', ')}` })
+    else patch.shelf = b.shelf as Shelf
+  } else if (creating) patch.shelf = 'to-read'
+  if (has('rating')) {
+    const r = quarterStars(Number(b.rating))
+    if (!cleared('rating') && !r) errors.push({ field: 'rating', message: 'rating must be from 0.25 to 5 stars' })
+    else patch.rating = r
+  }
+  if (has('progress')) {
+    const p = Number(b.progress)
+    if (!(p >= 0 && p <= 100)) errors.push({ field: 'progress', message: 'progress must be a percentage from 0 to 100' })
+    else patch.progress = Math.round(p)
+  }
+  for (const k of ['startedAt', 'finishedAt'] as const) {
+    if (!has(k)) continue
+    const d = cleared(k) ? undefined : typeof b[k] === 'string' ? normalizeDate(b[k] as string) : undefined
+    if (!cleared(k) && !d) errors.push({ field: k, message: `${k} must be a date (YYYY-MM-DD)` })
+    else patch[k] = d
+  }
+  if (patch.startedAt && patch.finishedAt && patch.finishedAt < patch.startedAt) errors.push({ field: 'finishedAt', message: 'finishedAt is before startedAt' })
+  if (has('review')) {
+    if (b.review !== null && (typeof b.review !== 'string' || b.review.length > 10000)) errors.push({ field: 'review', message: 'review must be text of at most 10000 characters' })
+    else patch.review = (b.review as string | null)?.trim() || undefined
+  }
+  if (has('tags')) {
+    if (!Array.isArray(b.tags) || b.tags.length > 20 || b.tags.some(t => typeof t !== 'string' || t.length > 60)) errors.push({ field: 'tags', message: 'tags must be a list of at most 20 short labels' })
+    else patch.tags = (b.tags as string[]).map(t => t.trim()).filter(Boolean)
+  }
+  return { patch, errors }
+}
+
+// Moving shelves fills in what the move implies — a start date, or a finish date and 100% — unless the patch sets it
+export function applyBookPatch(book: LibraryBook, patch: BookPatch, now: string): LibraryBook {
+  const next: LibraryBook = { ...book, ...patch, updatedAt: now }
+  const today = now.slice(0, 10)
+  if (patch.shelf && patch.shelf !== book.shelf) {
+    if (patch.shelf === 'reading' && !('startedAt' in patch) && !next.startedAt) next.startedAt = today
+    if (patch.shelf === 'read') {
+      if (!('finishedAt' in patch) && !next.finishedAt) next.finishedAt = today
+      if (!('progress' in patch)) next.progress = 100
+    }
+  }
+  return next
+}
+
+export function newBook(patch: BookPatch, now: string): LibraryBook {
+  const base: LibraryBook = { id: crypto.randomUUID(), title: '', author: '', shelf: 'to-read', progress: 0, tags: [], sessions: [], addedAt: now, updatedAt: now }
+  return applyBookPatch(base, patch, now)
+}
+
+export function parseSessionInput(raw: unknown, today: string): { session?: Omit<ReadingSession, 'id'>; errors: FieldError[] } {
+  const b = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const errors: FieldError[] = []
+  const minutes = Number(b.minutes)
+  if (!(minutes > 0 && minutes <= 1440)) errors.push({ field: 'minutes', message: 'minutes must be from 1 to 1440' })
+  const opt = (k: 'pages' | 'words', hi: number) => {
+    if (b[k] === undefined || b[k] === null || b[k] === '') return undefined
+    const n = Number(b[k])
+    if (!Number.isInteger(n) || n < 1 || n > hi) { errors.push({ field: k, message: `${k} must be a whole number from 1 to ${hi}` }); return undefined }
+    return n
+  }
+  const pages = opt('pages', 2000), words = opt('words', 500000)
+  const date = b.date === undefined ? today : typeof b.date === 'string' ? normalizeDate(b.date) : undefined
+  if (!date) errors.push({ field: 'date', message: 'date must be a date (YYYY-MM-DD)' })
+  if (errors.length) return { errors }
+  return { session: { date: date!, minutes: Math.round(minutes), ...(pages ? { pages } : {}), ...(words ? { words } : {}) }, errors }
+}
+
+// Pages read move progress along when the book's length is known; a to-read book moves to reading
+export function addSession(book: LibraryBook, s: Omit<ReadingSession, 'id'>, now: string): LibraryBook {
+  const sessions = [...book.sessions, { id: crypto.randomUUID(), ...s }].slice(-MAX_SESSIONS)
+  const progress = s.pages && book.pages ? Math.min(100, Math.round(book.progress + (s.pages / book.pages) * 100)) : book.progress
+  const next = { ...book, sessions, progress, updatedAt: now }
+  return book.shelf === 'to-read' ? applyBookPatch(next, { shelf: 'reading', ...(book.startedAt ? {} : { startedAt: s.date }) }, now) : next
+}
+
+export function sessionWpm(s: ReadingSession): number | undefined {
+  const words = s.words ?? (s.pages ? s.pages * WORDS_PER_PAGE : 0)
+  return words ? Math.round(words / s.minutes) : undefined
+}
+
+// Median over every logged session, so one distracted evening doesn't skew it
+export function readingSpeed(lib: Library): number | undefined {
+  const all = lib.books.reduce<number[]>((a, b) => a.concat(b.sessions.map(sessionWpm).filter((n): n is number => !!n)), []).sort((a, b) => a - b)
+  if (!all.length) return undefined
+  const mid = Math.floor(all.length / 2)
+  return all.length % 2 ? all[mid] : Math.round((all[mid - 1] + all[mid]) / 2)
+}
+
+export function libraryStats(lib: Library, year = new Date().getUTCFullYear()) {
+  const shelves = { 'to-read': 0, reading: 0, read: 0, dnf: 0 } as Record<Shelf, number>
+  for (const b of lib.books) shelves[b.shelf]++
+  const rated = lib.books.filter(b => b.rating)
+  return {
+    shelves,
+    readThisYear: lib.books.filter(b => b.shelf === 'read' && b.finishedAt?.startsWith(String(year))).length,
+    averageRating: rated.length ? Math.round((rated.reduce((n, b) => n + b.rating!, 0) / rated.length) * 100) / 100 : undefined,
+    sessions: lib.books.reduce((n, b) => n + b.sessions.length, 0),
+    wpm: readingSpeed(lib),
+  }
+}
+
+const byLine = (b: LibraryBook) => `"${b.title}" by ${b.author}${b.rating ? ` (${b.rating}★)` : ''}`
+const recent = (a: LibraryBook, b: LibraryBook) => (b.finishedAt ?? b.updatedAt).localeCompare(a.finishedAt ?? a.updatedAt)
+
+// What the discovery prompts see of a reader — best-rated first, then recent reads, abandons, current reads
+export function historyText(lib: Library): string {
+  const read = lib.books.filter(b => b.shelf === 'read')
+  const loved = read.filter(b => (b.rating ?? 0) >= 4).sort((a, b) => b.rating! - a.rating! || recent(a, b)).slice(0, 15)
+  const other = read.filter(b => !loved.includes(b)).sort(recent).slice(0, 15)
+  const sections: [string, LibraryBook[]][] = [
+    ['Rated highly', loved], ['Also read', other],
+    ['Did not finish', lib.books.filter(b => b.shelf === 'dnf').sort(recent).slice(0, 10)],
+    ['Reading now', lib.books.filter(b => b.shelf === 'reading').slice(0, 5)],
+  ]
+  return sections.filter(([, bs]) => bs.length).map(([label, bs]) => `${label}: ${bs.map(byLine).join('; ')}`).join('\n')
+}
+
+// Extra prompt values for tool-data actions flagged `library`; added server-side after validation, never from the client
+export function libraryValues(lib: Library): FieldValues {
+  const history = historyText(lib), wpm = readingSpeed(lib)
+  return { ...(history ? { history } : {}), ...(wpm ? { readWpm: String(wpm) } : {}) }
+}
+
+// Suggestions the reader has already read, is reading or abandoned are rejected, so regeneration replaces them
+export function excludeShelved(books: CheckedBook[], lib: Library): CheckedBook[] {
+  return books.map(b => {
+    const have = b.status !== 'rejected' && findBook(lib, b)
+    return have && have.shelf !== 'to-read' ? { ...b, status: 'rejected', reasons: [`already on your ${SHELF_LABELS[have.shelf].toLowerCase()} shelf`] } : b
+  })
+}
+
+// ── CSV import ──
+
+export type ImportFormat = 'goodreads' | 'storygraph'
+export type ImportedBook = BookPatch & { title: string; author: string; shelf: Shelf; addedAt?: string }
+
+function shelfFrom(status: string, shelves = ''): Shelf {
+  const s = `${status},${shelves}`.toLowerCase()
+  if (/did-?not-?finish|\bdnf\b|abandon/.test(s)) return 'dnf'
+  if (/^currently-reading/.test(status.toLowerCase())) return 'reading'
+  if (/^read$/.test(status.toLowerCase())) return 'read'
+  return 'to-read'
+}
+
+// Goodreads wraps ISBNs as ="0441013597"; StoryGraph's ISBN/UID column also holds non-ISBN ids
+const isbnCell = (...cells: string[]) => cells.map(c => toIsbn13(c.replace(/^="?|"$/g, ''))).find(Boolean)
+const int = (s: string) => (/^\d+$/.test(s) && Number(s) > 0 ? Number(s) : undefined)
+
+function fromGoodreads(r: Record<string, string>): ImportedBook {
+  const shelves = r['Bookshelves'] ?? ''
+  return {
+    title: r['Title'], author: r['Author'], shelf: shelfFrom(r['Exclusive Shelf'] ?? '', shelves),
+    isbn: isbnCell(r['ISBN13'] ?? '', r['ISBN'] ?? ''), pages: int(r['Number of Pages'] ?? ''),
+    year: int(r['Original Publication Year'] ?? '') ?? int(r['Year Published'] ?? ''),
+    rating: quarterStars(Number(r['My Rating'])), finishedAt: normalizeDate(r['Date Read'] ?? ''), addedAt: normalizeDate(r['Date Added'] ?? ''),
+    review: r['My Review']?.replace(/<br\s*\/?>/gi, '\n').trim() || undefined,
+    tags: shelves.split(',').map(s => s.trim()).filter(s => s && s !== r['Exclusive Shelf']).slice(0, 20),
+  }
+}
+
+function fromStoryGraph(r: Record<string, string>): ImportedBook {
+  const [started, finished] = (r['Dates Read'] ?? '').split(',').pop()!.split('-').map(s => normalizeDate(s))
+  return {
+    title: r['Title'], author: (r['Authors'] ?? '').split(',')[0].trim(), shelf: shelfFrom(r['Read Status'] ?? ''),
+    isbn: isbnCell(r['ISBN/UID'] ?? ''), rating: quarterStars(Number(r['Star Rating'])),
+    startedAt: started, finishedAt: finished ?? normalizeDate(r['Last Date Read'] ?? ''), addedAt: normalizeDate(r['Date Added'] ?? ''),
+    review: r['Review']?.trim() || undefined,
+    tags: (r['Tags'] ?? '').split(',').map(s => s.trim()).filter(Boolean).slice(0, 20),
+  }
+}
+
+// The export format is recognized from its header row
+export function parseLibraryCsv(text: string): { format?: ImportFormat; books: ImportedBook[]; errors: string[] } {
+  const rows = csvRecords(text)
+  if (!rows.length) return { books: [], errors: ['the file has no rows'] }
+  const format: ImportFormat | undefined = 'Exclusive Shelf' in rows[0] ? 'goodreads' : 'Read Status' in rows[0] ? 'storygraph' : undefined
+  if (!format) return { books: [], errors: ['not a Goodreads or StoryGraph export (no "Exclusive Shelf" or "Read Status" column)'] }
+  const books: ImportedBook[] = [], errors: string[] = []
+  rows.forEach((r, i) => {
+    const b = format === 'goodreads' ? fromGoodreads(r) : fromStoryGraph(r)
+    if (!b.title || !b.author) { errors.push(`row ${i + 2}: missing title or author`); return }
+    books.push({ ...b, title: b.title.slice(0, 300), author: b.author.slice(0, 200) })
+  })
+  return { format, books, errors }
+}
+
+// A book already in the library is updated from the file (its sessions stay); new ones are added.
+// Dates the file doesn't have stay unknown rather than defaulting to today.
+export function mergeImport(lib: Library, imported: ImportedBook[], now: string): { library: Library; added: number; updated: number; skipped: number } {
+  const books = [...lib.books]
+  let added = 0, updated = 0, skipped = 0
+  for (const { addedAt, ...b } of imported) {
+    const i = books.findIndex(x => bookKeys(x).some(k => bookKeys(b).includes(k)))
+    const patch = Object.fromEntries(Object.entries(b).filter(([, v]) => v !== undefined)) as BookPatch
+    patch.startedAt = b.startedAt ?? books[i]?.startedAt
+    patch.finishedAt = b.finishedAt ?? books[i]?.finishedAt
+    if (i >= 0) { books[i] = applyBookPatch(books[i], patch, now); updated++; continue }
+    if (books.length >= MAX_LIBRARY_BOOKS) { skipped++; continue }
+    books.push({ ...newBook(patch, now), ...(addedAt ? { addedAt } : {}) })
+    added++
+  }
+  return { library: { ...lib, books, updatedAt: now }, added, updated, skipped }
+}
+
+// ── Reading plans ──
+
+export type PlanInput = { title: string; startDate: string; minutesPerDay: number; books: Array<Pick<BookEntry, 'title' | 'author' | 'isbn'> & { why?: string; pages?: number }> }
+
+export function parsePlanInput(raw: unknown, today: string): { input?: PlanInput; errors: FieldError[] } {
+  const b = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const errors: FieldError[] = []
+  const title = typeof b.title === 'string' ? b.title.trim() : ''
+  if (!title || title.length > 200) errors.push({ field: 'title', message: 'title is required, at most 200 characters' })
+  const startDate = b.startDate === undefined ? today : typeof b.startDate === 'string' ? normalizeDate(b.startDate) : undefined
+  if (!startDate) errors.push({ field: 'startDate', message: 'startDate must be a date (YYYY-MM-DD)' })
+  const minutesPerDay = b.minutesPerDay === undefined ? 30 : Number(b.minutesPerDay)
+  if (!(Number.isInteger(minutesPerDay) && minutesPerDay >= 5 && minutesPerDay <= 600)) errors.push({ field: 'minutesPerDay', message: 'minutesPerDay must be a whole number from 5 to 600' })
+  const list = Array.isArray(b.books) ? b.books as Array<Record<string, unknown>> : []
+  if (!list.length || list.length > MAX_PLAN_ITEMS) errors.push({ field: 'books', message: `books must list 1 to ${MAX_PLAN_ITEMS} books` })
+  const books: PlanInput['books'] = []
+  list.slice(0, MAX_PLAN_ITEMS).forEach((x, i) => {
+    const { patch, errors: e } = parseBookInput({ title: x?.title, author: x?.author, ...(x?.isbn ? { isbn: x.isbn } : {}), ...(x?.pages ? { pages: x.pages } : {}) }, true)
+    if (e.length) { errors.push(...e.map(f => ({ field: `books[${i}].${f.field}`, message: f.message }))); return }
+    books.push({ title: patch.title!, author: patch.author!, isbn: patch.isbn, pages: patch.pages, why: typeof x.why === 'string' ? x.why.trim().slice(0, 1000) || undefined : undefined })
+  })
+  if (errors.length) return { errors }
+  return { input: { title, startDate: startDate!, minutesPerDay, books }, errors }
+}
+
+// Each book is due once the pages before it and its own fit into the daily reading time at the given speed
+export function scheduleItems(items: Array<Omit<PlanItem, 'due'>>, startDate: string, minutesPerDay: number, wpm: number): PlanItem[] {
+  const pagesPerDay = Math.max(1, (minutesPerDay * wpm) / WORDS_PER_PAGE)
+  let pages = 0
+  return items.map(it => {
+    pages += it.pages
+    return { ...it, due: addDays(startDate, Math.max(1, Math.ceil(pages / pagesPerDay)) - 1) }
+  })
+}
+
+// Books not yet in the library join the to-read shelf, so the plan's progress follows the shelves
+export function createPlan(lib: Library, input: PlanInput, now: string): { library: Library; plan: ReadingPlan } {
+  let library = lib
+  const items = input.books.map(b => {
+    let book = findBook(library, b)
+    if (!book) {
+      book = newBook({ title: b.title, author: b.author, ...(b.isbn ? { isbn: b.isbn } : {}), ...(b.pages ? { pages: b.pages } : {}) }, now)
+      library = { ...library, books: [...library.books, book] }
+    }
+    return { bookId: book.id, title: book.title, author: book.author, ...(b.why ? { why: b.why } : {}), pages: book.pages ?? b.pages ?? DEFAULT_PAGES }
+  })
+  const wpm = readingSpeed(lib) ?? DEFAULT_WPM
+  const plan: ReadingPlan = { id: crypto.randomUUID(), title: input.title, createdAt: now, startDate: input.startDate, minutesPerDay: input.minutesPerDay, wpm, items: scheduleItems(items, input.startDate, input.minutesPerDay, wpm) }
+  return { library: { ...library, plans: [...library.plans, plan].slice(-MAX_PLANS), updatedAt: now }, plan }
+}
+
+export type PlanItemStatus = 'done' | 'reading' | 'overdue' | 'upcoming'
+export type PlanProgress = { items: Array<PlanItem & { status: PlanItemStatus; progress: number }>; done: number; total: number; overdue: number; percent: number }
+
+export function planProgress(plan: ReadingPlan, lib: Library, today: string): PlanProgress {
+  const items = plan.items.map(it => {
+    const book = lib.books.find(b => b.id === it.bookId)
+    const status: PlanItemStatus = book?.shelf === 'read' ? 'done' : it.due < today ? 'overdue' : book?.shelf === 'reading' ? 'reading' : 'upcoming'
+    return { ...it, status, progress: book?.shelf === 'read' ? 100 : book?.progress ?? 0 }
+  })
+  const done = items.filter(i => i.status === 'done').length
+  return { items, done, total: items.length, overdue: items.filter(i => i.status === 'overdue').length, percent: items.length ? Math.round((done / items.length) * 100) : 0 }
+}
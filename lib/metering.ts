@@ -0,0 +1,77 @@
+// lib/metering.ts — javari-books
+// Gate for the AI routes — identify the caller, apply the rate limit, charge credits up front and refund
+// them if the generation fails (server only)
+import { NextResponse } from 'next/server'
+import { CancelledError } from './ai'
+import { getCreditStore } from './credits'
+import { identify, IdentityError, type Identity } from './identity'
+import { getRateLimiter, type RateLimiter } from './rate-limit'
+
+export type Meter = {
+  identity: Identity
+  cost: number
+  balance: number
+  // Idempotent; returns the balance after the refund
+  refund(): Promise<number>
+  // Refunds when the wrapped generation fails for any reason but the caller cancelling, then rethrows
+  guard<T>(work: Promise<T>): Promise<T>
+  // Adds X-Credits-Cost / X-Credits-Remaining to a successful response
+  headers<R extends Response>(res: R): R
+}
+
+function caller(req: Request): Identity | Response {
+  try { return identify(req.headers) } catch (e) {
+    if (e instanceof IdentityError) return NextResponse.json({ error: e.message }, { status: 401 })
+    throw e
+  }
+}
+
+// The rate limit alone, for free routes that still cost real CPU; a ready-made 401/429 response when refused
+export function throttle(req: Request, limiter: RateLimiter): Response | undefined {
+  const identity = caller(req)
+  if (identity instanceof Response) return identity
+  const rate = limiter.hit(identity.id)
+  if (rate.ok) return undefined
+  const retryAfter = Math.ceil(rate.retryAfterMs / 1000)
+  return NextResponse.json({ error: 'Rate limit exceeded', retryAfter }, { status: 429, headers: { 'Retry-After': String(retryAfter) } })
+}
+
+// Returns a ready-made 401/402/429 response when the request may not proceed
+export async function meter(req: Request, cost: number, action: string): Promise<Meter | Response> {
+  const identity = caller(req)
+  if (identity instanceof Response) return identity
+  const credits = getCreditStore()
+  const rate = getRateLimiter().hit(identity.id)
+  if (!rate.ok) {
+    const retryAfter = Math.ceil(rate.retryAfterMs / 1000)
+    return NextResponse.json({ error: 'Rate limit exceeded', balance: await credits.balance(identity.id), retryAfter },
+      { status: 429, headers: { 'Retry-After': String(retryAfter) } })
+  }
+  const r = await credits.charge(identity.id, cost, action)
+  if (!r.ok) return NextResponse.json({ error: 'Insufficient credits', balance: r.balance, cost }, { status: 402 })
+
+  let balance = r.balance
+  let refunded = false
+  const m: Meter = {
+    identity, cost,
+    get balance() { return balance },
+    async refund() {
+      if (!refunded) { refunded = true; balance = (await credits.refund(r.charge.id)) ?? balance }
+      return balance
+    },
+    async guard(work) {
+      try { return await work } catch (e) {
+        // A misconfigured chain, a storage failure or a bug is no more the caller's fault than a provider outage;
+        // only a cancelled stream, which the caller chose to stop, keeps the charge
+        if (!(e instanceof CancelledError)) await m.refund()
+        throw e
+      }
+    },
+    headers(res) {
+      res.headers.set('X-Credits-Cost', String(cost))
+      res.headers.set('X-Credits-Remaining', String(balance))
+      return res
+    },
+  }
+  return m
+}
@@ -0,0 +1,165 @@
+// lib/mock-provider.ts — javari-books
+// Deterministic offline provider — same prompt in, same text out, no network or keys
+import { FIXTURE_BOOKS } from './catalog'
+import type { CompletionRequest } from './providers'
+import { PASSAGE_END, PASSAGE_START } from './revise'
+
+// FNV-1a over the whole conversation, so follow-up turns change the output
+export function hashText(s: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < s.length; i++) { h ^= s.charCodeAt(i); h = Math.imul(h, 0x01000193) >>> 0 }
+  return h >>> 0
+}
+
+// mulberry32 — tiny seeded PRNG
+export function seeded(seed: number): () => number {
+  let a = seed
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const SUBJECTS = ['The lighthouse keeper', 'Mara', 'The old archivist', 'A stranger in grey', 'The captain', 'Her brother', 'The city']
+const VERBS = ['watched', 'remembered', 'crossed', 'ignored', 'followed', 'carried', 'questioned']
+const OBJECTS = ['the harbor lights', 'a folded letter', 'the narrow stairwell', 'the storm front', 'an unfinished map', 'the silence between them']
+const CODAS = ['before the tide turned', 'without a word', 'as the bells began', 'long after midnight', 'and did not look back', 'until the lamps went out']
+
+export function mockProse(seed: number, words: number): string {
+  const rand = seeded(seed)
+  const pick = (xs: string[]) => xs[Math.floor(rand() * xs.length)]
+  const paragraphs: string[] = []
+  let count = 0, sentences: string[] = []
+  while (count < words) {
+    const s = `${pick(SUBJECTS)} ${pick(VERBS)} ${pick(OBJECTS)} ${pick(CODAS)}.`
+    sentences.push(s); count += s.split(' ').length
+    if (sentences.length >= 5) { paragraphs.push(sentences.join(' ')); sentences = [] }
+  }
+  if (sentences.length) paragraphs.push(sentences.join(' '))
+  return paragraphs.join('\n\n')
+}
+
+const TITLE_WORDS = ['Tide', 'Ashes', 'Lantern', 'Crossing', 'Ledger', 'Orchard', 'Signal', 'Harbor', 'Winter', 'Glass']
+
+const line = (text: string, label: string) => new RegExp(`^${label}:\\s*(.*)$`, 'mi').exec(text)?.[1]?.trim() ?? ''
+
+// Fresh outlines follow the prompt's settings; refinements echo the previous outline with the instruction applied to every hook
+function mockOutline(req: CompletionRequest, seed: number): string {
+  const users = req.messages.filter(m => m.role === 'user')
+  const prior = [...req.messages].reverse().find(m => m.role === 'assistant')
+  if (prior && users.length > 1) {
+    try {
+      const o = JSON.parse(prior.content)
+      const note = users[users.length - 1].content.split('\n')[0].slice(0, 60)
+      for (const c of o.chapters ?? []) c.hook = `${c.hook} (${note})`
+      return JSON.stringify(o)
+    } catch { /* fall through to a fresh outline */ }
+  }
+  const prompt = users[0]?.content ?? ''
+  const rand = seeded(seed)
+  const count = Math.min(40, Math.max(1, Number(line(prompt, 'Chapters')) || 10))
+  const chapters = Array.from({ length: count }, (_, i) => ({
+    number: i + 1,
+    title: `The ${TITLE_WORDS[Math.floor(rand() * TITLE_WORDS.length)]} ${['Rises', 'Breaks', 'Returns', 'Burns', 'Waits'][i % 5]}`,
+    targetWords: 1500 + Math.floor(rand() * 4) * 500,
+    scenes: [1, 2, 3].map(n => mockProse(seed + i * 7 + n, 10).split('.')[0] + '.'),
+    beats: [mockProse(seed + i * 11, 10).split('.')[0] + '.'],
+    hook: mockProse(seed + i * 13, 10).split('.')[0] + '?',
+  }))
+  return JSON.stringify({
+    book: { title: line(prompt, 'Title') || 'Untitled', genre: /for an? (.+?) book/i.exec(prompt)?.[1] ?? 'Fiction', premise: line(prompt, 'Premise'), pov: line(prompt, 'POV'), tone: line(prompt, 'Tone'), logline: mockProse(seed, 12).split('.')[0] + '.' },
+    chapters,
+  })
+}
+
+const STOP = new Set(['The', 'A', 'An', 'Her', 'His', 'It', 'She', 'He', 'They', 'Chapter', 'I', 'We', 'You'])
+
+// Summarizes with the chapter's opening sentences; capitalized names the bible doesn't mention become new characters
+function mockContinuity(req: CompletionRequest): string {
+  const prompt = req.messages.filter(m => m.role === 'user').pop()?.content ?? ''
+  const bible = /STORY BIBLE\n([\s\S]*?)\n\nCHAPTER \d+\n/.exec(prompt)?.[1] ?? ''
+  const n = Number(/CHAPTER (\d+)\n/.exec(prompt)?.[1] ?? 1)
+  const text = /CHAPTER \d+\n([\s\S]*?)\n\nList only facts/.exec(prompt)?.[1] ?? ''
+  const sentences = text.match(/[^.!?]+[.!?]/g) ?? [text]
+  const names: string[] = []
+  for (const w of text.match(/\b[A-Z][a-z]{2,}\b/g) ?? []) {
+    if (!STOP.has(w) && !bible.includes(w) && !names.includes(w)) names.push(w)
+  }
+  return JSON.stringify({
+    summary: sentences.slice(0, 2).map(x => x.trim()).join(' ') || `Chapter ${n}.`,
+    facts: { characters: names.slice(0, 3).map(name => ({ name, role: '', description: `Appears in chapter ${n}.` })), locations: [], timeline: [{ chapter: n, event: (sentences[0] ?? '').trim() }], glossary: [] },
+    contradictions: [],
+  })
+}
+
+// Real books from the fixture catalog, authors named in the request first. The first list also carries one
+// invented title with a bad ISBN so the rejection path runs; a replacement turn skips titles already given.
+function mockBooks(req: CompletionRequest, seed: number): string {
+  const users = req.messages.filter(m => m.role === 'user')
+  const ask = (users[0]?.content ?? '').toLowerCase()
+  const count = Math.min(50, Math.max(1, Number(/exactly (\d+)/.exec(users[users.length - 1]?.content ?? '')?.[1]) || 8))
+  const given = req.messages.filter(m => m.role === 'assistant').map(m => m.content).join('\n')
+  const rand = seeded(seed)
+  const pool = FIXTURE_BOOKS.filter(b => !given.includes(JSON.stringify(b.title)))
+  for (let i = pool.length - 1; i > 0; i--) { const j = Math.floor(rand() * (i + 1)); const t = pool[i]; pool[i] = pool[j]; pool[j] = t }
+  pool.sort((a, b) => Number(b.authors.some(n => ask.includes(n.toLowerCase()))) - Number(a.authors.some(n => ask.includes(n.toLowerCase()))))
+  const invent = users.length === 1 && count > 1
+  const books = pool.slice(0, invent ? count - 1 : count).map((b, i) => ({
+    title: b.title, author: b.authors[0], year: b.year ?? null, isbn: b.isbns[0] ?? null,
+    description: mockProse(seed + i * 17 + 1, 16).split('.')[0] + '.', why: mockProse(seed + i * 19 + 2, 12).split('.')[0] + '.',
+  }))
+  if (invent) books.push({ title: `The ${TITLE_WORDS[Math.floor(rand() * TITLE_WORDS.length)]} Archive`, author: 'Imogen Vale', year: 2019, isbn: '978-0-00-000000-1', description: 'A novel that does not exist.', why: 'Invented by the mock provider.' })
+  return JSON.stringify({ summary: users.length === 1 ? mockProse(seed, 40) : '', books })
+}
+
+// Rewrites only the marked passage, paragraph by paragraph: some sentences are swapped for fresh prose,
+// "tighten" drops every third one and "first person" swaps the pronouns, so the diff has something to show
+function mockRevise(req: CompletionRequest, seed: number): string {
+  const prompt = req.messages.filter(m => m.role === 'user').pop()?.content ?? ''
+  const passage = prompt.slice(prompt.lastIndexOf(PASSAGE_START) + PASSAGE_START.length, prompt.lastIndexOf(PASSAGE_END))
+  const instruction = (line(prompt, 'Instruction') || '').toLowerCase()
+  const rand = seeded(seed)
+  return passage.split(/(\n\s*\n)/).map((para, p) => {
+    if (p % 2) return para
+    const sentences = para.match(/[^.!?]+[.!?]*\s*/g) ?? [para]
+    return sentences.filter((_, i) => !instruction.includes('tighten') || i % 3 !== 2).map(x => {
+      let out = rand() < 0.3 ? mockProse(Math.floor(rand() * 1e9), 8).split('. ')[0].replace(/\.?$/, '.') + (/\s*$/.exec(x)?.[0] ?? '') : x
+      if (instruction.includes('first person')) out = out.replace(/\b(?:she|he)\b/g, 'I').replace(/\b(?:She|He)\b/g, 'I').replace(/\b(?:her|his)\b/g, 'my').replace(/\b(?:Her|His)\b/g, 'My')
+      return out
+    }).join('').replace(/\s+$/, '')
+  }).join('').trim()
+}
+
+// Task-specific builders return output in the shape the calling feature parses
+export const MOCK_TASKS: Record<string, (req: CompletionRequest, seed: number) => string> = {
+  outline: mockOutline,
+  continuity: mockContinuity,
+  books: mockBooks,
+  revise: mockRevise,
+}
+
+export function mockComplete(req: CompletionRequest): string {
+  const seed = hashText(req.messages.map(m => m.role + ':' + m.content).join('\n'))
+  const task = req.task && MOCK_TASKS[req.task]
+  if (task) return task(req, seed)
+  const last = [...req.messages].reverse().find(m => m.role === 'user')?.content ?? ''
+  const target = /(\d{2,5})\s*words/i.exec(last)
+  const words = Math.min(6000, Math.max(60, target ? Number(target[1]) : 180))
+  const heading = last.split('\n')[0].slice(0, 80)
+  return `[mock ${seed.toString(16)}] ${heading}\n\n${mockProse(seed, words)}`
+}
+
+// Emits the same text as mockComplete, a word at a time
+export async function mockStream(req: CompletionRequest, signal: AbortSignal, onDelta: (t: string) => void, delayMs: number): Promise<string> {
+  const text = mockComplete(req)
+  const parts = text.match(/\S+\s*/g) ?? []
+  for (const part of parts) {
+    if (signal.aborted) throw new Error('aborted')
+    if (delayMs) await new Promise(r => setTimeout(r, delayMs))
+    onDelta(part)
+  }
+  return text
+}
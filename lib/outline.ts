@@ -0,0 +1,88 @@
+// lib/outline.ts — javari-books
+// Structured book outlines — schema, prompt, validation and Markdown rendering (client-safe)
+import type { Field } from './tool-data'
+
+export type OutlineBook = { title: string; genre: string; premise: string; pov: string; tone: string; logline: string }
+export type OutlineChapter = { number: number; title: string; targetWords: number; scenes: string[]; beats: string[]; hook: string }
+export type Outline = { book: OutlineBook; chapters: OutlineChapter[] }
+export type OutlineSettings = { title: string; premise: string; genre: string; pov: string; tone: string; chapters: number }
+
+export const OUTLINE_FIELDS: Field[] = [
+  { id: 'title', label: 'Book Title', placeholder: 'Optional', maxLength: 200 },
+  { id: 'premise', label: 'Premise', placeholder: 'Your story premise...', required: true, maxLength: 4000 },
+  { id: 'genre', label: 'Genre', placeholder: 'Fiction', maxLength: 60 },
+  { id: 'pov', label: 'POV', placeholder: 'Third Person Limited', maxLength: 60 },
+  { id: 'tone', label: 'Tone', placeholder: 'Literary', maxLength: 60 },
+  { id: 'chapters', label: 'Chapters', placeholder: '10', type: 'number', min: 1, max: 40 },
+]
+
+// Handed from the home page's quick outline to the writer
+export const OUTLINE_DRAFT_KEY = 'javari-books:outline-draft'
+
+export const OUTLINE_SHAPE = `{
+  "book": { "title": string, "genre": string, "premise": string, "pov": string, "tone": string, "logline": string },
+  "chapters": [
+    { "number": 1, "title": string, "targetWords": number, "scenes": [string, ...], "beats": [string, ...], "hook": string }
+  ]
+}`
+
+export function outlinePrompt(s: OutlineSettings): string {
+  return `Create a detailed ${s.chapters}-chapter outline for a ${s.genre} book.
+Title: ${s.title || 'Untitled'}
+Premise: ${s.premise}
+POV: ${s.pov}
+Tone: ${s.tone}
+Chapters: ${s.chapters}
+
+For each chapter provide a title, a word count target, 3-4 key scenes, character development beats, and a chapter-ending hook.
+Make it compelling and commercially viable.
+
+Respond with JSON only — no commentary, no code fences — matching exactly this shape:
+${OUTLINE_SHAPE}`
+}
+
+const str = (v: unknown) => (typeof v === 'string' ? v.trim() : '')
+const strList = (v: unknown) => (Array.isArray(v) ? v.map(str).filter(Boolean) : [])
+
+// Book fields the model leaves out fall back to the author's settings; chapter fields are required.
+// `expectedChapters` is the count the author asked for — a shorter or longer outline is an error to repair.
+export function validateOutline(raw: unknown, fallback: Partial<OutlineBook> = {}, expectedChapters?: number): { outline?: Outline; errors: string[] } {
+  const errors: string[] = []
+  if (!raw || typeof raw !== 'object') return { errors: ['response is not a JSON object'] }
+  const r = raw as { book?: Record<string, unknown>; chapters?: unknown }
+  const b = r.book && typeof r.book === 'object' ? r.book : {}
+  const book: OutlineBook = {
+    title: str(b.title) || fallback.title || 'Untitled', genre: str(b.genre) || fallback.genre || '',
+    premise: str(b.premise) || fallback.premise || '', pov: str(b.pov) || fallback.pov || '',
+    tone: str(b.tone) || fallback.tone || '', logline: str(b.logline),
+  }
+  if (!Array.isArray(r.chapters) || r.chapters.length === 0) return { errors: ['"chapters" must be a non-empty array'] }
+  const chapters: OutlineChapter[] = []
+  r.chapters.forEach((c: Record<string, unknown>, i: number) => {
+    const at = `chapters[${i}]`
+    if (!c || typeof c !== 'object') { errors.push(`${at} must be an object`); return }
+    const title = str(c.title)
+    const targetWords = Math.round(Number(c.targetWords))
+    const scenes = strList(c.scenes), beats = strList(c.beats), hook = str(c.hook)
+    if (!title) errors.push(`${at}.title is required`)
+    if (!(targetWords > 0)) errors.push(`${at}.targetWords must be a positive number`)
+    if (!scenes.length) errors.push(`${at}.scenes must list at least one scene`)
+    if (!Array.isArray(c.beats)) errors.push(`${at}.beats must be an array`)
+    if (!hook) errors.push(`${at}.hook is required`)
+    chapters.push({ number: i + 1, title, targetWords, scenes, beats, hook })
+  })
+  if (expectedChapters && chapters.length !== expectedChapters) errors.push(`"chapters" must have exactly ${expectedChapters} entries, not ${chapters.length}`)
+  return errors.length ? { errors } : { outline: { book, chapters }, errors }
+}
+
+export function outlineToMarkdown(o: Outline): string {
+  const meta = [o.book.genre, o.book.pov, o.book.tone].filter(Boolean).join(' · ')
+  const head = [`# ${o.book.title}`, meta && `*${meta}*`, o.book.logline && `> ${o.book.logline}`].filter(Boolean).join('\n\n')
+  const chapters = o.chapters.map(c => [
+    `## Chapter ${c.number}: ${c.title} (~${c.targetWords} words)`,
+    '**Scenes**\n' + c.scenes.map(x => '- ' + x).join('\n'),
+    c.beats.length ? '**Beats**\n' + c.beats.map(x => '- ' + x).join('\n') : '',
+    `**Hook:** ${c.hook}`,
+  ].filter(Boolean).join('\n\n'))
+  return [head, ...chapters].join('\n\n')
+}
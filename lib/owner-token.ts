@@ -0,0 +1,11 @@
+// lib/owner-token.ts — javari-books
+// The per-browser owner token cookie — shared by middleware.ts (edge runtime) and lib/owner.ts, so nothing here uses Node APIs
+
+export const OWNER_COOKIE = 'javari_owner'
+// About 400 days, the most browsers keep a cookie
+export const OWNER_COOKIE_MAX_AGE = 400 * 24 * 60 * 60
+
+const TOKEN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export const newOwnerToken = () => crypto.randomUUID()
+export const isOwnerToken = (v: string | undefined): v is string => !!v && TOKEN.test(v)
@@ -0,0 +1,33 @@
+// lib/owner.ts — javari-books
+// Who owns saved projects and libraries — the API key or trusted user, else the browser's owner cookie (server only).
+// The client IP is fine for credits and rate limits but not for ownership: it is shared behind a NAT and changes with the network.
+import { createHash } from 'crypto'
+import { NextResponse } from 'next/server'
+import { identify, IdentityError } from './identity'
+import { isOwnerToken, OWNER_COOKIE } from './owner-token'
+
+// The cookie is a bearer secret, so records only ever hold its hash
+const browserId = (token: string) => 'browser:' + createHash('sha256').update(token).digest('hex').slice(0, 32)
+
+// The owner id for records the caller creates; a bad API key, or an anonymous caller without the cookie
+// middleware.ts hands out, gets a ready-made 401
+export function ownerOf(req: Request): string | Response {
+  try {
+    const identity = identify(req.headers)
+    if (identity.kind !== 'ip') return identity.id
+  } catch (e) {
+    if (e instanceof IdentityError) return NextResponse.json({ error: e.message }, { status: 401 })
+    throw e
+  }
+  const token = cookieValue(req.headers.get('cookie'), OWNER_COOKIE)
+  if (isOwnerToken(token)) return browserId(token)
+  return NextResponse.json({ error: `No ${OWNER_COOKIE} cookie — open the app in a browser, or send an API key` }, { status: 401 })
+}
+
+function cookieValue(header: string | null, name: string): string | undefined {
+  for (const part of (header ?? '').split(';')) {
+    const eq = part.indexOf('=')
+    if (eq > 0 && part.slice(0, eq).trim() === name) return part.slice(eq + 1).trim()
+  }
+  return undefined
+}
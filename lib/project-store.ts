@@ -0,0 +1,39 @@
+// lib/project-store.ts — javari-books
+// Loads and saves book projects for the caller that owns them — one record per project (server only)
+import { NextResponse } from 'next/server'
+import { ownerOf } from './owner'
+import type { Project } from './projects'
+import { getStore } from './storage'
+
+export const projectStore = () => getStore<Project>('projects')
+
+const notFound = () => NextResponse.json({ error: 'Project not found' }, { status: 404 })
+
+// Someone else's project answers 404, exactly like a missing one, so ids can't be probed
+export async function callerProject(req: Request, id: unknown): Promise<Project | Response> {
+  const owner = ownerOf(req)
+  if (owner instanceof Response) return owner
+  const project = typeof id === 'string' ? await projectStore().get(id) : undefined
+  return project && project.owner === owner ? project : notFound()
+}
+
+// Applies `change` to the freshly read project inside one store operation, so concurrent saves can't
+// overwrite each other. `change` returns the next project, or a Response to answer without writing.
+export async function updateCallerProject(req: Request, id: string, change: (p: Project) => Project | Response): Promise<Project | Response> {
+  const owner = ownerOf(req)
+  if (owner instanceof Response) return owner
+  let answer: Response = notFound()
+  const saved = await projectStore().update(id, p => {
+    if (!p || p.owner !== owner) return undefined
+    const next = change(p)
+    if (next instanceof Response) { answer = next; return undefined }
+    return { ...next, updatedAt: new Date().toISOString() }
+  })
+  return saved ?? answer
+}
+
+export async function callerProjects(req: Request): Promise<Project[] | Response> {
+  const owner = ownerOf(req)
+  if (owner instanceof Response) return owner
+  return (await projectStore().list()).filter(p => p.owner === owner)
+}
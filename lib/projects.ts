@@ -0,0 +1,132 @@
+// lib/projects.ts — javari-books
+// Book project model — settings, outline, ordered chapters with version history, story bible, notes
+// Pure data helpers (client-safe); the API routes own persistence via lib/storage
+import type { StoryBible } from './bible'
+import { GENRES, POVS, TONES } from './book-options'
+import { validateOutline, type Outline } from './outline'
+import type { Field, FieldValues, PrefillKey } from './tool-data'
+import { validateValues, type FieldError } from './validate'
+
+export type ProjectSettings = { title: string; premise: string; genre: string; pov: string; tone: string }
+export type VersionSource = 'ai' | 'manual' | 'revision'
+export type ChapterVersion = { id: string; text: string; words: number; source: VersionSource; createdAt: string; note?: string }
+export type ProjectChapter = { id: string; number: number; title: string; currentVersionId: string; versions: ChapterVersion[]; summary?: string }
+export type Project = {
+  id: string
+  owner: string  // ownerOf() the caller that created it (lib/owner); only they can see or change it
+  createdAt: string
+  updatedAt: string
+  settings: ProjectSettings
+  outline: Outline | null
+  chapters: ProjectChapter[]  // always sorted by number
+  bible?: StoryBible  // absent on projects saved before the story bible existed
+  notes: string
+}
+export type ProjectSummary = { id: string; title: string; genre: string; updatedAt: string; chapters: number; words: number }
+
+export const PROJECT_FIELDS: Field[] = [
+  { id: 'title', label: 'Book Title', placeholder: 'Untitled', maxLength: 200 },
+  { id: 'premise', label: 'Premise', placeholder: 'Your story premise...', maxLength: 4000 },
+  { id: 'genre', label: 'Genre', placeholder: 'Fiction', options: GENRES },
+  { id: 'pov', label: 'POV', placeholder: 'Third Person Limited', options: POVS },
+  { id: 'tone', label: 'Tone', placeholder: 'Literary', options: TONES },
+]
+export const DEFAULT_SETTINGS: ProjectSettings = { title: '', premise: '', genre: 'Fiction', pov: 'Third Person Limited', tone: 'Literary' }
+export const VERSION_SOURCES: VersionSource[] = ['ai', 'manual', 'revision']
+export const MAX_VERSIONS = 25
+export const MAX_NOTES = 20000
+export const MAX_CHAPTER_CHARS = 200000
+
+export const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length
+
+export function currentVersion(c: ProjectChapter): ChapterVersion | undefined {
+  return c.versions.find(v => v.id === c.currentVersionId) ?? c.versions[c.versions.length - 1]
+}
+
+export function summarize(p: Project): ProjectSummary {
+  const words = p.chapters.reduce((n, c) => n + (currentVersion(c)?.words ?? 0), 0)
+  return { id: p.id, title: p.settings.title || 'Untitled', genre: p.settings.genre, updatedAt: p.updatedAt, chapters: p.chapters.length, words }
+}
+
+// Settings are patched onto the current ones, then the merged result is validated as a whole
+export function parseProjectInput(raw: unknown, base?: Project): { settings: ProjectSettings; outline?: Outline | null; notes?: string; errors: FieldError[] } {
+  const b = (raw && typeof raw === 'object' ? raw : {}) as { settings?: unknown; outline?: unknown; notes?: unknown }
+  const current = base?.settings ?? DEFAULT_SETTINGS
+  const patch = b.settings && typeof b.settings === 'object' ? b.settings as Record<string, unknown> : {}
+  const { values, errors } = validateValues(PROJECT_FIELDS, { ...current, ...patch })
+  const settings = { ...DEFAULT_SETTINGS, ...values }
+  let outline: Outline | null | undefined
+  if (b.outline === null) outline = null
+  else if (b.outline !== undefined) {
+    const r = validateOutline(b.outline)
+    if (r.outline) outline = r.outline
+    else errors.push({ field: 'outline', message: r.errors[0] ?? 'Invalid outline' })
+  }
+  let notes: string | undefined
+  if (b.notes !== undefined) {
+    if (typeof b.notes !== 'string' || b.notes.length > MAX_NOTES) errors.push({ field: 'notes', message: `notes must be text of at most ${MAX_NOTES} characters` })
+    else notes = b.notes
+  }
+  return { settings, outline, notes, errors }
+}
+
+export type ChapterInput = { number: number; title?: string; text: string; source: VersionSource; note?: string; summary?: string }
+
+export function parseChapterInput(raw: unknown): { input?: ChapterInput; errors: FieldError[] } {
+  const b = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const errors: FieldError[] = []
+  const number = Number(b.number)
+  if (!Number.isInteger(number) || number < 1 || number > 500) errors.push({ field: 'number', message: 'number must be a whole number from 1 to 500' })
+  if (typeof b.text !== 'string' || !b.text.trim()) errors.push({ field: 'text', message: 'text is required' })
+  else if (b.text.length > MAX_CHAPTER_CHARS) errors.push({ field: 'text', message: `text must be at most ${MAX_CHAPTER_CHARS} characters` })
+  if (b.title !== undefined && (typeof b.title !== 'string' || b.title.length > 200)) errors.push({ field: 'title', message: 'title must be at most 200 characters' })
+  const source = (b.source ?? 'ai') as VersionSource
+  if (!VERSION_SOURCES.includes(source)) errors.push({ field: 'source', message: `source must be one of: ${VERSION_SOURCES.join(', ')}` })
+  if (b.note !== undefined && (typeof b.note !== 'string' || b.note.length > 500)) errors.push({ field: 'note', message: 'note must be at most 500 characters' })
+  if (b.summary !== undefined && (typeof b.summary !== 'string' || b.summary.length > 2000)) errors.push({ field: 'summary', message: 'summary must be at most 2000 characters' })
+  if (errors.length) return { errors }
+  return { input: { number, title: b.title as string | undefined, text: b.text as string, source, note: b.note as string | undefined, summary: (b.summary as string | undefined)?.trim() || undefined }, errors }
+}
+
+// Saving chapter N again adds a version rather than replacing the text; the oldest versions roll off.
+// A new version without a summary drops the old one, since it described different text.
+export function addChapterVersion(p: Project, input: ChapterInput, now: string): { project: Project; chapter: ProjectChapter } {
+  const version: ChapterVersion = { id: crypto.randomUUID(), text: input.text, words: countWords(input.text), source: input.source, createdAt: now, ...(input.note ? { note: input.note } : {}) }
+  const existing = p.chapters.find(c => c.number === input.number)
+  const outlineTitle = p.outline?.chapters.find(c => c.number === input.number)?.title
+  const chapter: ProjectChapter = existing
+    ? { ...existing, title: input.title?.trim() || existing.title, currentVersionId: version.id, versions: [...existing.versions, version].slice(-MAX_VERSIONS), summary: input.summary }
+    : { id: crypto.randomUUID(), number: input.number, title: input.title?.trim() || outlineTitle || `Chapter ${input.number}`, currentVersionId: version.id, versions: [version], summary: input.summary }
+  const chapters = [...p.chapters.filter(c => c.id !== chapter.id), chapter].sort((a, b) => a.number - b.number)
+  return { project: { ...p, chapters, updatedAt: now }, chapter }
+}
+
+// Values a saved project offers to the writing tools' forms; saved chapter summaries beat outline beats
+export function projectPrefill(p: Project): Record<PrefillKey, string> {
+  const o = p.outline
+  const words = p.chapters.reduce((n, c) => n + (currentVersion(c)?.words ?? 0), 0) || (o?.chapters.reduce((n, c) => n + c.targetWords, 0) ?? 0)
+  const plot = (o?.chapters ?? []).map(c => {
+    const saved = p.chapters.find(s => s.number === c.number)?.summary
+    return `Chapter ${c.number} — ${c.title}: ${saved || [...c.scenes, c.hook].filter(Boolean).join('; ')}`
+  })
+  const cast = (p.bible?.characters ?? []).map(c => `${c.name}${c.role ? ` (${c.role})` : ''} — ${c.description}`)
+  return {
+    title: p.settings.title || (o?.book.title !== 'Untitled' ? o?.book.title ?? '' : ''),
+    genre: p.settings.genre,
+    premise: p.settings.premise || o?.book.premise || '',
+    logline: o?.book.logline ?? '',
+    outline: plot.join('\n'),
+    characters: cast.join('\n'),
+    words: words ? String(words) : '',
+  }
+}
+
+// Only empty fields are filled, and each value is cut to the field's length limit
+export function prefillValues(fields: Field[], source: Record<PrefillKey, string>, current: FieldValues): FieldValues {
+  const next = { ...current }
+  for (const f of fields) {
+    const v = f.prefill && source[f.prefill]
+    if (v && !current[f.id]?.trim() && (!f.options || f.options.includes(v))) next[f.id] = v.slice(0, f.maxLength ?? 500)
+  }
+  return next
+}
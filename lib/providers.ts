@@ -0,0 +1,128 @@
+// lib/providers.ts — javari-books
+// AI provider registry — OpenAI-compatible HTTP providers, a deterministic mock, and the env-driven fallback chain
+import type { ChatMessage } from './ai'
+import { mockComplete, mockStream } from './mock-provider'
+import { createSSEParser } from './sse'
+
+export type CompletionRequest = { messages: ChatMessage[]; maxTokens: number; temperature: number; task?: string }
+export type Provider = {
+  name: string
+  timeoutMs: number
+  retries: number
+  complete(req: CompletionRequest, signal: AbortSignal): Promise<string>
+  // Calls onDelta per text chunk and resolves with the full text
+  stream(req: CompletionRequest, signal: AbortSignal, onDelta: (t: string) => void): Promise<string>
+}
+
+export type FailureReason = 'missing_key' | 'http_status' | 'empty_output' | 'timeout' | 'network'
+export class ProviderError extends Error {
+  constructor(public provider: string, public reason: FailureReason, message: string, public status?: number) {
+    super(`${provider}: ${message}`)
+    this.name = 'ProviderError'
+  }
+  // Auth and bad-request failures won't change on a second attempt
+  get retryable(): boolean {
+    if (this.reason === 'missing_key') return false
+    if (this.reason === 'http_status') return this.status === 408 || this.status === 429 || (this.status ?? 0) >= 500
+    return true
+  }
+}
+
+type Env = Record<string, string | undefined>
+const num = (v: string | undefined, d: number) => (v !== undefined && v !== '' && !isNaN(Number(v)) ? Number(v) : d)
+
+type OpenAIOptions = { name: string; url: string; apiKey: string; model: string; headers?: Record<string, string>; timeoutMs: number; retries: number; minChars: number }
+type Completion = { choices?: Array<{ message?: { content?: string } }> }
+type Chunk = { choices?: Array<{ delta?: { content?: string } }> }
+
+export function openAICompatible(o: OpenAIOptions): Provider {
+  async function post(req: CompletionRequest, signal: AbortSignal, stream: boolean): Promise<Response> {
+    if (!o.apiKey) throw new ProviderError(o.name, 'missing_key', 'API key not configured')
+    let r: Response
+    try {
+      r = await fetch(o.url, {
+        method: 'POST', signal,
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${o.apiKey}`, ...o.headers },
+        body: JSON.stringify({ model: o.model, max_tokens: req.maxTokens, temperature: req.temperature, messages: req.messages, ...(stream ? { stream: true } : {}) })
+      })
+    } catch (e) {
+      throw new ProviderError(o.name, 'network', e instanceof Error ? e.message : 'request failed')
+    }
+    if (!r.ok) throw new ProviderError(o.name, 'http_status', `HTTP ${r.status}`, r.status)
+    return r
+  }
+  const checkLength = (t: string) => {
+    if (t.trim().length < o.minChars) throw new ProviderError(o.name, 'empty_output', `response shorter than ${o.minChars} characters`)
+    return t
+  }
+  return {
+    name: o.name, timeoutMs: o.timeoutMs, retries: o.retries,
+    async complete(req, signal) {
+      const r = await post(req, signal, false)
+      const d = await r.json().catch(() => ({})) as Completion
+      return checkLength(d.choices?.[0]?.message?.content ?? '')
+    },
+    async stream(req, signal, onDelta) {
+      const r = await post(req, signal, true)
+      if (!r.body) throw new ProviderError(o.name, 'empty_output', 'response has no body')
+      let text = ''
+      const push = createSSEParser(e => {
+        if (e.data === '[DONE]') return
+        let d: Chunk
+        try { d = JSON.parse(e.data) } catch { return }
+        const t = d.choices?.[0]?.delta?.content
+        if (t) { text += t; onDelta(t) }
+      })
+      const reader = r.body.getReader()
+      const dec = new TextDecoder()
+      try {
+        for (;;) {
+          const { done, value } = await reader.read()
+          if (done) break
+          push(dec.decode(value, { stream: true }))
+        }
+        push('\n\n')
+      } catch (e) {
+        throw new ProviderError(o.name, 'network', e instanceof Error ? e.message : 'stream interrupted')
+      }
+      return checkLength(text)
+    }
+  }
+}
+
+// Each factory reads its own settings so the chain can be rebuilt per request (and per test)
+export const PROVIDER_FACTORIES: Record<string, (env: Env) => Provider> = {
+  openrouter: env => openAICompatible({
+    name: 'openrouter', url: 'https://openrouter.ai/api/v1/chat/completions',
+    apiKey: env.OPENROUTER_API_KEY ?? '', model: env.OPENROUTER_MODEL || 'deepseek/deepseek-v4-flash:free',
+    headers: { 'HTTP-Referer': 'https://craudiovizai.com' },
+    timeoutMs: num(env.OPENROUTER_TIMEOUT_MS, num(env.AI_TIMEOUT_MS, 20000)), retries: num(env.AI_RETRIES, 1), minChars: num(env.AI_MIN_CHARS, 1),
+  }),
+  groq: env => openAICompatible({
+    name: 'groq', url: 'https://api.groq.com/openai/v1/chat/completions',
+    apiKey: env.GROQ_API_KEY ?? '', model: env.GROQ_MODEL || 'llama-3.3-70b-versatile',
+    timeoutMs: num(env.GROQ_TIMEOUT_MS, num(env.AI_TIMEOUT_MS, 20000)), retries: num(env.AI_RETRIES, 1), minChars: num(env.AI_MIN_CHARS, 1),
+  }),
+  mock: env => ({
+    name: 'mock', timeoutMs: num(env.AI_TIMEOUT_MS, 20000), retries: 0,
+    async complete(req) { return mockComplete(req) },
+    async stream(req, signal, onDelta) { return mockStream(req, signal, onDelta, num(env.AI_MOCK_DELAY_MS, 0)) }
+  }),
+}
+
+export const DEFAULT_CHAIN = 'openrouter,groq'
+
+// AI_PROVIDERS is an ordered, comma-separated fallback chain, e.g. "groq,openrouter" or "mock"
+export function getProviderChain(env: Env = process.env): Provider[] {
+  const names = (env.AI_PROVIDERS || DEFAULT_CHAIN).split(',').map(s => s.trim().toLowerCase()).filter(Boolean)
+  const unknown = names.filter(n => !PROVIDER_FACTORIES[n])
+  if (unknown.length) throw new Error(`Unknown AI provider: ${unknown.join(', ')}`)
+  return names.map(n => PROVIDER_FACTORIES[n](env))
+}
+
+// Kept under the AI routes' maxDuration (60s) so a failed chain still answers 502 and refunds
+export const DEFAULT_DEADLINE_MS = 50000
+
+export function getGenerationDefaults(env: Env = process.env) {
+  return { maxTokens: num(env.AI_MAX_TOKENS, 2048), temperature: num(env.AI_TEMPERATURE, 0.7), backoffMs: num(env.AI_BACKOFF_MS, 500), deadlineMs: num(env.AI_DEADLINE_MS, DEFAULT_DEADLINE_MS) }
+}
@@ -0,0 +1,51 @@
+// lib/rate-limit.ts — javari-books
+// Sliding-window rate limiter — per identity, in process memory (server only)
+
+export type RateResult = { ok: boolean; limit: number; remaining: number; retryAfterMs: number }
+export type RateLimiter = { hit(identity: string, now?: number): RateResult }
+export type RateLimitOptions = { limit: number; windowMs: number }
+
+// Idle identities are swept once this many are tracked
+const MAX_TRACKED = 10000
+
+// Keeps the timestamps of recent requests per identity; a request is allowed while fewer than
+// `limit` fall inside the window ending now. Rejected requests are not recorded.
+export function createRateLimiter({ limit, windowMs }: RateLimitOptions): RateLimiter {
+  const hits = new Map<string, number[]>()
+  return {
+    hit(identity, now = Date.now()) {
+      if (hits.size > MAX_TRACKED) hits.forEach((t, id) => { if (t[t.length - 1] <= now - windowMs) hits.delete(id) })
+      const recent = (hits.get(identity) ?? []).filter(t => t > now - windowMs)
+      if (recent.length >= limit) {
+        hits.set(identity, recent)
+        return { ok: false, limit, remaining: 0, retryAfterMs: recent[0] + windowMs - now }
+      }
+      recent.push(now)
+      hits.set(identity, recent)
+      return { ok: true, limit, remaining: limit - recent.length, retryAfterMs: 0 }
+    },
+  }
+}
+
+const num = (v: string | undefined, d: number) => (v !== undefined && v !== '' && !isNaN(Number(v)) ? Number(v) : d)
+
+const shared = new Map<string, RateLimiter>()
+
+function limiter(name: string, perMinute: number): RateLimiter {
+  let l = shared.get(name)
+  if (!l) shared.set(name, l = createRateLimiter({ limit: Math.max(1, perMinute), windowMs: 60_000 }))
+  return l
+}
+
+// RATE_LIMIT_PER_MINUTE (default 20) requests to the AI routes per identity
+export function getRateLimiter(): RateLimiter {
+  return limiter('ai', num(process.env.RATE_LIMIT_PER_MINUTE, 20))
+}
+
+// ANALYZE_RATE_LIMIT_PER_MINUTE (default 10) manuscript analyses per identity — free, but CPU-bound, so counted apart
+export function getAnalyzeRateLimiter(): RateLimiter {
+  return limiter('analyze', num(process.env.ANALYZE_RATE_LIMIT_PER_MINUTE, 10))
+}
+
+// Test hook — the next limiter lookups start empty and re-read the environment
+export function resetRateLimiter() { shared.clear() }
@@ -0,0 +1,108 @@
+// lib/revise.ts — javari-books
+// Targeted revision — rewrite one selected passage of a chapter under an instruction; the text around it is
+// sent as context only and never comes back changed (client-safe)
+import { GENRES, POVS, TONES } from './book-options'
+import { MAX_CHAPTER_CHARS } from './projects'
+import type { FieldError } from './validate'
+
+export type ReviseInput = {
+  text: string
+  start: number
+  end: number
+  instruction: string
+  genre?: string
+  pov?: string
+  tone?: string
+  projectId?: string
+  chapterNumber?: number
+}
+
+export const MAX_PASSAGE_CHARS = 12000
+export const MAX_INSTRUCTION_CHARS = 500
+// How much of the chapter on either side of the passage rides along, so the rewrite joins up
+export const CONTEXT_CHARS = 1500
+export const REVISE_PRESETS = ['Tighten', 'More tension', 'More sensory detail', 'Switch to first person', ...TONES.map(t => `Match tone: ${t}`)]
+
+// A selection that starts or ends inside a word is widened to the whole word
+export function snapRange(text: string, start: number, end: number): { start: number; end: number } {
+  while (start > 0 && /\S/.test(text[start - 1]) && /\S/.test(text[start])) start--
+  while (end < text.length && end > 0 && /\S/.test(text[end - 1]) && /\S/.test(text[end])) end++
+  return { start, end }
+}
+
+export function spliceRevision(text: string, start: number, end: number, passage: string): string {
+  return text.slice(0, start) + passage + text.slice(end)
+}
+
+const optional = (v: unknown, options: string[], field: string, errors: FieldError[]) => {
+  if (v === undefined || v === '') return undefined
+  if (typeof v !== 'string' || !options.includes(v)) { errors.push({ field, message: `${field} must be one of: ${options.join(', ')}` }); return undefined }
+  return v
+}
+
+export function parseReviseInput(raw: unknown): { input?: ReviseInput; errors: FieldError[] } {
+  const b = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const errors: FieldError[] = []
+  const text = typeof b.text === 'string' ? b.text : ''
+  if (!text.trim()) errors.push({ field: 'text', message: 'text is required' })
+  else if (text.length > MAX_CHAPTER_CHARS) errors.push({ field: 'text', message: `text must be at most ${MAX_CHAPTER_CHARS} characters` })
+  const start = Number(b.start), end = Number(b.end)
+  if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end > text.length || start >= end) errors.push({ field: 'range', message: 'start and end must select part of text (0 ≤ start < end ≤ text length)' })
+  else if (!text.slice(start, end).trim()) errors.push({ field: 'range', message: 'the selected passage is empty' })
+  else if (end - start > MAX_PASSAGE_CHARS) errors.push({ field: 'range', message: `the selected passage must be at most ${MAX_PASSAGE_CHARS} characters` })
+  const instruction = typeof b.instruction === 'string' ? b.instruction.trim() : ''
+  if (!instruction) errors.push({ field: 'instruction', message: 'instruction is required' })
+  else if (instruction.length > MAX_INSTRUCTION_CHARS) errors.push({ field: 'instruction', message: `instruction must be at most ${MAX_INSTRUCTION_CHARS} characters` })
+  const genre = optional(b.genre, GENRES, 'genre', errors)
+  const pov = optional(b.pov, POVS, 'pov', errors)
+  const tone = optional(b.tone, TONES, 'tone', errors)
+  if (b.projectId !== undefined && typeof b.projectId !== 'string') errors.push({ field: 'projectId', message: 'projectId must be a string' })
+  const chapterNumber = b.chapterNumber === undefined ? undefined : Number(b.chapterNumber)
+  if (chapterNumber !== undefined && !(Number.isInteger(chapterNumber) && chapterNumber >= 1 && chapterNumber <= 500)) errors.push({ field: 'chapterNumber', message: 'chapterNumber must be a whole number from 1 to 500' })
+  if (errors.length) return { errors }
+  const range = snapRange(text, start, end)
+  return {
+    input: {
+      text, ...range, instruction,
+      ...(genre ? { genre } : {}), ...(pov ? { pov } : {}), ...(tone ? { tone } : {}),
+      ...(b.projectId ? { projectId: b.projectId as string } : {}), ...(chapterNumber ? { chapterNumber } : {}),
+    },
+    errors,
+  }
+}
+
+export function reviseSystem(genre = 'Fiction'): string {
+  return `You are a bestselling ${genre} author and line editor. You revise exactly the passage you are given, as instructed,
+and return only the revised passage — never the surrounding text, never commentary.`
+}
+
+export const PASSAGE_START = '<<<PASSAGE'
+export const PASSAGE_END = 'PASSAGE>>>'
+
+export function revisePrompt(i: ReviseInput, context = ''): string {
+  const before = i.text.slice(Math.max(0, i.start - CONTEXT_CHARS), i.start)
+  const after = i.text.slice(i.end, i.end + CONTEXT_CHARS)
+  const settings = [i.genre && `Genre: ${i.genre}`, i.pov && `POV: ${i.pov}`, i.tone && `Tone: ${i.tone}`].filter(Boolean).join('\n')
+  return `Revise one passage of a chapter.
+Instruction: ${i.instruction}
+${settings}
+
+Rewrite only the text between ${PASSAGE_START} and ${PASSAGE_END}, following the instruction. Keep everything the
+instruction doesn't ask you to change — names, facts, events and paragraph breaks. The revision must read on
+seamlessly from the text before it and into the text after it.
+Return only the revised passage: no markers, no quotation marks around it, no notes.
+${context ? `\nStay consistent with this story context:\n${context}\n` : ''}
+${before ? `…${before}` : '(start of chapter)'}${PASSAGE_START}${i.text.slice(i.start, i.end)}${PASSAGE_END}${after ? `${after}…` : '(end of chapter)'}`
+}
+
+// Strips what models add anyway — code fences, the markers, a lead-in line — and keeps the passage's own
+// leading and trailing whitespace so it drops back into place
+export function cleanRevision(out: string, original: string): string {
+  let s = out.replace(/^\s*```[a-z]*\n?|\n?```\s*$/g, '')
+  const inner = s.indexOf(PASSAGE_START) >= 0 && s.indexOf(PASSAGE_END) > s.indexOf(PASSAGE_START)
+  if (inner) s = s.slice(s.indexOf(PASSAGE_START) + PASSAGE_START.length, s.indexOf(PASSAGE_END))
+  s = s.split(PASSAGE_START).join('').split(PASSAGE_END).join('')
+  s = s.replace(/^\s*(?:here(?:'s| is) the revised passage|revised passage)[^\n]*:\s*\n/i, '').trim()
+  if (!s) return ''
+  return (/^\s*/.exec(original)?.[0] ?? '') + s + (/\s*$/.exec(original)?.[0] ?? '')
+}
@@ -0,0 +1,58 @@
+// lib/sse.ts — javari-books
+// Server-sent events — incremental parser (server and browser) and the streaming completion response
+export type SSEEvent = { event: string; data: string }
+
+// Feed raw text chunks in; complete events come out via onEvent
+export function createSSEParser(onEvent: (e: SSEEvent) => void): (chunk: string) => void {
+  let buf = '', event = 'message', data: string[] = []
+  return chunk => {
+    buf += chunk
+    const lines = buf.split(/\r?\n/)
+    buf = lines.pop() ?? ''
+    for (const line of lines) {
+      if (line === '') {
+        if (data.length) onEvent({ event, data: data.join('\n') })
+        event = 'message'; data = []
+      } else if (line.startsWith('event:')) event = line.slice(6).trim()
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''))
+    }
+  }
+}
+
+type Send = (event: string | null, data: unknown) => void
+
+export function sseResponse(run: (send: Send, signal: AbortSignal) => Promise<void>, upstream?: AbortSignal): Response {
+  const ctl = new AbortController()
+  upstream?.addEventListener('abort', () => ctl.abort())
+  const enc = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    async start(c) {
+      const send: Send = (event, data) => {
+        if (ctl.signal.aborted) return
+        c.enqueue(enc.encode((event ? `event: ${event}\n` : '') + `data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`))
+      }
+      try { await run(send, ctl.signal) } finally { try { c.close() } catch { /* client already gone */ } }
+    },
+    cancel() { ctl.abort() },
+  })
+  return new Response(stream, { headers: { 'Content-Type': 'text/event-stream; charset=utf-8', 'Cache-Control': 'no-cache, no-transform', Connection: 'keep-alive', 'X-Accel-Buffering': 'no' } })
+}
+
+// OpenAI-style chunks: data: {"choices":[{"delta":{"content":"..."}}]} … data: [DONE]
+// Failures after the first token arrive as an `error` event so clients can keep the partial text.
+// `finish` adds route-specific fields (e.g. word_cap) to the last chunk, given the full text.
+export function completionStream(run: (onDelta: (t: string) => void, signal: AbortSignal) => Promise<string>, upstream?: AbortSignal, finish?: (text: string) => Record<string, unknown>): Response {
+  return sseResponse(async (send, signal) => {
+    try {
+      const text = await run(t => send(null, { choices: [{ index: 0, delta: { content: t } }] }), signal)
+      send(null, { choices: [{ index: 0, delta: {}, finish_reason: 'stop' }], ...finish?.(text) })
+      send(null, '[DONE]')
+    } catch (e) {
+      if (signal.aborted) return
+      // AIUnavailableError carries a client-safe summary; checked structurally to keep this module import-free
+      const failures = (e as { summary?: unknown }).summary
+      if (failures) send('error', { error: 'AI unavailable', failures })
+      else send('error', { error: e instanceof Error ? e.message : 'Failed' })
+    }
+  }, upstream)
+}
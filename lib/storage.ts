@@ -0,0 +1,83 @@
+// lib/storage.ts — javari-books
+// Storage adapter — collections of { id } records, in memory or as JSON files on disk (server only)
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export type Store<T extends { id: string }> = {
+  list(): Promise<T[]>
+  get(id: string): Promise<T | undefined>
+  put(item: T): Promise<T>
+  // Read-modify-write as one step: `fn` gets the current record (undefined if there is none) and returns its
+  // replacement, or undefined to write nothing. Resolves with what was written.
+  update(id: string, fn: (current: T | undefined) => T | undefined): Promise<T | undefined>
+  delete(id: string): Promise<boolean>
+}
+
+// Records are cloned on the way in and out so callers can't mutate stored state by accident
+const clone = <T>(v: T): T => JSON.parse(JSON.stringify(v))
+
+export function createMemoryStore<T extends { id: string }>(): Store<T> {
+  const items = new Map<string, T>()
+  return {
+    async list() { return Array.from(items.values()).map(clone) },
+    async get(id) { const v = items.get(id); return v && clone(v) },
+    async put(item) { items.set(item.id, clone(item)); return clone(item) },
+    async update(id, fn) {
+      const v = items.get(id)
+      const next = fn(v && clone(v))
+      if (!next) return undefined
+      items.set(id, clone(next))
+      return clone(next)
+    },
+    async delete(id) { return items.delete(id) },
+  }
+}
+
+// One JSON file per collection; writes are serialized and land via rename so a crash never leaves half a file
+export function createFileStore<T extends { id: string }>(file: string): Store<T> {
+  let queue: Promise<unknown> = Promise.resolve()
+  const serial = <R>(fn: () => Promise<R>): Promise<R> => { const next = queue.then(fn, fn); queue = next.catch(() => {}); return next }
+  async function read(): Promise<Record<string, T>> {
+    try { return JSON.parse(await fs.readFile(file, 'utf8')) } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return {}
+      throw e
+    }
+  }
+  async function write(data: Record<string, T>) {
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    const tmp = `${file}.${process.pid}.tmp`
+    await fs.writeFile(tmp, JSON.stringify(data, null, 2))
+    await fs.rename(tmp, file)
+  }
+  return {
+    list: () => serial(async () => Object.values(await read())),
+    get: id => serial(async () => (await read())[id]),
+    put: item => serial(async () => { const d = await read(); d[item.id] = clone(item); await write(d); return clone(item) }),
+    update: (id, fn) => serial(async () => {
+      const d = await read()
+      const next = fn(d[id])
+      if (!next) return undefined
+      d[id] = clone(next)
+      await write(d)
+      return clone(next)
+    }),
+    delete: id => serial(async () => { const d = await read(); if (!(id in d)) return false; delete d[id]; await write(d); return true }),
+  }
+}
+
+const stores = new Map<string, Store<{ id: string }>>()
+
+// BOOKS_STORE=memory keeps everything in-process (tests); the default writes JSON under BOOKS_DATA_DIR (.data)
+export function getStore<T extends { id: string }>(collection: string): Store<T> {
+  let s = stores.get(collection)
+  if (!s) {
+    s = process.env.BOOKS_STORE === 'memory'
+      ? createMemoryStore()
+      : createFileStore(path.join(process.env.BOOKS_DATA_DIR || path.join(process.cwd(), '.data'), `${collection}.json`))
+    stores.set(collection, s)
+  }
+  return s as unknown as Store<T>
+}
+
+// Test hook — drops cached stores so the next getStore() re-reads the environment
+export function resetStores() { stores.clear() }
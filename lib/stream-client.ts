@@ -0,0 +1,46 @@
+// lib/stream-client.ts — javari-books
+// Browser helper for the SSE completion routes — accumulates text and keeps it when the stream dies
+import { createSSEParser } from './sse'
+import type { FieldError } from './validate'
+
+// fields carries per-field messages when the request was rejected as invalid input; finish is whatever the
+// route added to its last chunk beside the choices (e.g. word_cap, words, truncated from /api/generate)
+export type StreamResult = { text: string; error?: string; fields?: FieldError[]; aborted?: boolean; finish?: Record<string, unknown> }
+
+// POSTs body (with stream: true) and calls onText with the full text so far after every chunk
+export async function streamPost(url: string, body: Record<string, unknown>, onText: (text: string) => void, signal?: AbortSignal): Promise<StreamResult> {
+  let text = '', error: string | undefined, done = false
+  let finish: Record<string, unknown> | undefined
+  try {
+    const res = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ ...body, stream: true }), signal })
+    if (!res.headers.get('content-type')?.includes('text/event-stream') || !res.body) {
+      const data = await res.json().catch(() => null)
+      // 402/429 carry the remaining balance
+      const error = (data?.error || `Request failed (${res.status})`) + (typeof data?.balance === 'number' ? ` — ${data.balance} credits left` : '')
+      return { text: '', error, ...(Array.isArray(data?.fields) ? { fields: data.fields } : {}) }
+    }
+    const push = createSSEParser(e => {
+      if (e.event === 'error') { try { error = JSON.parse(e.data).error } catch { error = 'Generation failed' } return }
+      if (e.data === '[DONE]') { done = true; return }
+      try {
+        const d = JSON.parse(e.data)
+        const t = d?.choices?.[0]?.delta?.content
+        if (t) { text += t; onText(text) }
+        if (d?.choices?.[0]?.finish_reason) { const { choices: _, ...rest } = d; if (Object.keys(rest).length) finish = rest }
+      } catch { /* ignore malformed chunk */ }
+    })
+    const reader = res.body.getReader()
+    const dec = new TextDecoder()
+    for (;;) {
+      const { done: end, value } = await reader.read()
+      if (end) break
+      push(dec.decode(value, { stream: true }))
+    }
+    push('\n\n')
+  } catch (e) {
+    if (signal?.aborted) return { text, aborted: true }
+    return { text, error: 'Connection lost' }
+  }
+  if (!done && !error) error = 'Stream ended early'
+  return { text, error, ...(finish ? { finish } : {}) }
+}
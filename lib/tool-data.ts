@@ -1,25 +1,141 @@
 // lib/tool-data.ts — javari-books
 // CR AudioViz AI · May 2026
-export function getActions() {
+import { bookListPrompt } from './book-list'
+import { GENRES } from './book-options'
+
+export type FieldValues = Record<string, string>
+export type Field = {
+  id: string
+  label: string
+  placeholder: string
+  required?: boolean
+  maxLength?: number
+  type?: 'text' | 'number'
+  min?: number
+  max?: number
+  range?: boolean  // number fields: also accept "low-high", e.g. 6-8
+  options?: string[]  // value must be one of these
+  multiline?: boolean
+  prefill?: PrefillKey  // filled from the open project when empty
+}
+// What a saved project can supply to a tool form — see projectPrefill in lib/projects
+export type PrefillKey = 'title' | 'genre' | 'premise' | 'logline' | 'outline' | 'characters' | 'words'
+export type FieldGroup = { label: string; fields: Field[] }
+// discovery: reader-facing book tools; writing: author-facing tools that work on the user's own manuscript
+export type ActionKind = 'discovery' | 'writing'
+export type Action = {
+  id: string
+  label: string
+  desc: string
+  kind?: ActionKind  // defaults to discovery
+  buildPrompt: (v: FieldValues) => string
+  wordCap?: (v: FieldValues) => number  // hard limit on the length of the result
+  books?: (v: FieldValues) => number  // answers with a structured list of this many books, each checked against the catalog
+  library?: boolean  // the caller's reading library adds v.history and v.readWpm (see libraryValues in lib/library)
+}
+
+export function getActions(): Action[] {
   return [
-    { id: 'book_recommendations', label: '📚 Book Finder',         desc: 'Personalized book recommendations',      buildPrompt: function(v) { return 'Recommend 8 books for someone who enjoys ' + (v.genres||'fiction, thrillers') + ', recently loved "' + (v.lastBook||'') + '", mood: ' + (v.mood||'any') + '. For each: title, author, year, 2-sentence description, why they will love it, and Goodreads rating if known.' } },
-    { id: 'reading_list',         label: '📋 Reading List',         desc: 'Curated reading list for your goals',   buildPrompt: function(v) { return 'Build a ' + (v.length||'12') + '-book reading list for someone who wants to: ' + (v.goal||'read more fiction') + '. Theme: ' + (v.theme||'any') + '. Mix classic and contemporary. Include: title, author, rationale, reading order, and estimated reading time for each.' } },
+    { id: 'book_recommendations', label: '📚 Book Finder',         desc: 'Personalized book recommendations',      books: () => 8, library: true, buildPrompt: function(v) { return bookListPrompt('Recommend books for someone who enjoys ' + (v.genres||(v.history ? 'the kinds of books they rated highly below' : 'fiction, thrillers')) + ', recently loved "' + (v.lastBook||'') + '", mood: ' + (v.mood||'any') + '. Give each a 2-sentence description.' + (v.history ? '\n\nTheir reading history — build on what they rated highly, steer away from what they abandoned, and never suggest a book listed here:\n' + v.history : ''), 8, 'why they will love it') } },
+    { id: 'reading_list',         label: '📋 Reading List',         desc: 'Curated reading list for your goals',   books: v => Number(v.length) || 12, library: true, buildPrompt: function(v) { return bookListPrompt('Build a reading list for someone who wants to: ' + (v.goal||'read more fiction') + '. Theme: ' + (v.theme||'any') + '. Mix classic and contemporary, in the order they should be read.' + (v.history ? '\n\nBooks they have already read, are reading or gave up on — leave these out:\n' + v.history : ''), Number(v.length) || 12, 'the rationale for its place in the order, and an estimated reading time') } },
     { id: 'book_summary',         label: '📖 Book Summary',         desc: 'Chapter-by-chapter summary and themes',  buildPrompt: function(v) { return 'Provide a comprehensive summary of "' + (v.bookTitle||'') + '" by ' + (v.author||'') + '. Include: plot overview, key characters, major themes, important quotes, chapter breakdown, critical reception, and why it matters.' } },
-    { id: 'author_research',      label: '✍️ Author Deep Dive',     desc: 'Research an author life and work',   buildPrompt: function(v) { return 'Create a comprehensive profile of author ' + (v.author||'') + '. Cover: biography, major works, writing style, themes, literary influences, awards, best books to start with, chronological reading order, and cultural impact.' } },
+    { id: 'author_research',      label: '✍️ Author Deep Dive',     desc: 'Research an author life and work',   books: () => 6, buildPrompt: function(v) { return bookListPrompt('Create a comprehensive profile of author ' + (v.author||'') + '. Cover: biography, writing style, themes, literary influences, awards, and cultural impact. The books are their major works in chronological reading order, best starting points first among equals.', 6, 'what it shows about the author and whether to start with it') } },
     { id: 'discussion_questions', label: '💬 Book Club Questions',  desc: 'Discussion questions for your club',    buildPrompt: function(v) { return 'Create 15 deep discussion questions for "' + (v.bookTitle||'') + '" by ' + (v.author||'') + '. Include: icebreakers, character analysis, theme exploration, historical context, personal reflection, and a closing question. For ' + (v.groupSize||'6-8') + ' people.' } },
-    { id: 'genre_explorer',       label: '🗺️ Genre Explorer',       desc: 'Deep dive into any literary genre',      buildPrompt: function(v) { return 'Write a comprehensive guide to the ' + (v.genre||'science fiction') + ' genre. Include: definition, history, subgenres, essential classics, modern masterworks, rising authors, how to get started, and 10 essential reads with descriptions.' } },
-    { id: 'speed_read_guide',     label: '⚡ Speed Reading',        desc: 'Techniques to read faster and retain more', buildPrompt: function(v) { return 'Create a personalized speed reading guide for someone who reads ' + (v.currentSpeed||'200-250') + ' wpm. Goal: ' + (v.goal||'double speed') + '. Available time: ' + (v.timeAvailable||'15 min/day') + '. Include: techniques, exercises, weekly plan, retention strategies, and practice book recommendations.' } },
+    { id: 'genre_explorer',       label: '🗺️ Genre Explorer',       desc: 'Deep dive into any literary genre',      books: () => 10, buildPrompt: function(v) { return bookListPrompt('Write a comprehensive guide to the ' + (v.genre||'science fiction') + ' genre. Include: definition, history, subgenres, rising authors, and how to get started. The books are its essential reads — classics and modern masterworks.', 10, 'its place in the genre') } },
+    { id: 'speed_read_guide',     label: '⚡ Speed Reading',        desc: 'Techniques to read faster and retain more', library: true, buildPrompt: function(v) { return 'Create a personalized speed reading guide for someone who reads ' + (v.currentSpeed||v.readWpm||'200-250') + ' wpm' + (!v.currentSpeed && v.readWpm ? ' (measured from their logged reading sessions)' : '') + '. Goal: ' + (v.goal||'double speed') + '. Available time: ' + (v.timeAvailable||'15 min/day') + '. Include: techniques, exercises, weekly plan, retention strategies, and practice book recommendations.' } },
+    { id: 'blurb',                label: '📖 Back Cover Blurb',     desc: 'Hook readers with the perfect description', kind: 'writing', buildPrompt: blurbPrompt },
+    { id: 'query_letter',         label: '📬 Query Letter',         desc: 'Get literary agent attention',            kind: 'writing', buildPrompt: queryLetterPrompt },
+    { id: 'title_ideas',          label: '💡 Title Generator',      desc: 'Find the perfect title and subtitle',     kind: 'writing', buildPrompt: titlePrompt },
+    { id: 'synopsis',             label: '📝 Synopsis Writer',      desc: 'One-page synopsis for publishers',        kind: 'writing', buildPrompt: synopsisPrompt, wordCap: v => Number(v.maxWords) || SYNOPSIS_WORDS },
   ]
 }
-export function getFields(actionId) {
-  const map = {
-    book_recommendations: { label: 'Your Preferences', fields: [{ id: 'genres', label: 'Favorite Genres', placeholder: 'Literary fiction, sci-fi, mystery...' }, { id: 'lastBook', label: 'Last Book You Loved', placeholder: 'The Name of the Wind...' }, { id: 'mood', label: 'Current Mood', placeholder: 'Adventurous, thoughtful, escapist...' }] },
-    reading_list: { label: 'Reading Goal', fields: [{ id: 'goal', label: 'Goal', placeholder: 'Understand AI, explore history...' }, { id: 'theme', label: 'Theme or Era', placeholder: 'Victorian, modern sci-fi, Pulitzer winners...' }, { id: 'length', label: 'Number of Books', placeholder: '12' }] },
-    book_summary: { label: 'Book Details', fields: [{ id: 'bookTitle', label: 'Book Title', placeholder: 'Dune, 1984, The Midnight Library...' }, { id: 'author', label: 'Author', placeholder: 'Frank Herbert, George Orwell...' }] },
-    author_research: { label: 'Author', fields: [{ id: 'author', label: 'Author Name', placeholder: 'Ursula K. Le Guin, Toni Morrison...' }] },
-    discussion_questions: { label: 'Book Club', fields: [{ id: 'bookTitle', label: 'Book Title', placeholder: 'Educated, Pachinko...' }, { id: 'author', label: 'Author', placeholder: 'Tara Westover, Min Jin Lee...' }, { id: 'groupSize', label: 'Group Size', placeholder: '6-8 people' }] },
-    genre_explorer: { label: 'Genre', fields: [{ id: 'genre', label: 'Genre', placeholder: 'Science fiction, Gothic horror, Magical realism...' }] },
-    speed_read_guide: { label: 'Reading Goals', fields: [{ id: 'currentSpeed', label: 'Current Speed', placeholder: '200-250 wpm' }, { id: 'timeAvailable', label: 'Daily Practice Time', placeholder: '15-20 minutes' }] },
+export function getAction(actionId: string): Action | undefined {
+  return getActions().find(a => a.id === actionId)
+}
+export function getFields(actionId: string): FieldGroup {
+  const map: Record<string, FieldGroup> = {
+    book_recommendations: { label: 'Your Preferences', fields: [{ id: 'genres', label: 'Favorite Genres', placeholder: 'Literary fiction, sci-fi, mystery...', maxLength: 200 }, { id: 'lastBook', label: 'Last Book You Loved', placeholder: 'The Name of the Wind...', maxLength: 200 }, { id: 'mood', label: 'Current Mood', placeholder: 'Adventurous, thoughtful, escapist...', maxLength: 100 }] },
+    reading_list: { label: 'Reading Goal', fields: [{ id: 'goal', label: 'Goal', placeholder: 'Understand AI, explore history...', maxLength: 300 }, { id: 'theme', label: 'Theme or Era', placeholder: 'Victorian, modern sci-fi, Pulitzer winners...', maxLength: 200 }, { id: 'length', label: 'Number of Books', placeholder: '12', type: 'number', min: 1, max: 50 }] },
+    book_summary: { label: 'Book Details', fields: [{ id: 'bookTitle', label: 'Book Title', placeholder: 'Dune, 1984, The Midnight Library...', required: true, maxLength: 200 }, { id: 'author', label: 'Author', placeholder: 'Frank Herbert, George Orwell...', maxLength: 120 }] },
+    author_research: { label: 'Author', fields: [{ id: 'author', label: 'Author Name', placeholder: 'Ursula K. Le Guin, Toni Morrison...', required: true, maxLength: 120 }] },
+    discussion_questions: { label: 'Book Club', fields: [{ id: 'bookTitle', label: 'Book Title', placeholder: 'Educated, Pachinko...', required: true, maxLength: 200 }, { id: 'author', label: 'Author', placeholder: 'Tara Westover, Min Jin Lee...', maxLength: 120 }, { id: 'groupSize', label: 'Group Size', placeholder: '6-8', type: 'number', min: 1, max: 100, range: true }] },
+    genre_explorer: { label: 'Genre', fields: [{ id: 'genre', label: 'Genre', placeholder: 'Science fiction, Gothic horror, Magical realism...', maxLength: 100 }] },
+    speed_read_guide: { label: 'Reading Goals', fields: [{ id: 'currentSpeed', label: 'Current Speed (wpm)', placeholder: '200-250', type: 'number', min: 50, max: 2000, range: true }, { id: 'goal', label: 'Goal', placeholder: 'Double my speed, keep retention...', maxLength: 200 }, { id: 'timeAvailable', label: 'Daily Practice Time', placeholder: '15-20 minutes', maxLength: 60 }] },
+    blurb: { label: 'Your Book', fields: [BOOK_TITLE, BOOK_GENRE, PREMISE, CHARACTERS, { id: 'sellingPoints', label: 'Selling Points', placeholder: 'Enemies to lovers, locked-room mystery, found family...', maxLength: 500 }, { id: 'audience', label: 'Readers Who Love', placeholder: 'Fans of Tana French, cozy fantasy readers...', maxLength: 300 }] },
+    query_letter: { label: 'Your Submission', fields: [BOOK_TITLE, BOOK_GENRE, { id: 'wordCount', label: 'Manuscript Word Count', placeholder: '85000', type: 'number', min: 1000, max: 500000, prefill: 'words' }, PREMISE, { id: 'hook', label: 'Hook', placeholder: 'One-line logline...', maxLength: 400, prefill: 'logline' }, { id: 'comps', label: 'Comparable Titles', placeholder: 'THE HUSBAND\'S SECRET meets GONE GIRL...', maxLength: 400 }, { id: 'bio', label: 'Author Bio', placeholder: 'Credentials, publications, relevant experience...', maxLength: 1000, multiline: true }, { id: 'agentName', label: 'Agent Name', placeholder: 'Ms. Jane Agent', maxLength: 120 }, { id: 'personalization', label: 'Why This Agent', placeholder: 'Their wishlist, a client you admire, a talk you attended...', maxLength: 600, multiline: true }] },
+    title_ideas: { label: 'Your Book', fields: [PREMISE, BOOK_GENRE, { id: 'currentTitle', label: 'Working Title', placeholder: 'Optional', maxLength: 200, prefill: 'title' }, { id: 'themes', label: 'Themes & Keywords', placeholder: 'Grief, the sea, second chances...', maxLength: 300 }, { id: 'count', label: 'How Many Titles', placeholder: '10', type: 'number', min: 3, max: 25 }] },
+    synopsis: { label: 'Your Book', fields: [BOOK_TITLE, BOOK_GENRE, PREMISE, { id: 'outline', label: 'Plot / Outline', placeholder: 'Key events in order — paste your outline or chapter summaries...', maxLength: 12000, multiline: true, prefill: 'outline' }, CHARACTERS, { id: 'ending', label: 'How It Ends', placeholder: 'Synopses reveal the ending...', maxLength: 1000, multiline: true }, { id: 'maxWords', label: 'Word Cap', placeholder: String(SYNOPSIS_WORDS), type: 'number', min: 150, max: 1500 }] },
   }
   return map[actionId] || { label: 'Details', fields: [] }
 }
+
+// Shared fields for the writing tools; prefill keys pull from the open project
+const BOOK_TITLE: Field = { id: 'title', label: 'Book Title', placeholder: 'Untitled', maxLength: 200, prefill: 'title' }
+const BOOK_GENRE: Field = { id: 'genre', label: 'Genre', placeholder: 'Fiction', options: GENRES, prefill: 'genre' }
+const PREMISE: Field = { id: 'premise', label: 'Premise', placeholder: 'Your story premise...', required: true, maxLength: 4000, multiline: true, prefill: 'premise' }
+const CHARACTERS: Field = { id: 'characters', label: 'Main Characters', placeholder: 'Name — role, want, flaw...', maxLength: 3000, multiline: true, prefill: 'characters' }
+
+const SYNOPSIS_WORDS = 500
+
+function book(v: FieldValues): string {
+  return 'Title: ' + (v.title || 'Untitled') + '\nGenre: ' + (v.genre || 'Fiction') + '\nPremise: ' + v.premise + (v.characters ? '\nMain characters:\n' + v.characters : '')
+}
+
+function blurbPrompt(v: FieldValues): string {
+  return `Write back-cover copy for this book in three length variants.
+${book(v)}${v.sellingPoints ? '\nSelling points: ' + v.sellingPoints : ''}${v.audience ? '\nReaders who love: ' + v.audience : ''}
+
+## Short (about 50 words) — for ads and retailer previews
+## Standard (about 150 words) — the back cover
+## Long (about 250 words) — the online product description
+
+Each variant opens with a hook line, introduces the protagonist and the stakes, and ends on a question or tension — never the resolution.
+Use present tense, ${v.genre || 'genre'}-appropriate voice, no spoilers, no clichés like "in a world where".`
+}
+
+// Empty optional inputs become bracketed slots the author fills in before sending
+function queryLetterPrompt(v: FieldValues): string {
+  const slot = (value: string | undefined, name: string) => value || `[${name}]`
+  return `Write a query letter to a literary agent, 250-350 words, in the standard structure.
+${book(v)}
+Word count: ${v.wordCount ? Number(v.wordCount).toLocaleString('en-US') + ' words' : '[WORD COUNT]'}
+Hook: ${slot(v.hook, 'HOOK — write one from the premise')}
+Comparable titles: ${slot(v.comps, 'COMPS')}
+Author bio: ${slot(v.bio, 'BIO')}
+Agent: ${slot(v.agentName, 'AGENT NAME')}
+Why this agent: ${slot(v.personalization, 'PERSONALIZATION')}
+
+Structure:
+1. Salutation to the agent, then one personalization sentence.
+2. The hook — one or two sentences.
+3. The pitch — two short paragraphs: protagonist, what they want, what stands in the way, the stakes. Do not reveal the ending.
+4. Book details — title in caps, genre, word count, comps.
+5. Bio — two or three sentences.
+6. A brief, professional closing.
+
+Wherever a value above is a bracketed placeholder, keep that exact placeholder in the letter so the author can fill it in.`
+}
+
+function titlePrompt(v: FieldValues): string {
+  return `Suggest ${v.count || '10'} title options for this ${v.genre || 'Fiction'} book.
+Premise: ${v.premise}${v.currentTitle ? '\nWorking title: ' + v.currentTitle : ''}${v.themes ? '\nThemes and keywords: ' + v.themes : ''}
+
+For each option give:
+- **Title** — and a subtitle if the genre uses them (non-fiction usually does, fiction rarely)
+- Rationale: one or two sentences on why it works for this genre's readers and shelf
+Mix styles: evocative, high-concept, character-led and keyword-driven. Avoid titles of well-known existing books.
+Finish with your top pick and why.`
+}
+
+function synopsisPrompt(v: FieldValues): string {
+  const cap = Number(v.maxWords) || SYNOPSIS_WORDS
+  return `Write a one-page synopsis of this book for a publisher or agent.
+${book(v)}${v.outline ? '\nPlot / outline:\n' + v.outline : ''}${v.ending ? '\nEnding: ' + v.ending : ''}
+
+Rules:
+- Hard limit: ${cap} words. Do not exceed it.
+- Third person, present tense, in story order.
+- Name the protagonist and at most four other characters; put each name in CAPS on first appearance.
+- Cover the inciting incident, major turning points, the climax, and the ending — reveal how it ends.
+- Show the protagonist's emotional arc, not just events. No rhetorical questions, no marketing language.`
+}
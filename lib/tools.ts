@@ -0,0 +1,14 @@
+// lib/tools.ts — javari-books
+// The tool cards on the home page — each href is a page under app/ (client-safe)
+export type Tool = { href: string; icon: string; label: string; desc: string }
+
+export const TOOLS: Tool[] = [
+  { href: '/outline',      icon: '📋', label: 'Book Outline',         desc: 'Full chapter-by-chapter outline in minutes' },
+  { href: '/chapter',      icon: '✍️', label: 'Chapter Writer',       desc: 'Write compelling chapters with AI' },
+  { href: '/blurb',        icon: '📖', label: 'Back Cover Blurb',     desc: 'Hook readers with the perfect description' },
+  { href: '/query-letter', icon: '📬', label: 'Query Letter',         desc: 'Get literary agent attention' },
+  { href: '/title',        icon: '💡', label: 'Title Generator',      desc: 'Find the perfect title and subtitle' },
+  { href: '/synopsis',     icon: '📝', label: 'Synopsis Writer',      desc: 'One-page synopsis for publishers' },
+  { href: '/analyze',      icon: '📊', label: 'Manuscript Analytics', desc: 'Pacing, readability and style, chapter by chapter' },
+  { href: '/library',      icon: '📚', label: 'My Library',           desc: 'Track your reading, import Goodreads, get picks' },
+]
@@ -0,0 +1,44 @@
+// lib/validate.ts — javari-books
+// Validates submitted form values against a FieldGroup schema from tool-data
+import type { Field, FieldValues } from './tool-data'
+
+export type FieldError = { field: string; message: string }
+
+const DEFAULT_MAX_LENGTH = 500
+const INT = /^\d+$/
+const RANGE = /^(\d+)\s*-\s*(\d+)$/
+
+function checkNumber(f: Field, v: string): string | null {
+  const lo = f.min ?? 0, hi = f.max ?? Number.MAX_SAFE_INTEGER
+  const inBounds = (n: number) => n >= lo && n <= hi
+  if (INT.test(v)) return inBounds(Number(v)) ? null : `${f.label} must be between ${lo} and ${hi}`
+  const m = f.range ? RANGE.exec(v) : null
+  if (!m) return `${f.label} must be a whole number${f.range ? ' or a range like 6-8' : ''}`
+  const a = Number(m[1]), b = Number(m[2])
+  if (a > b) return `${f.label} range must run low to high`
+  return inBounds(a) && inBounds(b) ? null : `${f.label} must be between ${lo} and ${hi}`
+}
+
+// Returns trimmed string values keyed by field id, plus one error per offending field
+export function validateValues(fields: Field[], raw: unknown): { values: FieldValues; errors: FieldError[] } {
+  const values: FieldValues = {}
+  const errors: FieldError[] = []
+  if (raw === undefined || raw === null) raw = {}
+  if (typeof raw !== 'object' || Array.isArray(raw)) return { values, errors: [{ field: 'values', message: 'values must be an object' }] }
+  const input = raw as Record<string, unknown>
+  for (const key of Object.keys(input)) {
+    if (!fields.some(f => f.id === key)) errors.push({ field: key, message: `Unknown field "${key}"` })
+  }
+  for (const f of fields) {
+    const r = input[f.id]
+    if (r !== undefined && r !== null && typeof r !== 'string' && typeof r !== 'number') { errors.push({ field: f.id, message: `${f.label} must be text` }); continue }
+    const v = r === undefined || r === null ? '' : String(r).trim()
+    if (!v) { if (f.required) errors.push({ field: f.id, message: `${f.label} is required` }); continue }
+    const max = f.maxLength ?? DEFAULT_MAX_LENGTH
+    if (v.length > max) { errors.push({ field: f.id, message: `${f.label} must be at most ${max} characters` }); continue }
+    if (f.options && !f.options.includes(v)) { errors.push({ field: f.id, message: `${f.label} must be one of: ${f.options.join(', ')}` }); continue }
+    if (f.type === 'number') { const err = checkNumber(f, v); if (err) { errors.push({ field: f.id, message: err }); continue } }
+    values[f.id] = v
+  }
+  return { values, errors }
+}
@@ -0,0 +1,17 @@
+// middleware.ts — javari-books
+// Hands every browser a random owner token on its first request, so saved projects belong to the browser
+// rather than to whichever IP it is on (see lib/owner)
+import { NextRequest, NextResponse } from 'next/server'
+import { isOwnerToken, newOwnerToken, OWNER_COOKIE, OWNER_COOKIE_MAX_AGE } from './lib/owner-token'
+
+export function middleware(req: NextRequest) {
+  if (isOwnerToken(req.cookies.get(OWNER_COOKIE)?.value)) return NextResponse.next()
+  const token = newOwnerToken()
+  // Also set on the request, so the handler answering this first request already sees it
+  req.cookies.set(OWNER_COOKIE, token)
+  const res = NextResponse.next({ request: { headers: req.headers } })
+  res.cookies.set(OWNER_COOKIE, token, { httpOnly: true, sameSite: 'lax', secure: process.env.NODE_ENV === 'production', path: '/', maxAge: OWNER_COOKIE_MAX_AGE })
+  return res
+}
+
+export const config = { matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'] }
@@ -0,0 +1,211 @@
+// tests/ai.test.ts — javari-books
+// Provider chain against recorded OpenRouter and Groq traffic — fallback, retries, error paths and streaming
+import { describe, expect, it, vi } from 'vitest'
+import { AIUnavailableError, CancelledError, complete, streamComplete } from '@/lib/ai'
+import { getProviderChain, ProviderError } from '@/lib/providers'
+import { chatBody, completion, fixture, GROQ, installFetch, jsonFixture, OPENROUTER, sseChunks, useHttpProviders } from './helpers/recorded-fetch'
+
+const ask = () => complete([{ role: 'user', content: 'Summarize Dune.' }], 'You are a librarian.', { task: 'summary' })
+
+const failuresOf = async (p: Promise<unknown>) => {
+  const e = await p.catch(err => err)
+  expect(e).toBeInstanceOf(AIUnavailableError)
+  return (e as AIUnavailableError).summary
+}
+
+describe('complete', () => {
+  it('returns the first provider answer and sends an OpenAI-style request', async () => {
+    useHttpProviders()
+    const f = installFetch([{ url: OPENROUTER, json: jsonFixture('openrouter-completion.json') }])
+    await expect(ask()).resolves.toMatch(/^Dune by Frank Herbert/)
+    expect(f.calls).toHaveLength(1)
+    const { init } = f.calls[0], body = chatBody(f.calls[0])
+    expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer test-openrouter-key')
+    expect((init?.headers as Record<string, string>)['HTTP-Referer']).toBe('https://craudiovizai.com')
+    expect(body).toMatchObject({ model: 'deepseek/deepseek-v4-flash:free', max_tokens: 2048, temperature: 0.7 })
+    expect(body.stream).toBeUndefined()
+    expect(body.messages).toEqual([{ role: 'system', content: 'You are a librarian.' }, { role: 'user', content: 'Summarize Dune.' }])
+  })
+
+  it('takes model, token and temperature settings from the environment', async () => {
+    useHttpProviders('groq', { GROQ_MODEL: 'llama-3.1-8b-instant', AI_MAX_TOKENS: '512', AI_TEMPERATURE: '0.2' })
+    const f = installFetch([{ url: GROQ, json: jsonFixture('groq-completion.json') }])
+    await ask()
+    expect(chatBody(f.calls[0])).toMatchObject({ model: 'llama-3.1-8b-instant', max_tokens: 512, temperature: 0.2 })
+  })
+
+  it('falls back to groq when openrouter keeps failing with 5xx', async () => {
+    useHttpProviders()
+    const f = installFetch([
+      { url: OPENROUTER, status: 503, text: 'upstream unavailable' },
+      { url: OPENROUTER, status: 502, text: 'bad gateway' },
+      { url: GROQ, json: jsonFixture('groq-completion.json') },
+    ])
+    await expect(ask()).resolves.toMatch(/^Groq answered/)
+    expect(f.remaining()).toBe(0)
+  })
+
+  it('retries a rate-limited provider before moving on', async () => {
+    useHttpProviders()
+    const f = installFetch([
+      { url: OPENROUTER, status: 429, json: jsonFixture('openrouter-error-429.json') },
+      { url: OPENROUTER, json: jsonFixture('openrouter-completion.json') },
+    ])
+    await expect(ask()).resolves.toMatch(/^Dune/)
+    expect(f.calls.map(c => c.url)).toEqual([OPENROUTER, OPENROUTER])
+  })
+
+  it('does not retry an auth failure', async () => {
+    useHttpProviders()
+    const f = installFetch([
+      { url: OPENROUTER, status: 401, json: jsonFixture('openrouter-error-401.json') },
+      { url: GROQ, json: jsonFixture('groq-completion.json') },
+    ])
+    await expect(ask()).resolves.toMatch(/^Groq/)
+    expect(f.calls).toHaveLength(2)
+  })
+
+  it('honors AI_RETRIES', async () => {
+    useHttpProviders('openrouter', { AI_RETRIES: '3' })
+    const f = installFetch([
+      { status: 500 }, { status: 500 }, { status: 500 },
+      { url: OPENROUTER, json: jsonFixture('openrouter-completion.json') },
+    ])
+    await expect(ask()).resolves.toMatch(/^Dune/)
+    expect(f.calls).toHaveLength(4)
+  })
+
+  it('treats a response shorter than AI_MIN_CHARS as a failure', async () => {
+    useHttpProviders('openrouter,groq', { AI_MIN_CHARS: '20', AI_RETRIES: '0' })
+    installFetch([
+      { url: OPENROUTER, json: completion('  Sure!  ') },
+      { url: GROQ, json: jsonFixture('groq-completion.json') },
+    ])
+    await expect(ask()).resolves.toMatch(/^Groq/)
+  })
+
+  it('treats an empty or malformed body as empty output', async () => {
+    useHttpProviders('openrouter,groq', { AI_RETRIES: '0' })
+    installFetch([{ url: OPENROUTER, text: '<html>oops</html>' }, { url: GROQ, json: { choices: [] } }])
+    expect(await failuresOf(ask())).toEqual([
+      { provider: 'openrouter', reason: 'empty_output', status: undefined },
+      { provider: 'groq', reason: 'empty_output', status: undefined },
+    ])
+  })
+
+  it('reports thrown network errors per attempt', async () => {
+    useHttpProviders()
+    const f = installFetch([
+      { url: OPENROUTER, error: 'fetch failed' }, { url: OPENROUTER, error: 'fetch failed' },
+      { url: GROQ, error: 'getaddrinfo ENOTFOUND api.groq.com' }, { url: GROQ, error: 'getaddrinfo ENOTFOUND api.groq.com' },
+    ])
+    const failures = await failuresOf(ask())
+    expect(failures.map(x => `${x.provider}:${x.reason}`)).toEqual(['openrouter:network', 'openrouter:network', 'groq:network', 'groq:network'])
+    expect(f.remaining()).toBe(0)
+  })
+
+  it('summarizes HTTP failures with status codes but nothing from the body', async () => {
+    useHttpProviders('openrouter,groq', { AI_RETRIES: '0' })
+    installFetch([{ url: OPENROUTER, status: 401, json: jsonFixture('openrouter-error-401.json') }, { url: GROQ, status: 400, text: 'secret detail' }])
+    const e = await ask().then(() => { throw new Error('expected ask() to fail') }, (err: AIUnavailableError) => err)
+    expect(e.summary).toEqual([
+      { provider: 'openrouter', reason: 'http_status', status: 401 },
+      { provider: 'groq', reason: 'http_status', status: 400 },
+    ])
+    expect(JSON.stringify(e.summary)).not.toContain('secret')
+  })
+
+  it('times out a provider that never answers and falls back', async () => {
+    useHttpProviders('openrouter,groq', { OPENROUTER_TIMEOUT_MS: '20', AI_RETRIES: '0' })
+    installFetch([{ url: OPENROUTER, hang: true }, { url: GROQ, json: jsonFixture('groq-completion.json') }])
+    await expect(ask()).resolves.toMatch(/^Groq/)
+  })
+
+  it('gives up on the whole chain at the deadline, however many attempts remain', async () => {
+    useHttpProviders('openrouter,groq', { AI_TIMEOUT_MS: '1000', AI_RETRIES: '1', AI_DEADLINE_MS: '60' })
+    const f = installFetch([{ url: OPENROUTER, hang: true }, { url: OPENROUTER, hang: true }, { url: GROQ, hang: true }, { url: GROQ, hang: true }])
+    const started = Date.now()
+    const failures = await failuresOf(ask())
+    expect(Date.now() - started).toBeLessThan(500)
+    expect(failures).toEqual([
+      { provider: 'openrouter', reason: 'timeout', status: undefined },
+      { provider: 'openrouter', reason: 'timeout', status: undefined },
+    ])
+    expect(f.calls).toHaveLength(1)
+  })
+
+  it('spends a deadline passed in rather than starting its own', async () => {
+    useHttpProviders('openrouter')
+    const f = installFetch([{ url: OPENROUTER, json: jsonFixture('openrouter-completion.json') }])
+    const spent = complete([{ role: 'user', content: 'Summarize Dune.' }], 'You are a librarian.', { deadline: Date.now() - 1 })
+    expect(await failuresOf(spent)).toEqual([{ provider: 'openrouter', reason: 'timeout', status: undefined }])
+    expect(f.calls).toHaveLength(0)
+  })
+
+  it('skips providers without keys without calling them', async () => {
+    vi.stubEnv('AI_PROVIDERS', 'openrouter,groq')
+    vi.stubEnv('OPENROUTER_API_KEY', '')
+    vi.stubEnv('GROQ_API_KEY', '')
+    const f = installFetch([])
+    expect(await failuresOf(ask())).toEqual([
+      { provider: 'openrouter', reason: 'missing_key', status: undefined },
+      { provider: 'groq', reason: 'missing_key', status: undefined },
+    ])
+    expect(f.calls).toHaveLength(0)
+  })
+
+  it('rejects an unknown provider name', () => {
+    expect(() => getProviderChain({ AI_PROVIDERS: 'openrouter,claude' })).toThrow('Unknown AI provider: claude')
+  })
+})
+
+describe('ProviderError.retryable', () => {
+  it.each([
+    ['missing_key', undefined, false], ['http_status', 400, false], ['http_status', 401, false], ['http_status', 404, false],
+    ['http_status', 408, true], ['http_status', 429, true], ['http_status', 500, true], ['network', undefined, true],
+    ['timeout', undefined, true], ['empty_output', undefined, true],
+  ] as const)('%s %s → %s', (reason, status, retryable) => {
+    expect(new ProviderError('x', reason, 'm', status).retryable).toBe(retryable)
+  })
+})
+
+describe('streamComplete', () => {
+  const stream = (onDelta: (t: string) => void, signal?: AbortSignal) =>
+    streamComplete([{ role: 'user', content: 'A line about spice.' }], 'You are terse.', onDelta, { signal })
+
+  it('parses a recorded SSE stream split across reads', async () => {
+    useHttpProviders()
+    const f = installFetch([{ url: OPENROUTER, sse: sseChunks(fixture('openrouter-stream.txt'), 37) }])
+    const deltas: string[] = []
+    await expect(stream(t => deltas.push(t))).resolves.toBe('The spice must flow.')
+    expect(deltas).toEqual(['The spice ', 'must flow.'])
+    expect(chatBody(f.calls[0]).stream).toBe(true)
+  })
+
+  it('falls back before the first token', async () => {
+    useHttpProviders('openrouter,groq', { AI_RETRIES: '0' })
+    const groq = fixture('openrouter-stream.txt').replace(/must flow\./, 'flows.')
+    installFetch([{ url: OPENROUTER, status: 503 }, { url: GROQ, sse: [groq] }])
+    await expect(stream(() => {})).resolves.toBe('The spice flows.')
+  })
+
+  it('does not fall back once text has been emitted', async () => {
+    useHttpProviders()
+    const events = fixture('openrouter-stream.txt').split('\n\n')
+    const f = installFetch([{ url: OPENROUTER, sse: events.slice(0, 3).map(e => e + '\n\n'), cut: true }, { url: GROQ, json: jsonFixture('groq-completion.json') }])
+    const deltas: string[] = []
+    const failures = await failuresOf(stream(t => deltas.push(t)))
+    expect(deltas).toEqual(['The spice '])
+    expect(failures).toEqual([{ provider: 'openrouter', reason: 'network', status: undefined }])
+    expect(f.remaining()).toBe(1)
+  })
+
+  it('cancels when the caller aborts', async () => {
+    useHttpProviders()
+    installFetch([{ url: OPENROUTER, hang: true }])
+    const ctl = new AbortController()
+    const p = stream(() => {}, ctl.signal)
+    setTimeout(() => ctl.abort(), 10)
+    await expect(p).rejects.toBeInstanceOf(CancelledError)
+  })
+})
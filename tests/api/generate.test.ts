@@ -0,0 +1,219 @@
+// tests/api/generate.test.ts — javari-books
+// /api/generate — validation, metering, recorded-provider fallback, streaming, word caps and verified book lists
+import { describe, expect, it, vi } from 'vitest'
+import { GET, POST } from '@/app/api/generate/route'
+import { getCreditStore } from '@/lib/credits'
+import { chatBody, completion, fixture, GROQ, installFetch, jsonFixture, OPENROUTER, sseChunks, useHttpProviders } from '../helpers/recorded-fetch'
+import { readSSE, request, streamedText } from '../helpers/requests'
+
+const post = (body: unknown, headers?: Record<string, string>) => POST(request('/api/generate', body, { headers }))
+const CALLER = 'ip:203.0.113.7'
+
+describe('POST /api/generate — input', () => {
+  it('rejects a body that is not JSON', async () => {
+    const res = await POST(request('/api/generate', undefined, { raw: '{"action":' }))
+    expect(res.status).toBe(400)
+    expect(await res.json()).toEqual({ error: 'Invalid JSON body' })
+  })
+
+  it('rejects an unknown action', async () => {
+    const res = await post({ action: 'write_my_novel', values: {} })
+    expect(res.status).toBe(400)
+    expect((await res.json()).fields).toEqual([{ field: 'action', message: 'Unknown action' }])
+  })
+
+  it('reports every invalid field at once', async () => {
+    const res = await post({ action: 'discussion_questions', values: { bookTitle: '', groupSize: '500' }, regenerate: 'yes' })
+    expect(res.status).toBe(400)
+    const { fields } = await res.json()
+    expect(fields.map((f: { field: string }) => f.field)).toEqual(['bookTitle', 'groupSize', 'regenerate'])
+  })
+
+  it('rejects an option outside the list', async () => {
+    const res = await post({ action: 'blurb', values: { premise: 'A lighthouse keeper finds a letter.', genre: 'Cookbook' } })
+    expect(res.status).toBe(400)
+    expect((await res.json()).fields[0].field).toBe('genre')
+  })
+
+  it('charges nothing for a rejected request', async () => {
+    await post({ action: 'book_summary', values: {} })
+    expect(await getCreditStore().balance(CALLER)).toBe(50)
+  })
+})
+
+describe('POST /api/generate — providers', () => {
+  it('returns the recorded completion and charges the action cost', async () => {
+    useHttpProviders()
+    const f = installFetch([{ url: OPENROUTER, json: jsonFixture('openrouter-completion.json') }])
+    const res = await post({ action: 'book_summary', values: { bookTitle: 'Dune', author: 'Frank Herbert' } })
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data.result).toMatch(/^Dune by Frank Herbert/)
+    expect(data).toMatchObject({ credits_used: 2, credits_remaining: 48 })
+    expect(res.headers.get('X-Credits-Cost')).toBe('2')
+    expect(res.headers.get('X-Credits-Remaining')).toBe('48')
+    expect(chatBody(f.calls[0]).messages[1].content).toContain('summary of "Dune" by Frank Herbert')
+  })
+
+  it('uses the writing system prompt for author tools', async () => {
+    useHttpProviders('groq')
+    const f = installFetch([{ url: GROQ, json: jsonFixture('groq-completion.json') }])
+    await post({ action: 'title_ideas', values: { premise: 'A cartographer maps a city that moves.' } })
+    expect(chatBody(f.calls[0]).messages[0].content).toMatch(/^You are a veteran publishing professional/)
+  })
+
+  it('falls back to groq after openrouter fails', async () => {
+    useHttpProviders()
+    installFetch([
+      { url: OPENROUTER, status: 500 }, { url: OPENROUTER, error: 'fetch failed' },
+      { url: GROQ, json: jsonFixture('groq-completion.json') },
+    ])
+    const data = await (await post({ action: 'book_summary', values: { bookTitle: 'Dune' } })).json()
+    expect(data.result).toMatch(/^Groq answered/)
+  })
+
+  it('returns 502 with a failure summary and refunds when every provider fails', async () => {
+    useHttpProviders('openrouter,groq', { AI_RETRIES: '0', AI_MIN_CHARS: '10' })
+    installFetch([{ url: OPENROUTER, status: 401, json: jsonFixture('openrouter-error-401.json') }, { url: GROQ, json: completion('ok') }])
+    const res = await post({ action: 'blurb', values: { premise: 'A lighthouse keeper finds a letter.' } })
+    expect(res.status).toBe(502)
+    expect(await res.json()).toEqual({
+      error: 'AI unavailable',
+      failures: [{ provider: 'openrouter', reason: 'http_status', status: 401 }, { provider: 'groq', reason: 'empty_output' }],
+    })
+    expect(await getCreditStore().balance(CALLER)).toBe(50)
+  })
+
+  it('returns 500 for a misconfigured provider chain', async () => {
+    vi.stubEnv('AI_PROVIDERS', 'nonesuch')
+    const res = await post({ action: 'book_summary', values: { bookTitle: 'Dune' } })
+    expect(res.status).toBe(500)
+    expect((await res.json()).error).toBe('Unknown AI provider: nonesuch')
+    expect(await getCreditStore().balance(CALLER)).toBe(50)
+  })
+})
+
+describe('POST /api/generate — metering', () => {
+  it('returns 402 when the balance is too low', async () => {
+    vi.stubEnv('CREDITS_STARTING_BALANCE', '1')
+    const res = await post({ action: 'book_summary', values: { bookTitle: 'Dune' } })
+    expect(res.status).toBe(402)
+    expect(await res.json()).toEqual({ error: 'Insufficient credits', balance: 1, cost: 2 })
+  })
+
+  it('returns 429 with Retry-After past the per-minute limit', async () => {
+    vi.stubEnv('RATE_LIMIT_PER_MINUTE', '2')
+    const body = { action: 'book_summary', values: { bookTitle: 'Dune' } }
+    expect((await post(body)).status).toBe(200)
+    expect((await post(body)).status).toBe(200)
+    const res = await post(body)
+    expect(res.status).toBe(429)
+    expect(Number(res.headers.get('Retry-After'))).toBeGreaterThan(0)
+    // Another caller has its own window
+    expect((await post(body, { 'x-forwarded-for': '198.51.100.2' })).status).toBe(200)
+  })
+
+  it('does not hand out a fresh balance or rate-limit window for a spoofed x-forwarded-for', async () => {
+    vi.stubEnv('RATE_LIMIT_PER_MINUTE', '2')
+    const body = { action: 'book_summary', values: { bookTitle: 'Dune' } }
+    expect((await post(body, { 'x-forwarded-for': '6.6.6.6, 203.0.113.7' })).status).toBe(200)
+    expect((await post(body, { 'x-forwarded-for': '7.7.7.7, 203.0.113.7' })).status).toBe(200)
+    expect((await post(body, { 'x-forwarded-for': '8.8.8.8, 203.0.113.7' })).status).toBe(429)
+    expect(await getCreditStore().balance(CALLER)).toBe(46)
+  })
+
+  it('rejects an unknown API key with 401', async () => {
+    vi.stubEnv('JAVARI_API_KEYS', 'known-key')
+    const res = await post({ action: 'book_summary', values: { bookTitle: 'Dune' } }, { authorization: 'Bearer typo-key' })
+    expect(res.status).toBe(401)
+  })
+})
+
+describe('POST /api/generate — output', () => {
+  it('streams a recorded SSE completion as OpenAI-style chunks', async () => {
+    useHttpProviders()
+    installFetch([{ url: OPENROUTER, sse: sseChunks(fixture('openrouter-stream.txt')) }])
+    const res = await post({ action: 'book_summary', values: { bookTitle: 'Dune' }, stream: true })
+    expect(res.headers.get('Content-Type')).toMatch(/^text\/event-stream/)
+    expect(res.headers.get('X-Credits-Cost')).toBe('2')
+    const events = await readSSE(res)
+    expect(streamedText(events)).toBe('The spice must flow.')
+    expect(events[events.length - 1].data).toBe('[DONE]')
+  })
+
+  it('ends a failed stream with an error event and refunds', async () => {
+    useHttpProviders('openrouter', { AI_RETRIES: '0' })
+    installFetch([{ url: OPENROUTER, status: 503 }])
+    const events = await readSSE(await post({ action: 'book_summary', values: { bookTitle: 'Dune' }, stream: true }))
+    expect(events).toEqual([{ event: 'error', data: JSON.stringify({ error: 'AI unavailable', failures: [{ provider: 'openrouter', reason: 'http_status', status: 503 }] }) }])
+    expect(await getCreditStore().balance(CALLER)).toBe(50)
+  })
+
+  it('caps a synopsis at its word limit on a sentence end', async () => {
+    useHttpProviders('openrouter')
+    const long = Array.from({ length: 60 }, (_, i) => `Sentence number ${i} has exactly seven words here.`).join(' ')
+    const f = installFetch([{ url: OPENROUTER, json: completion(long) }])
+    const data = await (await post({ action: 'synopsis', values: { premise: 'A heist on a moon.', maxWords: '150' } })).json()
+    expect(data.word_cap).toBe(150)
+    expect(data.words).toBeLessThanOrEqual(150)
+    expect(data.result).toMatch(/here\.$/)
+    expect(chatBody(f.calls[0]).max_tokens).toBe(240)
+  })
+
+  it('cuts a streamed synopsis at the same place and reports the cap in the last chunk', async () => {
+    useHttpProviders('openrouter')
+    const long = Array.from({ length: 60 }, (_, i) => `Sentence number ${i} has exactly seven words here.`).join(' ')
+    const body = { action: 'synopsis', values: { premise: 'A heist on a moon.', maxWords: '150' } }
+    installFetch([{ url: OPENROUTER, json: completion(long) }])
+    const expected = (await (await post(body)).json()).result
+    const sse = long.split(/(?<= )/).map(t => `data: ${JSON.stringify({ choices: [{ delta: { content: t } }] })}\n\n`)
+    installFetch([{ url: OPENROUTER, sse: [...sse, 'data: [DONE]\n\n'] }])
+    const events = await readSSE(await post({ ...body, stream: true }))
+    expect(streamedText(events)).toBe(expected)
+    const last = JSON.parse(events[events.length - 2].data)
+    expect(last).toMatchObject({ choices: [{ finish_reason: 'stop' }], word_cap: 150, words: 144, truncated: true })
+    expect(events[events.length - 1].data).toBe('[DONE]')
+  })
+
+  it('verifies a book list against the catalog and replaces rejected entries', async () => {
+    const res = await post({ action: 'author_research', values: { author: 'Ursula K. Le Guin' }, regenerate: true })
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data.books).toHaveLength(6)
+    expect(data.verification).toMatchObject({ catalog: 'fixture', rejected: 0, replaced: 1 })
+    expect(data.removed[0]).toMatchObject({ author: 'Imogen Vale', status: 'rejected' })
+    expect(data.credits_used).toBe(3)
+  })
+
+  it('keeps rejected entries marked without regenerate, and leaves them out of the text', async () => {
+    const data = await (await post({ action: 'genre_explorer', values: {} })).json()
+    expect(data.verification).toMatchObject({ rejected: 1, replaced: 0 })
+    expect(data.books.find((b: { status: string }) => b.status === 'rejected').reasons.length).toBeGreaterThan(0)
+    expect(data.result).not.toContain('Imogen Vale')
+  })
+
+  it('keeps rejected entries marked when the deadline leaves no time to replace them', async () => {
+    vi.stubEnv('AI_DEADLINE_MS', '5000')
+    const data = await (await post({ action: 'author_research', values: { author: 'Ursula K. Le Guin' }, regenerate: true })).json()
+    expect(data.verification).toMatchObject({ rejected: 1, replaced: 0 })
+  })
+
+  it('returns 502 when the model answers with something other than a book list', async () => {
+    useHttpProviders('openrouter')
+    installFetch([{ url: OPENROUTER, json: completion('I would recommend Dune and Foundation!') }])
+    const res = await post({ action: 'book_recommendations', values: {} })
+    expect(res.status).toBe(502)
+    expect((await res.json()).error).toBe('Could not parse book list')
+    expect(await getCreditStore().balance(CALLER)).toBe(50)
+  })
+})
+
+describe('GET /api/generate', () => {
+  it('lists every action with its form and cost', async () => {
+    const { actions } = await (await GET()).json()
+    expect(actions.map((a: { id: string }) => a.id)).toContain('synopsis')
+    const synopsis = actions.find((a: { id: string }) => a.id === 'synopsis')
+    expect(synopsis).toMatchObject({ kind: 'writing', verified: false, cost: 2 })
+    expect(actions.find((a: { id: string }) => a.id === 'reading_list')).toMatchObject({ kind: 'discovery', verified: true })
+  })
+})
@@ -0,0 +1,139 @@
+// tests/api/library.test.ts — javari-books
+// Reading library routes — shelves, CSV import, sessions, plans, and the library feeding discovery prompts
+import { describe, expect, it } from 'vitest'
+import { POST as generate } from '@/app/api/generate/route'
+import { DELETE as removeBook, PATCH as patchBook } from '@/app/api/library/books/[id]/route'
+import { POST as logSession } from '@/app/api/library/books/[id]/sessions/route'
+import { POST as addBook } from '@/app/api/library/books/route'
+import { POST as importCsv } from '@/app/api/library/import/route'
+import { DELETE as deletePlan } from '@/app/api/library/plans/[id]/route'
+import { POST as createPlan } from '@/app/api/library/plans/route'
+import { GET as getLibrary } from '@/app/api/library/route'
+import { OWNER_COOKIE } from '@/lib/owner-token'
+import { chatBody, completion, installFetch, OPENROUTER, useHttpProviders } from '../helpers/recorded-fetch'
+import { params, request } from '../helpers/requests'
+
+const GOODREADS = `Book Id,Title,Author,ISBN,ISBN13,My Rating,Number of Pages,Original Publication Year,Date Read,Date Added,Bookshelves,Exclusive Shelf,My Review
+1,Dune,Frank Herbert,"=""0441013597""","=""9780441013593""",5,688,1965,2024/03/02,2024/01/10,"favorites, read",read,Spice.<br/>Sand.
+2,The Road,Cormac McCarthy,"=""""","=""""",0,287,2006,,2024/02/01,did-not-finish,did-not-finish,
+3,Piranesi,Susanna Clarke,,,0,272,2020,,2024/05/01,,to-read,
+`
+
+const library = async (headers?: Record<string, string>) => (await getLibrary(request('/api/library', undefined, { headers }))).json()
+
+describe('library books', () => {
+  it('adds a book to the to-read shelf and refuses a duplicate', async () => {
+    const res = await addBook(request('/api/library/books', { title: 'Dune', author: 'Frank Herbert', isbn: '0-441-01359-7' }))
+    expect(res.status).toBe(201)
+    const { book } = await res.json()
+    expect(book).toMatchObject({ shelf: 'to-read', isbn: '9780441013593', progress: 0 })
+    const dup = await addBook(request('/api/library/books', { title: 'DUNE', author: 'F. Herbert' }))
+    expect(dup.status).toBe(409)
+  })
+
+  it('validates books', async () => {
+    const res = await addBook(request('/api/library/books', { title: '', author: 'x', isbn: '978-0-00-000000-1', rating: 7, shelf: 'attic' }))
+    expect((await res.json()).fields.map((f: { field: string }) => f.field)).toEqual(['title', 'isbn', 'shelf', 'rating'])
+  })
+
+  it('keeps each browser’s library separate, whatever IP it is on', async () => {
+    await addBook(request('/api/library/books', { title: 'Dune', author: 'Frank Herbert' }))
+    expect((await library()).books).toHaveLength(1)
+    expect((await library({ 'x-forwarded-for': '198.51.100.9' })).books).toHaveLength(1)
+    expect((await library({ cookie: `${OWNER_COOKIE}=0b6d7c1a-2e4f-4a8b-b3c5-d9e0f1a2b3c4` })).books).toHaveLength(0)
+    expect((await getLibrary(request('/api/library', undefined, { headers: { cookie: '' } }))).status).toBe(401)
+  })
+
+  it('logs sessions that move progress, the shelf and the measured speed', async () => {
+    const { book } = await (await addBook(request('/api/library/books', { title: 'Dune', author: 'Frank Herbert', pages: 600 }))).json()
+    const res = await logSession(request('/x', { minutes: 30, pages: 30, date: '2026-01-05' }), params({ id: book.id }))
+    expect(res.status).toBe(201)
+    const data = await res.json()
+    expect(data.book).toMatchObject({ shelf: 'reading', progress: 5, startedAt: '2026-01-05' })
+    expect(data.wpm).toBe(275)
+    expect((await library()).stats.wpm).toBe(275)
+  })
+
+  it('updates and removes books', async () => {
+    const { book } = await (await addBook(request('/api/library/books', { title: 'Dune', author: 'Frank Herbert' }))).json()
+    const bad = await patchBook(request('/x', { startedAt: '2026-02-01', finishedAt: '2026-01-01' }, { method: 'PATCH' }), params({ id: book.id }))
+    expect(bad.status).toBe(400)
+    const ok = await patchBook(request('/x', { shelf: 'read', rating: 4.5, finishedAt: '2026-02-01' }, { method: 'PATCH' }), params({ id: book.id }))
+    expect((await ok.json()).book).toMatchObject({ shelf: 'read', rating: 4.5 })
+    expect((await removeBook(request('/x', undefined, { method: 'DELETE' }), params({ id: book.id }))).status).toBe(200)
+    expect((await removeBook(request('/x', undefined, { method: 'DELETE' }), params({ id: book.id }))).status).toBe(404)
+  })
+
+  it('keeps every write when requests overlap', async () => {
+    const { book } = await (await addBook(request('/api/library/books', { title: 'Dune', author: 'Frank Herbert', pages: 600 }))).json()
+    const results = await Promise.all([
+      logSession(request('/x', { minutes: 30, pages: 30, date: '2026-01-05' }), params({ id: book.id })),
+      logSession(request('/x', { minutes: 30, pages: 30, date: '2026-01-06' }), params({ id: book.id })),
+      importCsv(request('/api/library/import', { csv: GOODREADS })),
+      addBook(request('/api/library/books', { title: 'Foundation', author: 'Isaac Asimov' })),
+    ])
+    expect(results.map(r => r.status)).toEqual([201, 201, 200, 201])
+    const { books, stats } = await library()
+    expect(books.map((b: { title: string }) => b.title).sort()).toEqual(['Dune', 'Foundation', 'Piranesi', 'The Road'])
+    expect(stats.sessions).toBe(2)
+  })
+})
+
+describe('POST /api/library/import', () => {
+  it('imports a Goodreads export and updates on a second import', async () => {
+    const first = await (await importCsv(request('/api/library/import', { csv: GOODREADS }))).json()
+    expect(first).toEqual({ format: 'goodreads', added: 3, updated: 0, skipped: 0, errors: [] })
+    const { books, stats } = await library()
+    const dune = books.find((b: { title: string }) => b.title === 'Dune')
+    expect(dune).toMatchObject({ shelf: 'read', rating: 5, isbn: '9780441013593', finishedAt: '2024-03-02', review: 'Spice.\nSand.', tags: ['favorites'] })
+    expect(stats.shelves).toEqual({ 'to-read': 1, reading: 0, read: 1, dnf: 1 })
+    const again = await (await importCsv(request('/api/library/import', { csv: GOODREADS }))).json()
+    expect(again).toMatchObject({ added: 0, updated: 3 })
+  })
+
+  it('rejects a file it does not recognize', async () => {
+    const res = await importCsv(request('/api/library/import', { csv: 'name,score\nDune,5\n' }))
+    expect(res.status).toBe(400)
+    expect((await res.json()).error).toBe('Unrecognized CSV')
+  })
+})
+
+describe('reading plans', () => {
+  it('schedules a plan, adds its books to the shelf, and deletes it', async () => {
+    const res = await createPlan(request('/api/library/plans', { title: 'Spring', startDate: '2026-03-01', minutesPerDay: 30, books: [{ title: 'Dune', author: 'Frank Herbert', pages: 600 }, { title: 'Piranesi', author: 'Susanna Clarke' }] }))
+    expect(res.status).toBe(201)
+    const { plan } = await res.json()
+    // 30 min × 250 wpm ÷ 275 words a page ≈ 27 pages a day
+    expect(plan.items.map((i: { due: string }) => i.due)).toEqual(['2026-03-22', '2026-04-02'])
+    expect(plan).toMatchObject({ wpm: 250, total: 2, done: 0 })
+    expect((await library()).books).toHaveLength(2)
+    expect((await deletePlan(request('/x', undefined, { method: 'DELETE' }), params({ id: plan.id }))).status).toBe(200)
+    expect((await library()).books).toHaveLength(2)
+  })
+
+  it('validates plans', async () => {
+    const res = await createPlan(request('/api/library/plans', { title: '', minutesPerDay: 2, books: [{ title: 'Dune' }] }))
+    expect((await res.json()).fields.map((f: { field: string }) => f.field)).toEqual(['title', 'minutesPerDay', 'books[0].author'])
+  })
+})
+
+describe('library-aware discovery', () => {
+  it('sends the reading history in the prompt, never from the client', async () => {
+    await importCsv(request('/api/library/import', { csv: GOODREADS }))
+    useHttpProviders('openrouter')
+    const list = { summary: 'For you.', books: [{ title: 'Dune', author: 'Frank Herbert', year: 1965, isbn: '9780441013593', description: 'd', why: 'w' }, { title: 'Foundation', author: 'Isaac Asimov', year: 1951, isbn: null, description: 'd', why: 'w' }] }
+    const f = installFetch([{ url: OPENROUTER, json: completion(JSON.stringify(list)) }])
+    const data = await (await generate(request('/api/generate', { action: 'book_recommendations', values: {} }))).json()
+    const prompt = chatBody(f.calls[0]).messages[1].content
+    expect(prompt).toContain('Rated highly: "Dune" by Frank Herbert (5★)')
+    expect(prompt).toContain('Did not finish: "The Road" by Cormac McCarthy')
+    // Already read, so rejected; Foundation is in the fixture catalog
+    expect(data.books.map((b: { status: string }) => b.status)).toEqual(['rejected', 'verified'])
+    expect(data.books[0].reasons).toEqual(['already on your read shelf'])
+  })
+
+  it('refuses history smuggled in as a form value', async () => {
+    const res = await generate(request('/api/generate', { action: 'book_recommendations', values: { history: 'anything' } }))
+    expect(res.status).toBe(400)
+  })
+})
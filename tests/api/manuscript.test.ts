@@ -0,0 +1,141 @@
+// tests/api/manuscript.test.ts — javari-books
+// /api/revise, /api/analyze and /api/credits — targeted revision diffs, local analytics, the price list
+import { describe, expect, it, vi } from 'vitest'
+import { POST as analyze } from '@/app/api/analyze/route'
+import { GET as credits } from '@/app/api/credits/route'
+import { POST as saveChapter } from '@/app/api/projects/[id]/chapters/route'
+import { POST as createProject } from '@/app/api/projects/route'
+import { POST as revise } from '@/app/api/revise/route'
+import { getCreditStore } from '@/lib/credits'
+import { applyHunks, changeIds, type DiffHunk } from '@/lib/diff'
+import { getRateLimiter } from '@/lib/rate-limit'
+import { PASSAGE_END, PASSAGE_START } from '@/lib/revise'
+import { chatBody, completion, installFetch, OPENROUTER, useHttpProviders } from '../helpers/recorded-fetch'
+import { params, request } from '../helpers/requests'
+
+const TEXT = 'Nell climbed the stairs. She found the letter on the rail. Her hands shook as she opened it. The sea below was grey.'
+const PASSAGE = 'She found the letter on the rail. Her hands shook as she opened it.'
+const START = TEXT.indexOf(PASSAGE)
+
+describe('POST /api/revise', () => {
+  const send = (body: Record<string, unknown>) => revise(request('/api/revise', { text: TEXT, start: START, end: START + PASSAGE.length, ...body }))
+
+  it('sends the passage between markers with surrounding context and returns a word diff', async () => {
+    useHttpProviders('openrouter')
+    const f = installFetch([{ url: OPENROUTER, json: completion('```\nHere is the revised passage:\nShe found the letter. Her hands trembled as she opened it.\n```') }])
+    const res = await send({ instruction: 'Tighten', genre: 'Fantasy', tone: 'Literary' })
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data).toMatchObject({ start: START, original: PASSAGE, revised: 'She found the letter. Her hands trembled as she opened it.', credits_used: 2 })
+    const hunks: DiffHunk[] = data.hunks
+    expect(hunks.filter(h => h.kind === 'change')).toEqual([
+      { kind: 'change', id: 0, before: ' on the rail', after: '' },
+      { kind: 'change', id: 1, before: 'shook', after: 'trembled' },
+    ])
+    expect(applyHunks(hunks, new Set([1]))).toBe('She found the letter on the rail. Her hands trembled as she opened it.')
+    expect(applyHunks(hunks, new Set(changeIds(hunks)))).toBe(data.revised)
+
+    const [system, user] = chatBody(f.calls[0]).messages
+    expect(system.content).toMatch(/^You are a bestselling Fantasy author and line editor/)
+    expect(user.content).toContain('Instruction: Tighten\nGenre: Fantasy\nTone: Literary')
+    expect(user.content).toContain(`…Nell climbed the stairs. ${PASSAGE_START}${PASSAGE}${PASSAGE_END} The sea below was grey.…`)
+  })
+
+  it('widens a selection that cuts through words', async () => {
+    const data = await (await revise(request('/api/revise', { text: TEXT, start: START + 2, end: START + PASSAGE.length - 2, instruction: 'Tighten' }))).json()
+    expect(data.original).toBe(PASSAGE)
+  })
+
+  it('refunds when the model returns nothing usable', async () => {
+    useHttpProviders('openrouter')
+    installFetch([{ url: OPENROUTER, json: completion(`${PASSAGE_START}\n${PASSAGE_END}`) }])
+    const res = await send({ instruction: 'Tighten' })
+    expect(res.status).toBe(502)
+    expect(await res.json()).toEqual({ error: 'Could not parse revision' })
+    expect(await getCreditStore().balance('ip:203.0.113.7')).toBe(50)
+  })
+
+  it('validates the range, instruction and settings', async () => {
+    const res = await revise(request('/api/revise', { text: TEXT, start: 10, end: 5, instruction: ' ', pov: 'Fourth Person' }))
+    expect((await res.json()).fields.map((f: { field: string }) => f.field)).toEqual(['range', 'instruction', 'pov'])
+    const blank = await revise(request('/api/revise', { text: 'a   b', start: 1, end: 4, instruction: 'x' }))
+    expect((await blank.json()).fields).toEqual([{ field: 'range', message: 'the selected passage is empty' }])
+  })
+
+  it('returns 404 for an unknown project', async () => {
+    expect((await send({ instruction: 'Tighten', projectId: 'missing' })).status).toBe(404)
+  })
+
+  it('swaps pronouns with the mock provider for a first-person rewrite', async () => {
+    const data = await (await send({ instruction: 'Switch to first person' })).json()
+    expect(data.revised).not.toBe(PASSAGE)
+    expect(data.revised).toMatch(/\b(I|My)\b/)
+    expect(changeIds(data.hunks).length).toBeGreaterThan(0)
+  })
+})
+
+describe('POST /api/analyze', () => {
+  const chapter = (n: number, words: number) => ({ number: n, text: Array.from({ length: words / 6 }, () => 'She walked to the old harbor.').join(' '), targetWords: 300 })
+
+  it('analyzes one chapter with a target', async () => {
+    const data = await (await analyze(request('/api/analyze', { text: TEXT, targetWords: 100, pov: 'Third Person Limited' }))).json()
+    expect(data.chapter).toMatchObject({ number: 1, words: 23 })
+    expect(data.chapter.flags.length).toBeGreaterThan(0)
+  })
+
+  it('analyzes a book and is not metered', async () => {
+    vi.stubEnv('CREDITS_STARTING_BALANCE', '0')
+    const res = await analyze(request('/api/analyze', { chapters: [chapter(1, 300), chapter(2, 300), chapter(3, 900)] }))
+    const { book } = await res.json()
+    expect(book.chapters).toHaveLength(3)
+    expect(book.totals.words).toBe(1500)
+    expect(book.repeated[0].phrase).toContain('walked to the old')
+    expect(res.headers.get('X-Credits-Cost')).toBeNull()
+  })
+
+  it('analyzes a saved project', async () => {
+    const { project } = await (await createProject(request('/api/projects', { settings: { premise: 'A keeper.', pov: 'First Person' } }))).json()
+    await saveChapter(request('/x', { number: 1, text: TEXT }), params({ id: project.id }))
+    const { book } = await (await analyze(request('/api/analyze', { projectId: project.id }))).json()
+    expect(book.chapters[0].pov.expected).toBe('First Person')
+  })
+
+  it('validates input', async () => {
+    const dup = await analyze(request('/api/analyze', { chapters: [{ number: 1, text: 'a' }, { number: 1, text: 'b' }] }))
+    expect((await dup.json()).fields).toEqual([{ field: 'chapters', message: 'chapter numbers must be unique' }])
+    const bad = await analyze(request('/api/analyze', { text: '', pov: 'Omniscient-ish', targetWords: -1 }))
+    expect((await bad.json()).fields.map((f: { field: string }) => f.field)).toEqual(['pov', 'text', 'targetWords'])
+    expect((await analyze(request('/api/analyze', { projectId: 'missing' }))).status).toBe(404)
+  })
+
+  it('refuses a book longer than a long novel', async () => {
+    const chapters = Array.from({ length: 6 }, (_, i) => ({ number: i + 1, text: 'x'.repeat(180000) }))
+    const res = await analyze(request('/api/analyze', { chapters }))
+    expect(res.status).toBe(400)
+    expect((await res.json()).fields).toEqual([{ field: 'chapters', message: 'chapters must total at most 1000000 characters' }])
+  })
+
+  it('is rate-limited per caller, apart from the AI routes', async () => {
+    vi.stubEnv('ANALYZE_RATE_LIMIT_PER_MINUTE', '1')
+    expect((await analyze(request('/api/analyze', { text: TEXT }))).status).toBe(200)
+    const res = await analyze(request('/api/analyze', { text: TEXT }))
+    expect(res.status).toBe(429)
+    expect(Number(res.headers.get('Retry-After'))).toBeGreaterThan(0)
+    expect((await analyze(request('/api/analyze', { text: TEXT }, { headers: { 'x-forwarded-for': '198.51.100.4' } }))).status).toBe(200)
+    expect(getRateLimiter().hit('ip:203.0.113.7').remaining).toBe(19)
+  })
+})
+
+describe('GET /api/credits', () => {
+  it('reports the balance and every price', async () => {
+    const data = await (await credits(request('/api/credits'))).json()
+    expect(data).toMatchObject({ identity: 'ip', balance: 50, costs: { generate: 2, outline: 5, continuity: 2, regenerate: 1, actions: { blurb: 3 } } })
+    expect(Object.keys(data.costs)).toEqual(expect.arrayContaining(['chapter', 'revise', 'chat']))
+  })
+
+  it('identifies API-key callers and rejects unknown keys', async () => {
+    vi.stubEnv('JAVARI_API_KEYS', 'k1,k2')
+    expect((await (await credits(request('/api/credits', undefined, { headers: { 'x-api-key': 'k2' } }))).json()).identity).toBe('key')
+    expect((await credits(request('/api/credits', undefined, { headers: { 'x-api-key': 'k3' } }))).status).toBe(401)
+  })
+})
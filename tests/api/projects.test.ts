@@ -0,0 +1,229 @@
+// tests/api/projects.test.ts — javari-books
+// Book projects end to end — create, save chapter versions, story bible, continuity pass, context in prompts, export
+import { describe, expect, it, vi } from 'vitest'
+import { POST as analyze } from '@/app/api/analyze/route'
+import { POST as writeChapter } from '@/app/api/chapter/route'
+import { POST as exportBook } from '@/app/api/export/route'
+import { DELETE as deleteChapter, PATCH as patchChapter } from '@/app/api/projects/[id]/chapters/[chapterId]/route'
+import { POST as saveChapter } from '@/app/api/projects/[id]/chapters/route'
+import { GET as getBible, PUT as putBible } from '@/app/api/projects/[id]/bible/route'
+import { POST as continuity } from '@/app/api/projects/[id]/continuity/route'
+import { DELETE as deleteProject, GET as getProject, PATCH as patchProject } from '@/app/api/projects/[id]/route'
+import { GET as listProjects, POST as createProject } from '@/app/api/projects/route'
+import { validateDocx, validateEpub } from '@/lib/export/validate'
+import { OWNER_COOKIE } from '@/lib/owner-token'
+import type { Project } from '@/lib/projects'
+import { middleware } from '@/middleware'
+import { chatBody, completion, installFetch, OPENROUTER, recordedFetch, useHttpProviders } from '../helpers/recorded-fetch'
+import { params, request } from '../helpers/requests'
+
+// Another browser behind the same NAT — same IP, its own owner cookie
+const OTHER = { headers: { cookie: `${OWNER_COOKIE}=0b6d7c1a-2e4f-4a8b-b3c5-d9e0f1a2b3c4` } }
+const premise = 'A lighthouse keeper finds letters from her future self.'
+const CH1 = 'Nell climbed the lighthouse stairs. The lamp was already lit, and a letter waited on the rail.'
+
+async function newProject(settings: Record<string, string> = {}): Promise<Project> {
+  const res = await createProject(request('/api/projects', { settings: { title: 'Keeper', premise, ...settings } }))
+  expect(res.status).toBe(201)
+  return (await res.json()).project
+}
+
+async function save(id: string, body: Record<string, unknown>) {
+  return saveChapter(request(`/api/projects/${id}/chapters`, body), params({ id }))
+}
+
+describe('projects', () => {
+  it('creates with default settings, lists, updates and deletes', async () => {
+    const p = await newProject()
+    expect(p.settings).toEqual({ title: 'Keeper', premise, genre: 'Fiction', pov: 'Third Person Limited', tone: 'Literary' })
+    expect((await (await listProjects(request('/api/projects'))).json()).projects).toMatchObject([{ id: p.id, title: 'Keeper', chapters: 0, words: 0 }])
+
+    const patched = await patchProject(request(`/api/projects/${p.id}`, { settings: { genre: 'Fantasy' }, notes: 'Tide tables.' }, { method: 'PATCH' }), params({ id: p.id }))
+    expect((await patched.json()).project).toMatchObject({ settings: { title: 'Keeper', genre: 'Fantasy' }, notes: 'Tide tables.' })
+
+    expect((await deleteProject(request(`/api/projects/${p.id}`, undefined, { method: 'DELETE' }), params({ id: p.id }))).status).toBe(200)
+    expect((await getProject(request(`/api/projects/${p.id}`), params({ id: p.id }))).status).toBe(404)
+  })
+
+  it('keeps each caller\'s projects to themselves', async () => {
+    const p = await newProject()
+    expect((await (await listProjects(request('/api/projects', undefined, OTHER))).json()).projects).toEqual([])
+    const at = params({ id: p.id })
+    expect((await getProject(request(`/api/projects/${p.id}`, undefined, OTHER), at)).status).toBe(404)
+    expect((await patchProject(request(`/api/projects/${p.id}`, { notes: 'Mine now.' }, { method: 'PATCH', ...OTHER }), at)).status).toBe(404)
+    expect((await deleteProject(request(`/api/projects/${p.id}`, undefined, { method: 'DELETE', ...OTHER }), at)).status).toBe(404)
+    expect((await saveChapter(request(`/api/projects/${p.id}/chapters`, { number: 1, text: CH1 }, OTHER), at)).status).toBe(404)
+    expect((await analyze(request('/api/analyze', { projectId: p.id }, OTHER))).status).toBe(404)
+    expect((await getProject(request(`/api/projects/${p.id}`), at)).status).toBe(200)
+  })
+
+  it('follows the browser, not its IP, and needs an owner to list or save', async () => {
+    const p = await newProject()
+    const moved = { headers: { 'x-forwarded-for': '198.51.100.9' } }
+    expect((await getProject(request(`/api/projects/${p.id}`, undefined, moved), params({ id: p.id }))).status).toBe(200)
+    const anonymous = { headers: { cookie: '' } }
+    expect((await listProjects(request('/api/projects', undefined, anonymous))).status).toBe(401)
+    expect((await createProject(request('/api/projects', { settings: { premise } }, anonymous))).status).toBe(401)
+    vi.stubEnv('JAVARI_API_KEYS', 'known-key')
+    const keyed = { headers: { cookie: '', authorization: 'Bearer known-key' } }
+    expect((await createProject(request('/api/projects', { settings: { premise } }, keyed))).status).toBe(201)
+    expect((await (await listProjects(request('/api/projects', undefined, keyed))).json()).projects).toHaveLength(1)
+  })
+
+  it('hands a browser without one an httpOnly owner cookie, and keeps an existing one', () => {
+    const res = middleware(request('/outline', undefined, { headers: { cookie: '' } }))
+    const set = res.cookies.get(OWNER_COOKIE)
+    expect(set).toMatchObject({ httpOnly: true, sameSite: 'lax', path: '/' })
+    expect(set!.value).toMatch(/^[0-9a-f-]{36}$/)
+    expect(res.headers.get('x-middleware-request-cookie')).toContain(`${OWNER_COOKIE}=${set!.value}`)
+    expect(middleware(request('/outline')).cookies.get(OWNER_COOKIE)).toBeUndefined()
+  })
+
+  it('validates settings', async () => {
+    const res = await createProject(request('/api/projects', { settings: { genre: 'Cookbook' } }))
+    expect(res.status).toBe(400)
+    expect((await res.json()).fields).toEqual([{ field: 'genre', message: expect.stringMatching(/^Genre must be one of: Fiction, /) }])
+  })
+})
+
+describe('chapters', () => {
+  it('keeps every one of several concurrent saves', async () => {
+    const p = await newProject()
+    await Promise.all([1, 2, 3, 1].map((number, i) => save(p.id, { number, text: `${CH1} Take ${i}.` })))
+    const { project } = await (await getProject(request(`/api/projects/${p.id}`), params({ id: p.id }))).json()
+    expect(project.chapters.map((c: { number: number; versions: unknown[] }) => [c.number, c.versions.length])).toEqual([[1, 2], [2, 1], [3, 1]])
+  })
+
+  it('saves versions under one chapter number and restores an older one', async () => {
+    const p = await newProject()
+    const first = await (await save(p.id, { number: 1, text: CH1 })).json()
+    expect(first.chapter).toMatchObject({ number: 1, title: 'Chapter 1', versions: [{ source: 'ai', words: 17 }] })
+    const second = await (await save(p.id, { number: 1, text: CH1 + ' She read it twice.', source: 'manual', summary: 'Nell reads the letter twice.' })).json()
+    expect(second.chapter.versions.map((v: { source: string }) => v.source)).toEqual(['ai', 'manual'])
+    expect(second.project.chapters).toHaveLength(1)
+
+    const oldId = second.chapter.versions[0].id
+    const chapterId = second.chapter.id
+    const renamed = await patchChapter(request('/x', { title: 'The Letter', currentVersionId: second.chapter.currentVersionId }, { method: 'PATCH' }), params({ id: p.id, chapterId }))
+    expect((await renamed.json()).chapter.summary).toBe('Nell reads the letter twice.')
+    // The summary was written for the newer text, so it mustn't follow the restore into later chapters' context
+    const restored = await patchChapter(request('/x', { currentVersionId: oldId }, { method: 'PATCH' }), params({ id: p.id, chapterId }))
+    const { chapter } = await restored.json()
+    expect(chapter).toMatchObject({ currentVersionId: oldId, title: 'The Letter' })
+    expect(chapter.summary).toBeUndefined()
+  })
+
+  it('refuses to renumber onto another chapter', async () => {
+    const p = await newProject()
+    await save(p.id, { number: 1, text: CH1 })
+    const two = (await (await save(p.id, { number: 2, text: 'The tide came in.' })).json()).chapter
+    const res = await patchChapter(request('/x', { number: 1 }, { method: 'PATCH' }), params({ id: p.id, chapterId: two.id }))
+    expect(res.status).toBe(409)
+    expect((await deleteChapter(request('/x', undefined, { method: 'DELETE' }), params({ id: p.id, chapterId: two.id }))).status).toBe(200)
+  })
+
+  it('validates chapter input and unknown projects', async () => {
+    const p = await newProject()
+    const res = await save(p.id, { number: 0, text: ' ', source: 'robot' })
+    expect((await res.json()).fields.map((f: { field: string }) => f.field)).toEqual(['number', 'text', 'source'])
+    expect((await save('missing', { number: 1, text: CH1 })).status).toBe(404)
+  })
+})
+
+describe('story bible and continuity', () => {
+  const bible = { characters: [{ name: 'Nell', role: 'keeper', description: 'Forty, widowed, afraid of boats.' }], locations: [], timeline: [], glossary: [], styleRules: ['No flashbacks.'] }
+
+  it('replaces and reads the bible, normalizing what it is given', async () => {
+    const p = await newProject()
+    const res = await putBible(request('/x', { bible: { ...bible, locations: 'not a list' } }, { method: 'PUT' }), params({ id: p.id }))
+    expect((await res.json()).bible.locations).toEqual([])
+    expect((await (await getBible(request('/x'), params({ id: p.id }))).json()).bible.characters[0].name).toBe('Nell')
+    const bad = await putBible(request('/x', { bible: 'Nell' }, { method: 'PUT' }), params({ id: p.id }))
+    expect(bad.status).toBe(400)
+  })
+
+  it('proposes new facts with the mock provider and keeps the summary of a saved chapter', async () => {
+    const p = await newProject()
+    await putBible(request('/x', { bible }, { method: 'PUT' }), params({ id: p.id }))
+    const text = 'Nell met Corwin at the quay. Corwin carried a letter from Ysolde.'
+    await save(p.id, { number: 1, text })
+    const res = await continuity(request('/x', { chapterNumber: 1, text }), params({ id: p.id }))
+    const { report, credits_used } = await res.json()
+    expect(credits_used).toBe(2)
+    expect(report.facts.characters.map((c: { name: string }) => c.name)).toEqual(['Corwin', 'Ysolde'])
+    const saved = (await (await getProject(request('/x'), params({ id: p.id }))).json()).project as Project
+    expect(saved.chapters[0].summary).toBe(report.summary)
+  })
+
+  it('keeps edits saved while the continuity pass was running', async () => {
+    const p = await newProject()
+    const text = 'Nell met Corwin at the quay.'
+    await save(p.id, { number: 1, text })
+    useHttpProviders('openrouter')
+    const f = recordedFetch([{ url: OPENROUTER, json: completion(JSON.stringify({ summary: 'Nell meets Corwin.', facts: {}, contradictions: [] })) }])
+    // The author keeps working while the model thinks
+    vi.stubGlobal('fetch', vi.fn(async (input: string, init?: RequestInit) => {
+      await putBible(request('/x', { bible }, { method: 'PUT' }), params({ id: p.id }))
+      await save(p.id, { number: 2, text: 'Corwin left at dawn.' })
+      return f.fetch(input, init)
+    }))
+    expect((await continuity(request('/x', { chapterNumber: 1, text }), params({ id: p.id }))).status).toBe(200)
+    const saved = (await (await getProject(request('/x'), params({ id: p.id }))).json()).project as Project
+    expect(saved.chapters.map(c => [c.number, c.summary])).toEqual([[1, 'Nell meets Corwin.'], [2, undefined]])
+    expect(saved.bible?.characters[0].name).toBe('Nell')
+  })
+
+  it('sends the bible in the continuity prompt and refunds an unparseable report', async () => {
+    const p = await newProject()
+    await putBible(request('/x', { bible }, { method: 'PUT' }), params({ id: p.id }))
+    useHttpProviders('openrouter')
+    const f = installFetch([{ url: OPENROUTER, json: completion('Everything is consistent!') }])
+    const res = await continuity(request('/x', { chapterNumber: 2, text: 'Nell rowed out.' }), params({ id: p.id }))
+    expect(res.status).toBe(502)
+    expect(chatBody(f.calls[0]).temperature).toBe(0.2)
+    expect(chatBody(f.calls[0]).messages[1].content).toContain('- Nell (keeper): Forty, widowed, afraid of boats.')
+  })
+
+  it('includes the bible and earlier summaries when writing the next chapter', async () => {
+    const p = await newProject()
+    await putBible(request('/x', { bible }, { method: 'PUT' }), params({ id: p.id }))
+    await save(p.id, { number: 1, text: CH1, summary: 'Nell finds the first letter.' })
+    useHttpProviders('openrouter')
+    const f = installFetch([{ url: OPENROUTER, json: completion('Chapter two.') }])
+    const data = await (await writeChapter(request('/api/chapter', { premise, chapterNumber: 2, projectId: p.id }))).json()
+    expect(data.context_included).toBe(true)
+    const prompt = chatBody(f.calls[0]).messages[1].content
+    expect(prompt).toContain('Stay consistent with everything below')
+    expect(prompt).toContain('Nell finds the first letter.')
+    expect(prompt).toContain('No flashbacks.')
+  })
+})
+
+describe('POST /api/export', () => {
+  const book = { title: 'Keeper', chapters: [{ number: 1, title: 'The Letter', text: CH1 }, { number: 2, text: 'The tide came in.\n\nShe waited.' }] }
+
+  it.each(['epub', 'docx', 'manuscript'] as const)('builds a valid %s from inline chapters', async format => {
+    const res = await exportBook(request('/api/export', { format, book, author: 'N. Keeper', contact: ['nell@example.com'] }))
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Disposition')).toMatch(/^attachment; filename="keeper(-manuscript)?\.(epub|docx)"$/)
+    const data = new Uint8Array(await res.arrayBuffer())
+    expect(format === 'epub' ? validateEpub(data) : validateDocx(data)).toEqual([])
+  })
+
+  it('exports Markdown from a saved project', async () => {
+    const p = await newProject()
+    await save(p.id, { number: 1, text: CH1, title: 'The Letter' })
+    const res = await exportBook(request('/api/export', { format: 'markdown', projectId: p.id }))
+    expect(res.headers.get('Content-Type')).toMatch(/^text\/markdown/)
+    const md = await res.text()
+    expect(md).toContain('Keeper')
+    expect(md).toContain(CH1)
+  })
+
+  it('rejects bad formats, empty projects and unknown projects', async () => {
+    expect((await exportBook(request('/api/export', { format: 'pdf', book }))).status).toBe(400)
+    const p = await newProject()
+    expect(await (await exportBook(request('/api/export', { format: 'epub', projectId: p.id }))).json()).toEqual({ error: 'Project has no chapters to export' })
+    expect((await exportBook(request('/api/export', { format: 'epub', projectId: 'missing' }))).status).toBe(404)
+  })
+})
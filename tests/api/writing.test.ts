@@ -0,0 +1,190 @@
+// tests/api/writing.test.ts — javari-books
+// /api/chat, /api/chapter and /api/outline — prompts with their defaults, recorded providers, streaming and repair
+import { describe, expect, it } from 'vitest'
+import { POST as chapter } from '@/app/api/chapter/route'
+import { POST as chat } from '@/app/api/chat/route'
+import { POST as outline } from '@/app/api/outline/route'
+import { getCreditStore } from '@/lib/credits'
+import { chatBody, completion, fixture, GROQ, installFetch, jsonFixture, OPENROUTER, sseChunks, useHttpProviders } from '../helpers/recorded-fetch'
+import { readSSE, request, streamedText } from '../helpers/requests'
+
+const premise = 'A lighthouse keeper finds letters from her future self.'
+
+describe('POST /api/chat', () => {
+  const send = (body: unknown) => chat(request('/api/chat', body))
+
+  it.each([
+    [{}, 'messages must be a non-empty array'],
+    [{ messages: [{ role: 'narrator', content: 'hi' }] }, 'each message needs a role of system, user or assistant'],
+    [{ messages: [{ role: 'user', content: '  ' }] }, 'each message needs non-empty string content'],
+    [{ messages: [{ role: 'user', content: 'hi' }, { role: 'assistant', content: 'hello' }] }, 'the last message must be from the user'],
+    [{ messages: Array.from({ length: 41 }, () => ({ role: 'user', content: 'hi' })) }, 'messages may contain at most 40 turns'],
+    [{ messages: [{ role: 'user', content: 'x'.repeat(60001) }] }, 'conversation exceeds 60000 characters'],
+  ])('rejects %j', async (body, error) => {
+    const res = await send(body)
+    expect(res.status).toBe(400)
+    expect(await res.json()).toEqual({ error })
+  })
+
+  it('rejects a malformed body with 400', async () => {
+    const res = await chat(request('/api/chat', undefined, { raw: '{"messages":' }))
+    expect(res.status).toBe(400)
+    expect(await res.json()).toEqual({ error: 'Invalid JSON body' })
+  })
+
+  it('folds inline system turns into the system prompt and answers in OpenAI shape', async () => {
+    useHttpProviders('groq')
+    const f = installFetch([{ url: GROQ, json: jsonFixture('groq-completion.json') }])
+    const res = await send({ messages: [{ role: 'system', content: 'Answer in British English.' }, { role: 'user', content: 'Summarize Dune.' }], maxTokens: 99999 })
+    const data = await res.json()
+    expect(data).toMatchObject({ object: 'chat.completion', choices: [{ index: 0, message: { role: 'assistant', content: expect.stringMatching(/^Groq answered/) }, finish_reason: 'stop' }] })
+    const { messages, max_tokens } = chatBody(f.calls[0])
+    expect(messages[0].content).toMatch(/^You are a professional book editor[\s\S]*\n\nAnswer in British English\.$/)
+    expect(messages.slice(1)).toEqual([{ role: 'user', content: 'Summarize Dune.' }])
+    expect(max_tokens).toBe(8192)
+    // Cost follows the token budget: 1 + ceil(8192 / 1024)
+    expect(res.headers.get('X-Credits-Cost')).toBe('9')
+  })
+
+  it('replaces the default system prompt with systemOverride', async () => {
+    useHttpProviders('openrouter')
+    const f = installFetch([{ url: OPENROUTER, json: jsonFixture('openrouter-completion.json') }])
+    await send({ messages: [{ role: 'user', content: 'Hi' }], systemOverride: 'You are a poet.' })
+    expect(chatBody(f.calls[0]).messages[0]).toEqual({ role: 'system', content: 'You are a poet.' })
+  })
+
+  it('streams', async () => {
+    useHttpProviders('openrouter')
+    installFetch([{ url: OPENROUTER, sse: sseChunks(fixture('openrouter-stream.txt'), 11) }])
+    const events = await readSSE(await send({ messages: [{ role: 'user', content: 'One line.' }], stream: true }))
+    expect(streamedText(events)).toBe('The spice must flow.')
+  })
+
+  it('keeps streamed text and ends with an error when the provider drops mid-stream', async () => {
+    useHttpProviders()
+    const events = fixture('openrouter-stream.txt').split('\n\n')
+    installFetch([{ url: OPENROUTER, sse: events.slice(0, 3).map(e => e + '\n\n'), cut: true }])
+    const out = await readSSE(await send({ messages: [{ role: 'user', content: 'One line.' }], stream: true }))
+    expect(streamedText(out)).toBe('The spice ')
+    expect(out[out.length - 1].event).toBe('error')
+  })
+})
+
+describe('POST /api/chapter', () => {
+  const write = (body: unknown) => chapter(request('/api/chapter', body))
+
+  it('requires a premise and a chapter number', async () => {
+    const res = await write({})
+    expect(res.status).toBe(400)
+    expect((await res.json()).fields.map((f: { field: string }) => f.field)).toEqual(['premise', 'chapterNumber'])
+  })
+
+  it('fills in defaults for every empty setting', async () => {
+    useHttpProviders('openrouter')
+    const f = installFetch([{ url: OPENROUTER, json: completion('The lamp hissed as Nell climbed.') }])
+    const data = await (await write({ premise, chapterNumber: 3 })).json()
+    expect(data).toMatchObject({ content: 'The lamp hissed as Nell climbed.', context_included: false, credits_used: 4 })
+    const [system, user] = chatBody(f.calls[0]).messages
+    expect(system.content).toMatch(/^You are a bestselling Fiction author/)
+    expect(user.content).toContain(`Write Chapter 3 of a Fiction book.\nTitle: Untitled\nPremise: ${premise}\nChapter Goal: Advance the plot\nPOV: Third Person Limited\nTone: Literary\nTarget Length: approximately 1500 words`)
+    expect(chatBody(f.calls[0]).max_tokens).toBe(2400)
+  })
+
+  it('uses the settings it is given', async () => {
+    useHttpProviders('openrouter')
+    const f = installFetch([{ url: OPENROUTER, json: jsonFixture('openrouter-completion.json') }])
+    const res = await write({ premise, chapterNumber: '1', title: 'Keeper', genre: 'Fantasy', pov: 'First Person', tone: 'Dark/Gritty', goal: 'Find the first letter', wordCount: '6000' })
+    expect(res.headers.get('X-Credits-Cost')).toBe('13')
+    const user = chatBody(f.calls[0]).messages[1].content
+    expect(user).toContain('Write Chapter 1 of a Fantasy book.\nTitle: Keeper')
+    expect(user).toContain('Chapter Goal: Find the first letter\nPOV: First Person\nTone: Dark/Gritty\nTarget Length: approximately 6000 words')
+    expect(chatBody(f.calls[0]).max_tokens).toBe(8192)
+  })
+
+  it('returns 404 for an unknown project', async () => {
+    const res = await write({ premise, chapterNumber: 1, projectId: 'missing' })
+    expect(res.status).toBe(404)
+    expect(await getCreditStore().balance('ip:203.0.113.7')).toBe(50)
+  })
+
+  it('streams with the mock provider', async () => {
+    const events = await readSSE(await write({ premise, chapterNumber: 1, wordCount: '200', stream: true }))
+    expect(streamedText(events).split(/\s+/).length).toBeGreaterThan(150)
+  })
+})
+
+describe('POST /api/outline', () => {
+  const make = (body: unknown) => outline(request('/api/outline', body))
+
+  it('builds the prompt with defaults and returns the validated outline', async () => {
+    useHttpProviders('openrouter')
+    const o = { book: { title: 'Keeper', logline: 'Letters from tomorrow.' }, chapters: [{ title: 'Arrival', targetWords: 2000, scenes: ['She lands.'], beats: [], hook: 'A letter?' }] }
+    const f = installFetch([{ url: OPENROUTER, json: completion('```json\n' + JSON.stringify(o) + '\n```') }])
+    const res = await make({ premise, chapters: '1' })
+    const data = await res.json()
+    expect(data.repaired).toBe(false)
+    expect(data.outline.book).toEqual({ title: 'Keeper', genre: 'Fiction', premise, pov: 'Third Person Limited', tone: 'Literary', logline: 'Letters from tomorrow.' })
+    expect(data.credits_used).toBe(5)
+    expect(chatBody(f.calls[0]).messages[1].content).toMatch(/^Create a detailed 1-chapter outline for a Fiction book\.\nTitle: Untitled\n/)
+    expect(chatBody(f.calls[0]).max_tokens).toBe(4096)
+  })
+
+  it('asks once for a repair, listing what was wrong', async () => {
+    useHttpProviders('openrouter')
+    const good = { book: {}, chapters: [{ title: 'One', targetWords: 1500, scenes: ['a'], beats: ['b'], hook: 'c' }] }
+    const f = installFetch([
+      { url: OPENROUTER, json: completion('{"chapters":[{"title":"One"}]}') },
+      { url: OPENROUTER, json: completion(JSON.stringify(good)) },
+    ])
+    const data = await (await make({ premise, chapters: '1' })).json()
+    expect(data.repaired).toBe(true)
+    const repair = chatBody(f.calls[1]).messages.at(-1)?.content
+    expect(repair).toContain('- chapters[0].targetWords must be a positive number')
+    expect(repair).toContain('- chapters[0].hook is required')
+  })
+
+  it('repairs an outline with the wrong number of chapters', async () => {
+    useHttpProviders('openrouter')
+    const chapter = (title: string) => ({ title, targetWords: 1500, scenes: ['a'], beats: [], hook: 'c' })
+    const f = installFetch([
+      { url: OPENROUTER, json: completion(JSON.stringify({ book: {}, chapters: [chapter('One')] })) },
+      { url: OPENROUTER, json: completion(JSON.stringify({ book: {}, chapters: [chapter('One'), chapter('Two'), chapter('Three')] })) },
+    ])
+    const data = await (await make({ premise, chapters: '3' })).json()
+    expect(data.repaired).toBe(true)
+    expect(data.outline.chapters.map((c: { number: number }) => c.number)).toEqual([1, 2, 3])
+    expect(chatBody(f.calls[1]).messages.at(-1)?.content).toContain('- "chapters" must have exactly 3 entries, not 1')
+  })
+
+  it('skips the repair when too little of the request deadline is left', async () => {
+    useHttpProviders('openrouter', { AI_DEADLINE_MS: '5000' })
+    const f = installFetch([{ url: OPENROUTER, json: completion('Sorry, no.') }])
+    const res = await make({ premise })
+    expect(res.status).toBe(502)
+    expect((await res.json()).details).toEqual(['response is not a JSON object', 'no time left to ask for a repair'])
+    expect(f.calls).toHaveLength(1)
+    expect(await getCreditStore().balance('ip:203.0.113.7')).toBe(50)
+  })
+
+  it('refunds and returns 502 when the repair fails too', async () => {
+    useHttpProviders('openrouter')
+    installFetch([{ url: OPENROUTER, json: completion('Sorry, no.') }, { url: OPENROUTER, json: completion('Still no.') }])
+    const res = await make({ premise })
+    expect(res.status).toBe(502)
+    expect(await res.json()).toEqual({ error: 'Could not parse outline', details: ['response is not a JSON object'] })
+    expect(await getCreditStore().balance('ip:203.0.113.7')).toBe(50)
+  })
+
+  it('refines a previous outline with the mock provider', async () => {
+    const first = await (await make({ premise, chapters: '2' })).json()
+    expect(first.outline.chapters).toHaveLength(2)
+    const res = await make({ premise, previous: first.outline, instruction: 'Raise the stakes' })
+    const hooks = (await res.json()).outline.chapters.map((c: { hook: string }) => c.hook)
+    expect(hooks.every((h: string) => h.endsWith('(Raise the stakes)'))).toBe(true)
+  })
+
+  it('validates a refinement', async () => {
+    const res = await make({ premise, previous: { chapters: [] }, instruction: '' })
+    expect((await res.json()).fields.map((f: { field: string }) => f.field)).toEqual(['previous', 'instruction'])
+  })
+})
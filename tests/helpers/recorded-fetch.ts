@@ -0,0 +1,113 @@
+// tests/helpers/recorded-fetch.ts — javari-books
+// Fake fetch that replays recorded HTTP exchanges in order — nothing in the suite ever reaches the network
+import fs from 'fs'
+import path from 'path'
+import { vi } from 'vitest'
+import type { ChatMessage } from '@/lib/ai'
+
+type Match = { url?: string | RegExp }
+export type Recording = Match & (
+  | { status?: number; json?: unknown; text?: string; headers?: Record<string, string> }
+  // Chunks arrive as separate reads; `cut` errors the stream after the last one, like a dropped connection
+  | { status?: number; sse: string[]; cut?: boolean }
+  // fetch() itself rejects — DNS failure, connection refused
+  | { error: string }
+  // Never answers until the request is aborted — for timeouts and cancellation
+  | { hang: true }
+)
+// `body` is the parsed JSON a request sent, the raw body when it wasn't JSON, or undefined for a GET
+export type RecordedCall = { url: string; init?: RequestInit; body: unknown }
+// What the HTTP providers POST — an OpenAI-style chat completion request
+export type ChatCompletionBody = { model: string; max_tokens: number; temperature: number; messages: ChatMessage[]; stream?: true }
+// The part of a recorded completion response that completion() rewrites
+type CompletionFixture = { choices: { message: { content: string } }[] }
+
+const FIXTURES = path.resolve(__dirname, '../fixtures')
+export const fixture = (name: string) => fs.readFileSync(path.join(FIXTURES, name), 'utf8')
+export const jsonFixture = <T = unknown>(name: string): T => JSON.parse(fixture(name))
+
+// A recorded completion with its content swapped — same envelope, different answer
+export function completion(content: string, name = 'openrouter-completion.json'): CompletionFixture {
+  const d = jsonFixture<CompletionFixture>(name)
+  d.choices[0].message.content = content
+  return d
+}
+
+// A recorded SSE stream split into chunks of `size` characters, so events straddle reads
+export function sseChunks(text: string, size = 64): string[] {
+  const out: string[] = []
+  for (let i = 0; i < text.length; i += size) out.push(text.slice(i, i + size))
+  return out
+}
+
+// The chat completion request a recorded call carried; throws for any other request, so a test can't
+// silently assert on the wrong call
+export function chatBody(call: RecordedCall): ChatCompletionBody {
+  const b = call.body as Partial<ChatCompletionBody> | undefined
+  if (!b || !Array.isArray(b.messages)) throw new Error(`recordedFetch: ${call.url} was not a chat completion request`)
+  return b as ChatCompletionBody
+}
+
+const aborted = (signal?: AbortSignal | null) => new Promise<never>((_, reject) => {
+  const fail = () => reject(new DOMException('This operation was aborted', 'AbortError'))
+  if (signal?.aborted) fail()
+  signal?.addEventListener('abort', fail)
+})
+
+function respond(r: Exclude<Recording, { error: string } | { hang: true }>, signal?: AbortSignal | null): Response {
+  const status = r.status ?? 200
+  if ('sse' in r) {
+    const enc = new TextEncoder()
+    const chunks = [...r.sse]
+    const body = new ReadableStream<Uint8Array>({
+      pull(ctl) {
+        if (signal?.aborted) return ctl.error(new DOMException('This operation was aborted', 'AbortError'))
+        const next = chunks.shift()
+        if (next !== undefined) ctl.enqueue(enc.encode(next))
+        else if (r.cut) ctl.error(new TypeError('terminated'))
+        else ctl.close()
+      }
+    })
+    return new Response(body, { status, headers: { 'Content-Type': 'text/event-stream' } })
+  }
+  if (r.json !== undefined) return new Response(JSON.stringify(r.json), { status, headers: { 'Content-Type': 'application/json', ...r.headers } })
+  return new Response(r.text ?? '', { status, headers: r.headers })
+}
+
+export function recordedFetch(recordings: Recording[]) {
+  const queue = [...recordings]
+  const calls: RecordedCall[] = []
+  async function fetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+    let body: unknown
+    try { body = typeof init?.body === 'string' ? JSON.parse(init.body) : undefined } catch { body = init?.body }
+    calls.push({ url, init, body })
+    const r = queue.shift()
+    // Thrown as a plain Error the providers would report it as a network failure; the remaining() and calls
+    // checks in each test are what catch an unplanned request
+    if (!r) throw new Error(`recordedFetch: no recording left for ${url}`)
+    if (r.url && !(typeof r.url === 'string' ? url.startsWith(r.url) : r.url.test(url))) throw new Error(`recordedFetch: expected ${r.url}, got ${url}`)
+    if ('error' in r) throw new TypeError(r.error)
+    if ('hang' in r) return aborted(init?.signal)
+    return respond(r, init?.signal)
+  }
+  return { fetch, calls, remaining: () => queue.length }
+}
+
+// Installs the replay as the global fetch; tests/setup.ts restores the real one after each test
+export function installFetch(recordings: Recording[]) {
+  const f = recordedFetch(recordings)
+  vi.stubGlobal('fetch', vi.fn(f.fetch))
+  return f
+}
+
+export const OPENROUTER = 'https://openrouter.ai/api/v1/chat/completions'
+export const GROQ = 'https://api.groq.com/openai/v1/chat/completions'
+
+// The HTTP chain with keys set, as in production, for tests that replay provider traffic
+export function useHttpProviders(chain = 'openrouter,groq', env: Record<string, string> = {}) {
+  vi.stubEnv('AI_PROVIDERS', chain)
+  vi.stubEnv('OPENROUTER_API_KEY', 'test-openrouter-key')
+  vi.stubEnv('GROQ_API_KEY', 'test-groq-key')
+  for (const [k, v] of Object.entries(env)) vi.stubEnv(k, v)
+}
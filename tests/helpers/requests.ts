@@ -0,0 +1,37 @@
+// tests/helpers/requests.ts — javari-books
+// Calling route handlers directly — requests as Next builds them, and SSE responses read back into events
+import { NextRequest } from 'next/server'
+import { OWNER_COOKIE } from '@/lib/owner-token'
+import { createSSEParser, type SSEEvent } from '@/lib/sse'
+
+const BROWSER = '4f9c2b1e-8d3a-4c6b-9e2f-1a7d5c3b8e60'
+
+type Init = { method?: string; headers?: Record<string, string>; raw?: string }
+
+// Every request comes from the same browser (owner cookie) at the same IP, 203.0.113.7, unless it sets headers;
+// tests/setup.ts resets balances and rate limits between cases
+export function request(path: string, body?: unknown, init: Init = {}): NextRequest {
+  const method = init.method ?? (body === undefined && init.raw === undefined ? 'GET' : 'POST')
+  return new NextRequest(new URL(path, 'http://localhost'), {
+    method,
+    headers: { 'Content-Type': 'application/json', 'x-forwarded-for': '203.0.113.7', cookie: `${OWNER_COOKIE}=${BROWSER}`, ...init.headers },
+    ...(method === 'GET' ? {} : { body: init.raw ?? JSON.stringify(body) }),
+  })
+}
+
+// Dynamic segments arrive as the second handler argument, as in the app router
+export const params = <P extends Record<string, string>>(p: P) => ({ params: p })
+
+export async function readSSE(res: Response): Promise<SSEEvent[]> {
+  const events: SSEEvent[] = []
+  const push = createSSEParser(e => events.push(e))
+  push(await res.text())
+  push('\n\n')
+  return events
+}
+
+// The text of an OpenAI-style completion stream, as the browser client assembles it
+export const streamedText = (events: SSEEvent[]) => events
+  .filter(e => e.event === 'message' && e.data !== '[DONE]')
+  .map(e => JSON.parse(e.data).choices?.[0]?.delta?.content ?? '')
+  .join('')
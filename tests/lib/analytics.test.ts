@@ -0,0 +1,83 @@
+// tests/lib/analytics.test.ts — javari-books
+// Manuscript analytics — text primitives, per-chapter flags, POV checks, repeated phrases, chapter splitting
+import { describe, expect, it } from 'vitest'
+import { analyzeBook, analyzeChapter, analyzeText, repeatedPhrases, sentences, splitChapters, syllables, words } from '@/lib/analytics'
+
+describe('text primitives', () => {
+  it('counts words with contractions as one', () => {
+    expect(words("She didn't look back — not once.")).toEqual(['She', "didn't", 'look', 'back', 'not', 'once'])
+  })
+
+  it('splits sentences without breaking on abbreviations or dialogue tags', () => {
+    expect(sentences('Dr. Vale arrived. "Stop!" she said. It rained.')).toEqual(['Dr Vale arrived.', '"Stop!" she said.', 'It rained.'])
+  })
+
+  it.each([['cat', 1], ['beautiful', 3], ['wanted', 2], ['walked', 1], ['table', 2]])('%s has %i syllables', (w, n) => {
+    expect(syllables(w)).toBe(n)
+  })
+})
+
+describe('analyzeText', () => {
+  it('measures dialogue, adverbs and fillers separately', () => {
+    const a = analyzeText('"Run," she said quietly. He really just stood there, slowly turning.')
+    expect(a.dialogueRatio).toBeGreaterThan(0)
+    expect(a.adverbs.top.map(t => t.word)).toEqual(expect.arrayContaining(['quietly', 'slowly']))
+    expect(a.adverbs.top.map(t => t.word)).not.toContain('really')
+    expect(a.fillers.top.map(t => t.word)).toEqual(expect.arrayContaining(['really', 'just']))
+  })
+
+  it('detects first-person narration and flags drift from the expected POV', () => {
+    const text = 'I walked to the harbor. I saw the boats. My hands were cold and I did not stop.'
+    const a = analyzeText(text, { pov: 'Third Person Limited' })
+    expect(a.pov.detected).toBe('First Person')
+    expect(a.pov.issues.length).toBeGreaterThan(0)
+    expect(analyzeText(text, { pov: 'First Person' }).pov.issues).toEqual([])
+  })
+})
+
+describe('analyzeChapter', () => {
+  it('flags length against the target, phrased as an instruction', () => {
+    const c = analyzeChapter({ number: 2, text: 'The tide came in. '.repeat(50), targetWords: 400 })
+    expect(c).toMatchObject({ number: 2, words: 200, targetDelta: -200 })
+    expect(c.flags).toContain('50% under the 400-word target')
+  })
+
+  it('flags a monotonous rhythm', () => {
+    const c = analyzeChapter({ number: 1, text: 'She walked to the old harbor. '.repeat(25) })
+    expect(c.flags.some(f => f.startsWith('Monotonous rhythm'))).toBe(true)
+  })
+})
+
+describe('book analysis', () => {
+  it('finds phrases repeated across chapters', () => {
+    const r = repeatedPhrases([
+      { number: 1, text: 'The salt wind rose. Later the salt wind fell.' },
+      { number: 2, text: 'Again the salt wind rose over the water.' },
+    ])
+    expect(r[0]).toMatchObject({ phrase: 'the salt wind', count: 3, chapters: [1, 2] })
+  })
+
+  it('folds a repeat into the longest phrase with the same count, even across a long book', () => {
+    const rise = [{ number: 1, text: 'The salt wind rose. The salt wind rose. The salt wind rose.' }]
+    expect(repeatedPhrases(rise).map(r => r.phrase)).toEqual(['the salt wind rose'])
+    // 300-word vocabulary, 60,000 words — several hundred thousand repeats that used to be compared pairwise
+    let seed = 7
+    const word = () => `w${(seed = (seed * 16807) % 2147483647) % 300}`
+    const text = Array.from({ length: 5000 }, () => Array.from({ length: 12 }, word).join(' ') + '.').join(' ')
+    const started = Date.now()
+    expect(repeatedPhrases([{ number: 1, text }], 2)).toHaveLength(25)
+    expect(Date.now() - started).toBeLessThan(3000)
+  })
+
+  it('totals chapters and flags outliers', () => {
+    const short = 'Nell climbed the stairs and looked out. '.repeat(20)
+    const b = analyzeBook([{ number: 1, text: short }, { number: 2, text: short }, { number: 3, text: short.repeat(6) }])
+    expect(b.totals.words).toBe(1120)
+    expect(b.flags.some(f => f.includes('Chapter 3'))).toBe(true)
+  })
+
+  it('splits a draft on chapter headings and drops the front matter', () => {
+    const parts = splitChapters('My Novel\nby Nell\n\nChapter 1: Arrival\nShe came.\n\nCHAPTER TWO\nShe stayed.\n')
+    expect(parts).toEqual([{ number: 1, title: 'Arrival', text: 'She came.' }, { number: 2, text: 'She stayed.' }])
+  })
+})
@@ -0,0 +1,116 @@
+// tests/lib/books.test.ts — javari-books
+// Book-list parsing and checks against the fixture catalog and recorded Open Library responses
+import { describe, expect, it } from 'vitest'
+import { checkBook, checkBooks, parseBookList, replacementPrompt, type BookEntry } from '@/lib/book-list'
+import { authorKey, createFixtureCatalog, FIXTURE_BOOKS, getCatalog, titleKey } from '@/lib/catalog'
+import { installFetch, jsonFixture } from '../helpers/recorded-fetch'
+
+const entry = (b: Partial<BookEntry>): BookEntry => ({ title: 'Dune', author: 'Frank Herbert', description: '', why: '', ...b })
+const fixtureCatalog = createFixtureCatalog(FIXTURE_BOOKS)
+const OPEN_LIBRARY = 'https://openlibrary.org/search.json?'
+
+describe('catalog keys', () => {
+  it('matches titles and authors loosely', () => {
+    expect(titleKey('The Left Hand of Darkness')).toBe(titleKey('Left Hand of Darkness: A Novel'))
+    expect(titleKey('Pride & Prejudice')).toBe('pride and prejudice')
+    expect(authorKey('Ursula K. Le Guin')).toBe('guin')
+    expect(authorKey('Martin Luther King, Jr.')).toBe('king')
+  })
+})
+
+describe('parseBookList', () => {
+  it('drops entries without a title or author and keeps the rest', () => {
+    const r = parseBookList({ summary: ' Hi ', books: [{ title: 'Dune', author: 'Frank Herbert', year: '1965', isbn: 9780441013593 }, { title: 'Nameless' }, 'x'] })
+    expect(r.list).toEqual({ summary: 'Hi', books: [{ title: 'Dune', author: 'Frank Herbert', year: 1965, isbn: '9780441013593', description: '', why: '' }] })
+    expect(r.errors).toEqual(['books[1] needs a title and an author', 'books[2] must be an object'])
+  })
+
+  it('fails when nothing is usable', () => {
+    expect(parseBookList(null).errors).toEqual(['response is not a JSON object'])
+    expect(parseBookList({ books: {} }).errors).toEqual(['"books" must be an array'])
+    expect(parseBookList({ books: [] }).errors).toEqual(['"books" is empty'])
+  })
+})
+
+describe('checkBook', () => {
+  it('rejects a bad checksum without asking the catalog', async () => {
+    expect(await checkBook(entry({ isbn: '978-0-00-000000-1' }), fixtureCatalog)).toMatchObject({ status: 'rejected', reasons: ['ISBN 978-0-00-000000-1 fails its checksum'] })
+  })
+
+  it('verifies by ISBN and corrects the year', async () => {
+    const r = await checkBook(entry({ isbn: '0441013597', year: 1966 }), fixtureCatalog)
+    expect(r).toMatchObject({ status: 'verified', isbn: '9780441013593', year: 1965 })
+    expect(r.reasons).toContain('year corrected from 1966')
+  })
+
+  it('rejects an ISBN that belongs to another author', async () => {
+    const wrong = await checkBook(entry({ author: 'Isaac Asimov', isbn: '9780441013593' }), fixtureCatalog)
+    expect(wrong).toMatchObject({ status: 'rejected', reasons: ['ISBN 9780441013593 is "Dune" by Frank Herbert'] })
+  })
+
+  it('never verifies an ISBN that belongs to another of the author\'s books', async () => {
+    const leGuin = (title: string) => entry({ title, author: 'Ursula K. Le Guin', isbn: '9780061054884' })
+    const fixed = await checkBook(leGuin('The Left Hand of Darkness'), fixtureCatalog)
+    expect(fixed).toMatchObject({ status: 'verified', title: 'The Left Hand of Darkness', isbn: '9780441478125' })
+    expect(fixed.reasons).toContain('ISBN 9780061054884 is "The Dispossessed" by Ursula K. Le Guin, replaced')
+    expect(await checkBook(leGuin('The Lathe of Heaven'), fixtureCatalog)).toMatchObject({ status: 'rejected', reasons: ['ISBN 9780061054884 is "The Dispossessed" by Ursula K. Le Guin'] })
+  })
+
+  it('leaves entries unverified without a catalog', async () => {
+    expect(await checkBook(entry({}), undefined)).toMatchObject({ status: 'unverified', reasons: ['no catalog configured'] })
+  })
+
+  it('rejects repeats, including of entries already kept', async () => {
+    const checked = await checkBooks([entry({}), entry({ title: 'dune' }), entry({ title: 'Foundation', author: 'Isaac Asimov' })], fixtureCatalog, [entry({ title: 'Foundation', author: 'Isaac Asimov' })])
+    expect(checked.map(b => b.status)).toEqual(['verified', 'rejected', 'rejected'])
+  })
+
+  it('lists rejected and kept entries in the replacement prompt', () => {
+    const p = replacementPrompt([{ ...entry({ title: 'Fake' }), status: 'rejected', reasons: ['not found in fixture'] }], [entry({})])
+    expect(p).toContain('- "Fake" by Frank Herbert — not found in fixture')
+    expect(p).toContain('List exactly 1 different books')
+    expect(p).toContain('Do not repeat any of:\n- "Dune" by Frank Herbert')
+  })
+})
+
+describe('Open Library catalog', () => {
+  const catalog = () => getCatalog({ BOOK_CATALOG: 'openlibrary', BOOK_CATALOG_TIMEOUT_MS: '50' })!
+
+  it('verifies from a recorded search response', async () => {
+    const f = installFetch([{ url: OPEN_LIBRARY, json: jsonFixture('openlibrary-search-dune.json') }])
+    const r = await checkBook(entry({ year: 1965 }), catalog())
+    expect(r).toMatchObject({ status: 'verified', isbn: '9780441013593', reasons: ['found in openlibrary'] })
+    expect(f.calls[0].url).toBe(`${OPEN_LIBRARY}title=Dune&author=Frank%20Herbert&limit=5&fields=title,author_name,first_publish_year,isbn`)
+  })
+
+  it('looks up by ISBN first, then falls back to a title search', async () => {
+    const f = installFetch([
+      { url: OPEN_LIBRARY, json: jsonFixture('openlibrary-search-empty.json') },
+      { url: OPEN_LIBRARY, json: jsonFixture('openlibrary-search-dune.json') },
+    ])
+    const r = await checkBook(entry({ title: 'Dune Messiah', isbn: '9780441172696' }), catalog())
+    expect(r.status).toBe('verified')
+    expect(f.calls[0].url).toContain('isbn=9780441172696&limit=1')
+    expect(f.calls[1].url).toContain('title=Dune%20Messiah')
+  })
+
+  it('rejects a title it does not know', async () => {
+    installFetch([{ url: OPEN_LIBRARY, json: jsonFixture('openlibrary-search-empty.json') }])
+    expect(await checkBook(entry({ title: 'The Glass Archive' }), catalog())).toMatchObject({ status: 'rejected', reasons: ['not found in openlibrary'] })
+  })
+
+  it.each([
+    ['a non-OK status', { status: 503, text: 'Service Unavailable' }, 'openlibrary: HTTP 503'],
+    ['an unexpected body', { json: { error: 'nope' } }, 'openlibrary: unexpected response'],
+    ['a network error', { error: 'getaddrinfo ENOTFOUND openlibrary.org' }, 'openlibrary: getaddrinfo ENOTFOUND openlibrary.org'],
+    ['a timeout', { hang: true as const }, 'openlibrary: no response within 50ms'],
+  ])('leaves the entry unverified on %s', async (_, rec, reason) => {
+    installFetch([{ url: OPEN_LIBRARY, ...rec }])
+    expect(await checkBook(entry({}), catalog())).toMatchObject({ status: 'unverified', reasons: [`catalog lookup failed — ${reason}`] })
+  })
+
+  it('rejects an unknown catalog name', () => {
+    expect(() => getCatalog({ BOOK_CATALOG: 'worldcat' })).toThrow('Unknown book catalog: worldcat')
+    expect(getCatalog({ BOOK_CATALOG: 'none' })).toBeUndefined()
+  })
+})
@@ -0,0 +1,109 @@
+// tests/lib/metering.test.ts — javari-books
+// Credit ledger, the metering gate, per-identity rate limits and caller identification
+import { describe, expect, it } from 'vitest'
+import { CancelledError } from '@/lib/ai'
+import { createCreditStore, creditCost, getCreditStore, getStartingBalance, type Charge, type CreditAccount } from '@/lib/credits'
+import { identify, IdentityError } from '@/lib/identity'
+import { meter } from '@/lib/metering'
+import { createRateLimiter } from '@/lib/rate-limit'
+import { createMemoryStore } from '@/lib/storage'
+import { request } from '../helpers/requests'
+
+const ledger = (start = 10) => createCreditStore(createMemoryStore<CreditAccount>(), createMemoryStore<Charge>(), start)
+
+describe('creditCost', () => {
+  it.each([
+    [{ kind: 'generate', action: 'book_summary' }, 2],
+    [{ kind: 'generate', action: 'blurb' }, 3],
+    [{ kind: 'generate', action: 'synopsis', wordCap: 1500 }, 6],
+    [{ kind: 'generate', action: 'reading_list', regenerate: true }, 3],
+    [{ kind: 'chapter', words: 1500 }, 4],
+    [{ kind: 'revise', words: 0 }, 2],
+    [{ kind: 'chat', maxTokens: 2048 }, 3],
+    [{ kind: 'outline' }, 5],
+    [{ kind: 'continuity' }, 2],
+  ] as const)('%j costs %i', (req, cost) => {
+    expect(creditCost(req)).toBe(cost)
+  })
+
+  it('reads the starting balance from the environment', () => {
+    expect(getStartingBalance({})).toBe(50)
+    expect(getStartingBalance({ CREDITS_STARTING_BALANCE: '7.9' })).toBe(7)
+    expect(getStartingBalance({ CREDITS_STARTING_BALANCE: '-3' })).toBe(0)
+  })
+})
+
+describe('createCreditStore', () => {
+  it('charges, refuses overdrafts and refunds once', async () => {
+    const s = ledger()
+    const r = await s.charge('ip:a', 6, 'outline')
+    expect(r).toMatchObject({ ok: true, balance: 4 })
+    expect(await s.charge('ip:a', 5, 'outline')).toEqual({ ok: false, balance: 4 })
+    if (!r.ok) throw new Error('unreachable')
+    expect(await s.refund(r.charge.id)).toBe(10)
+    expect(await s.refund(r.charge.id)).toBeUndefined()
+    expect(await s.grant('ip:a', 5)).toBe(15)
+  })
+
+  it('never lets concurrent charges spend the same credit', async () => {
+    const s = ledger(5)
+    const results = await Promise.all(Array.from({ length: 8 }, () => s.charge('ip:a', 2, 'x')))
+    expect(results.filter(r => r.ok)).toHaveLength(2)
+    expect(await s.balance('ip:a')).toBe(1)
+  })
+})
+
+describe('meter', () => {
+  const charged = async () => {
+    const m = await meter(request('/api/generate', {}), 3, 'test')
+    if (m instanceof Response) throw new Error(`unexpected ${m.status}`)
+    return m
+  }
+
+  it('refunds whatever makes the generation fail, except the caller cancelling', async () => {
+    const m = await charged()
+    await expect(m.guard(Promise.reject(new Error('disk full')))).rejects.toThrow('disk full')
+    expect(await getCreditStore().balance('ip:203.0.113.7')).toBe(50)
+    const cancelled = await charged()
+    await expect(cancelled.guard(Promise.reject(new CancelledError()))).rejects.toBeInstanceOf(CancelledError)
+    expect(await getCreditStore().balance('ip:203.0.113.7')).toBe(47)
+  })
+})
+
+describe('createRateLimiter', () => {
+  it('allows `limit` requests per window per identity', () => {
+    const rl = createRateLimiter({ limit: 2, windowMs: 1000 })
+    expect(rl.hit('a', 0)).toMatchObject({ ok: true, remaining: 1 })
+    expect(rl.hit('a', 100).ok).toBe(true)
+    expect(rl.hit('a', 200)).toEqual({ ok: false, limit: 2, remaining: 0, retryAfterMs: 800 })
+    expect(rl.hit('b', 200).ok).toBe(true)
+    expect(rl.hit('a', 1001).ok).toBe(true)
+  })
+})
+
+describe('identify', () => {
+  const h = (init: Record<string, string>) => new Headers(init)
+
+  it('prefers a known API key and never exposes it', () => {
+    const id = identify(h({ authorization: 'Bearer secret-1', 'x-forwarded-for': '1.2.3.4' }), { JAVARI_API_KEYS: 'secret-1, secret-2' })
+    expect(id.kind).toBe('key')
+    expect(id.id).toMatch(/^key:[0-9a-f]{16}$/)
+    expect(id.id).not.toContain('secret')
+    expect(() => identify(h({ 'x-api-key': 'nope' }), { JAVARI_API_KEYS: 'secret-1' })).toThrow(IdentityError)
+  })
+
+  it('trusts x-javari-user only when told to', () => {
+    expect(identify(h({ 'x-javari-user': 'nell@example.com', 'x-real-ip': '5.6.7.8' }), {})).toEqual({ id: 'ip:5.6.7.8', kind: 'ip' })
+    expect(identify(h({ 'x-javari-user': 'nell@example.com' }), { JAVARI_TRUST_USER_HEADER: '1' })).toEqual({ id: 'user:nell@example.com', kind: 'user' })
+    expect(() => identify(h({ 'x-javari-user': 'bad user!' }), { JAVARI_TRUST_USER_HEADER: '1' })).toThrow('Invalid x-javari-user header')
+  })
+
+  it('takes the IP our proxy saw, not what the client put in x-forwarded-for', () => {
+    const ids = ['1.1.1.1', '2.2.2.2, 3.3.3.3', ''].map(spoofed =>
+      identify(h({ 'x-forwarded-for': [spoofed, '203.0.113.7'].filter(Boolean).join(', ') }), {}).id)
+    expect(new Set(ids)).toEqual(new Set(['ip:203.0.113.7']))
+    expect(identify(h({ 'x-forwarded-for': '9.9.9.9, 203.0.113.7, 10.0.0.1' }), { JAVARI_TRUSTED_PROXIES: '2' }).id).toBe('ip:203.0.113.7')
+    expect(identify(h({ 'x-forwarded-for': '9.9.9.9', 'x-vercel-forwarded-for': '203.0.113.7' }), { JAVARI_IP_HEADER: 'x-vercel-forwarded-for' }).id).toBe('ip:203.0.113.7')
+    expect(identify(h({}), {}).id).toBe('ip:unknown')
+  })
+})
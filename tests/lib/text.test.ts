@@ -0,0 +1,92 @@
+// tests/lib/text.test.ts — javari-books
+// Parsing primitives — ISBN checksums, CSV, JSON in model output, SSE framing and the word diff
+import { describe, expect, it } from 'vitest'
+import { parseCsv, csvRecords } from '@/lib/csv'
+import { applyHunks, changeIds, diffWords } from '@/lib/diff'
+import { cleanIsbn, isValidIsbn10, isValidIsbn13, toIsbn13 } from '@/lib/isbn'
+import { extractJSON } from '@/lib/json'
+import { createSSEParser, type SSEEvent } from '@/lib/sse'
+
+describe('isbn', () => {
+  it('validates checksums', () => {
+    expect(isValidIsbn10('0-441-01359-7')).toBe(true)
+    expect(isValidIsbn10('0-8044-2957-X')).toBe(true)
+    expect(isValidIsbn10('0-441-01359-8')).toBe(false)
+    expect(isValidIsbn13('978-0-441-01359-3')).toBe(true)
+    expect(isValidIsbn13('978-0-00-000000-1')).toBe(false)
+    expect(isValidIsbn13('1234567890128')).toBe(false)
+  })
+
+  it('normalizes to ISBN-13', () => {
+    expect(cleanIsbn('ISBN-10: 0 441 01359 7')).toBe('0441013597')
+    expect(toIsbn13('0441013597')).toBe('9780441013593')
+    expect(toIsbn13('080442957x')).toBe('9780804429573')
+    expect(toIsbn13('9780441013593')).toBe('9780441013593')
+    expect(toIsbn13('not an isbn')).toBeUndefined()
+  })
+})
+
+describe('csv', () => {
+  it('handles quotes, doubled quotes, embedded newlines, CRLF and a BOM', () => {
+    expect(parseCsv('\uFEFFa,b\r\n"x, y","say ""hi""\nthere"\r\n\r\n')).toEqual([['a', 'b'], ['x, y', 'say "hi"\nthere']])
+  })
+
+  it('keys records by trimmed header and fills missing cells', () => {
+    expect(csvRecords(' Title ,Author\nDune\n')).toEqual([{ Title: 'Dune', Author: '' }])
+    expect(csvRecords('')).toEqual([])
+  })
+})
+
+describe('extractJSON', () => {
+  it('finds JSON inside fences and prose', () => {
+    expect(extractJSON('```json\n{"a":1}\n```')).toEqual({ a: 1 })
+    expect(extractJSON('Here you go: {"a":[1,2]} Enjoy!')).toEqual({ a: [1, 2] })
+    expect(extractJSON('Books: [1, 2]')).toEqual([1, 2])
+    expect(extractJSON('no json here')).toBeUndefined()
+    expect(extractJSON('{broken')).toBeUndefined()
+  })
+})
+
+describe('createSSEParser', () => {
+  it('assembles events split anywhere across chunks', () => {
+    const events: SSEEvent[] = []
+    const push = createSSEParser(e => events.push(e))
+    const raw = ': comment\n\nevent: error\ndata: {"a":\ndata: 1}\n\ndata: [DONE]\r\n\r\n'
+    for (const ch of raw) push(ch)
+    expect(events).toEqual([{ event: 'error', data: '{"a":\n1}' }, { event: 'message', data: '[DONE]' }])
+  })
+})
+
+describe('diffWords', () => {
+  it('keeps punctuation changes small', () => {
+    const hunks = diffWords('It was dark.', 'It was dark,')
+    expect(hunks).toEqual([{ kind: 'equal', text: 'It was dark' }, { kind: 'change', id: 0, before: '.', after: ',' }])
+  })
+
+  it('joins changes separated only by whitespace', () => {
+    const hunks = diffWords('the cold grey sea', 'a warm blue sea')
+    expect(hunks.filter(h => h.kind === 'change')).toEqual([{ kind: 'change', id: 0, before: 'the cold grey', after: 'a warm blue' }])
+  })
+
+  it('round-trips with every or no change accepted', () => {
+    const before = 'Nell climbed the stairs.\n\nShe found a letter on the rail and read it twice.'
+    const after = 'Nell ran up the stairs.\n\nShe found the letter on the rail and read it once, then again.'
+    const hunks = diffWords(before, after)
+    expect(applyHunks(hunks, new Set(changeIds(hunks)))).toBe(after)
+    expect(applyHunks(hunks, new Set())).toBe(before)
+  })
+
+  it('handles identical and empty input', () => {
+    expect(diffWords('same', 'same')).toEqual([{ kind: 'equal', text: 'same' }])
+    expect(diffWords('', '')).toEqual([])
+    expect(diffWords('', 'new')).toEqual([{ kind: 'change', id: 0, before: '', after: 'new' }])
+  })
+
+  it('stays fast on a long passage', () => {
+    const para = (seed: number) => Array.from({ length: 2000 }, (_, i) => `word${(i * seed) % 97}`).join(' ')
+    const started = Date.now()
+    const hunks = diffWords(para(7), para(11))
+    expect(Date.now() - started).toBeLessThan(5000)
+    expect(applyHunks(hunks, new Set(changeIds(hunks)))).toBe(para(11))
+  })
+})
@@ -0,0 +1,57 @@
+// tests/pages.test.ts — javari-books
+// Smoke test for the app router — every home-page tool link, in-app link and client API call lands on a real file
+import fs from 'fs'
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+import { TOOLS } from '@/lib/tools'
+
+const ROOT = path.resolve(__dirname, '..')
+const APP = path.join(ROOT, 'app')
+
+// Walks a URL path through app/, taking a literal directory where one exists and a [param] directory otherwise
+function resolve(urlPath: string, file: 'page.tsx' | 'route.ts'): string | undefined {
+  let dir = APP
+  for (const seg of urlPath.split('?')[0].split('/').filter(Boolean)) {
+    const dynamic = seg.startsWith('${') ? undefined : path.join(dir, seg)
+    if (dynamic && fs.existsSync(dynamic)) { dir = dynamic; continue }
+    const param = fs.readdirSync(dir).find(d => /^\[[^\]]+\]$/.test(d))
+    if (!param) return undefined
+    dir = path.join(dir, param)
+  }
+  const f = path.join(dir, file)
+  return fs.existsSync(f) ? f : undefined
+}
+
+function sources(...dirs: string[]): Array<{ file: string; text: string }> {
+  return dirs.flatMap(d => fs.readdirSync(path.join(ROOT, d), { recursive: true, encoding: 'utf8' })
+    .filter(f => /\.tsx?$/.test(f))
+    .map(f => ({ file: path.join(d, f), text: fs.readFileSync(path.join(ROOT, d, f), 'utf8') })))
+}
+
+describe('home page tools', () => {
+  it.each(TOOLS.map(t => [t.href, t.label]))('%s (%s) has a page', href => {
+    const page = resolve(href, 'page.tsx')
+    expect(page, `app${href}/page.tsx`).toBeDefined()
+    expect(fs.readFileSync(page!, 'utf8')).toMatch(/export default function \w+/)
+  })
+
+  it('has no duplicate links', () => {
+    expect(new Set(TOOLS.map(t => t.href)).size).toBe(TOOLS.length)
+  })
+})
+
+describe('links inside the app', () => {
+  const files = sources('app', 'components')
+
+  it('every internal href and redirect points at a page', () => {
+    const links = files.flatMap(({ file, text }) => Array.from(text.matchAll(/(?:href=|location\.href = )"(\/[^"]*)"/g), m => ({ file, href: m[1] })))
+    expect(links.length).toBeGreaterThan(0)
+    for (const { file, href } of links) expect(resolve(href, 'page.tsx'), `${href} in ${file}`).toBeDefined()
+  })
+
+  it('every client API call has a route handler', () => {
+    const calls = files.concat(sources('lib')).flatMap(({ file, text }) => Array.from(text.matchAll(/["`](\/api\/[^"`?]*)/g), m => ({ file, url: m[1] })))
+    expect(calls.length).toBeGreaterThan(0)
+    for (const { file, url } of calls) expect(resolve(url, 'route.ts'), `${url} in ${file}`).toBeDefined()
+  })
+})
@@ -0,0 +1,18 @@
+// tests/setup.ts — javari-books
+// Every test starts with empty stores, a fresh credit ledger and rate limiter, and the real fetch/env restored
+import { afterEach, beforeEach, vi } from 'vitest'
+import { resetCreditStore } from '@/lib/credits'
+import { resetRateLimiter } from '@/lib/rate-limit'
+import { resetStores } from '@/lib/storage'
+
+beforeEach(() => {
+  resetStores()
+  resetCreditStore()
+  resetRateLimiter()
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.unstubAllGlobals()
+  vi.useRealTimers()
+})
@@ -0,0 +1,166 @@
+// tests/tool-data.test.ts — javari-books
+// Prompt construction for every /api/generate action — defaults for empty fields and supplied values — plus form validation
+import { describe, expect, it } from 'vitest'
+import { getAction, getActions, getFields, type FieldValues } from '@/lib/tool-data'
+import { validateValues } from '@/lib/validate'
+
+const prompt = (id: string, v: FieldValues = {}) => getAction(id)!.buildPrompt(v)
+
+describe('getActions', () => {
+  it('has a form and a prompt for every action', () => {
+    for (const a of getActions()) {
+      expect(getFields(a.id).fields.length, a.id).toBeGreaterThan(0)
+      expect(a.buildPrompt({}), a.id).toBeTruthy()
+    }
+  })
+
+  it('asks book-list actions for exactly as many books as they verify', () => {
+    for (const a of getActions().filter(x => x.books)) {
+      expect(a.buildPrompt({}), a.id).toContain(`List exactly ${a.books!({})} books`)
+      expect(a.buildPrompt({}), a.id).toContain('Respond with JSON only')
+    }
+  })
+
+  it('has unique ids and an unknown id finds nothing', () => {
+    const ids = getActions().map(a => a.id)
+    expect(new Set(ids).size).toBe(ids.length)
+    expect(getAction('nope')).toBeUndefined()
+    expect(getFields('nope')).toEqual({ label: 'Details', fields: [] })
+  })
+})
+
+describe('discovery prompts', () => {
+  it('book_recommendations', () => {
+    expect(prompt('book_recommendations')).toContain('someone who enjoys fiction, thrillers, recently loved "", mood: any.')
+    const p = prompt('book_recommendations', { genres: 'cozy mystery', lastBook: 'The Thursday Murder Club', mood: 'light' })
+    expect(p).toContain('enjoys cozy mystery, recently loved "The Thursday Murder Club", mood: light.')
+    expect(p).not.toContain('reading history')
+  })
+
+  it('book_recommendations with a reading history', () => {
+    const p = prompt('book_recommendations', { history: '- Dune — Frank Herbert (read, 5★)' })
+    expect(p).toContain('enjoys the kinds of books they rated highly below')
+    expect(p).toContain('never suggest a book listed here:\n- Dune — Frank Herbert (read, 5★)')
+  })
+
+  it('reading_list', () => {
+    const p = prompt('reading_list')
+    expect(p).toContain('wants to: read more fiction. Theme: any.')
+    expect(p).toContain('List exactly 12 books')
+    const q = prompt('reading_list', { goal: 'understand AI', theme: 'modern', length: '5', history: '- Klara and the Sun' })
+    expect(q).toContain('wants to: understand AI. Theme: modern.')
+    expect(q).toContain('List exactly 5 books')
+    expect(q).toContain('leave these out:\n- Klara and the Sun')
+    expect(getAction('reading_list')!.books!({ length: '5' })).toBe(5)
+  })
+
+  it('book_summary', () => {
+    expect(prompt('book_summary', { bookTitle: 'Dune', author: 'Frank Herbert' })).toMatch(/^Provide a comprehensive summary of "Dune" by Frank Herbert\./)
+    expect(prompt('book_summary', { bookTitle: 'Dune' })).toContain('"Dune" by .')
+  })
+
+  it('author_research', () => {
+    expect(prompt('author_research', { author: 'Toni Morrison' })).toMatch(/^Create a comprehensive profile of author Toni Morrison\./)
+    expect(prompt('author_research')).toContain('List exactly 6 books')
+  })
+
+  it('discussion_questions', () => {
+    expect(prompt('discussion_questions', { bookTitle: 'Pachinko', author: 'Min Jin Lee' })).toContain('questions for "Pachinko" by Min Jin Lee.')
+    expect(prompt('discussion_questions')).toContain('For 6-8 people.')
+    expect(prompt('discussion_questions', { groupSize: '12' })).toContain('For 12 people.')
+  })
+
+  it('genre_explorer', () => {
+    expect(prompt('genre_explorer')).toContain('guide to the science fiction genre')
+    expect(prompt('genre_explorer', { genre: 'Gothic horror' })).toContain('guide to the Gothic horror genre')
+    expect(prompt('genre_explorer')).toContain('List exactly 10 books')
+  })
+
+  it('speed_read_guide', () => {
+    expect(prompt('speed_read_guide')).toContain('reads 200-250 wpm. Goal: double speed. Available time: 15 min/day.')
+    expect(prompt('speed_read_guide', { currentSpeed: '300', goal: 'retain more', timeAvailable: '30 minutes' })).toContain('reads 300 wpm. Goal: retain more. Available time: 30 minutes.')
+  })
+
+  it('speed_read_guide falls back to the measured library speed', () => {
+    expect(prompt('speed_read_guide', { readWpm: '275' })).toContain('reads 275 wpm (measured from their logged reading sessions).')
+    // A speed the reader typed wins, without the note
+    expect(prompt('speed_read_guide', { currentSpeed: '300', readWpm: '275' })).toContain('reads 300 wpm. Goal')
+  })
+})
+
+describe('writing prompts', () => {
+  const premise = 'A lighthouse keeper finds letters from her future self.'
+
+  it('blurb', () => {
+    const p = prompt('blurb', { premise })
+    expect(p).toContain(`Title: Untitled\nGenre: Fiction\nPremise: ${premise}`)
+    expect(p).toContain('genre-appropriate voice')
+    expect(p).not.toContain('Selling points')
+    const q = prompt('blurb', { premise, title: 'Keeper', genre: 'Fantasy', characters: 'Nell — keeper', sellingPoints: 'time loops', audience: 'fans of Piranesi' })
+    expect(q).toContain('Title: Keeper\nGenre: Fantasy')
+    expect(q).toContain('Main characters:\nNell — keeper')
+    expect(q).toContain('Selling points: time loops\nReaders who love: fans of Piranesi')
+    expect(q).toContain('Fantasy-appropriate voice')
+  })
+
+  it('query_letter leaves bracketed slots for empty fields', () => {
+    const p = prompt('query_letter', { premise })
+    for (const slot of ['[WORD COUNT]', '[HOOK — write one from the premise]', '[COMPS]', '[BIO]', '[AGENT NAME]', '[PERSONALIZATION]']) expect(p).toContain(slot)
+  })
+
+  it('query_letter with every field', () => {
+    const p = prompt('query_letter', { premise, wordCount: '85000', hook: 'She has until the tide turns.', comps: 'PIRANESI meets THE OCEAN AT THE END OF THE LANE', bio: 'Former coast guard.', agentName: 'Ms. Jane Agent', personalization: 'You asked for quiet fantasy.' })
+    expect(p).toContain('Word count: 85,000 words')
+    expect(p).toContain('Hook: She has until the tide turns.')
+    expect(p).toContain('Agent: Ms. Jane Agent')
+    expect(p).not.toMatch(/\[(WORD COUNT|COMPS|BIO|AGENT NAME|PERSONALIZATION)\]/)
+  })
+
+  it('title_ideas', () => {
+    expect(prompt('title_ideas', { premise })).toMatch(/^Suggest 10 title options for this Fiction book\./)
+    const p = prompt('title_ideas', { premise, count: '5', genre: 'Memoir', currentTitle: 'Keeper', themes: 'grief, the sea' })
+    expect(p).toMatch(/^Suggest 5 title options for this Memoir book\./)
+    expect(p).toContain('Working title: Keeper\nThemes and keywords: grief, the sea')
+  })
+
+  it('synopsis', () => {
+    const p = prompt('synopsis', { premise })
+    expect(p).toContain('Hard limit: 500 words.')
+    expect(getAction('synopsis')!.wordCap!({})).toBe(500)
+    const q = prompt('synopsis', { premise, maxWords: '300', outline: '1. Arrival\n2. Storm', ending: 'She stays.' })
+    expect(q).toContain('Hard limit: 300 words.')
+    expect(q).toContain('Plot / outline:\n1. Arrival\n2. Storm\nEnding: She stays.')
+    expect(getAction('synopsis')!.wordCap!({ maxWords: '300' })).toBe(300)
+  })
+
+  it('marks writing actions as writing', () => {
+    const writing = getActions().filter(a => a.kind === 'writing').map(a => a.id)
+    expect(writing).toEqual(['blurb', 'query_letter', 'title_ideas', 'synopsis'])
+  })
+})
+
+describe('validateValues', () => {
+  const fields = getFields('discussion_questions').fields
+
+  it('trims values and drops empty optional ones', () => {
+    expect(validateValues(fields, { bookTitle: '  Educated ', author: '' })).toEqual({ values: { bookTitle: 'Educated' }, errors: [] })
+  })
+
+  it('treats a missing values object as empty', () => {
+    expect(validateValues(fields, undefined).errors).toEqual([{ field: 'bookTitle', message: 'Book Title is required' }])
+  })
+
+  it('accepts numbers and ranges where allowed', () => {
+    expect(validateValues(fields, { bookTitle: 'x', groupSize: 8 }).errors).toEqual([])
+    expect(validateValues(fields, { bookTitle: 'x', groupSize: '6 - 8' }).errors).toEqual([])
+    expect(validateValues(fields, { bookTitle: 'x', groupSize: '8-6' }).errors[0].message).toBe('Group Size range must run low to high')
+    expect(validateValues(getFields('reading_list').fields, { length: '6-8' }).errors[0].message).toBe('Number of Books must be a whole number')
+  })
+
+  it('rejects unknown fields, non-text values, long text and non-objects', () => {
+    expect(validateValues(fields, { bookTitle: 'x', colour: 'red' }).errors).toEqual([{ field: 'colour', message: 'Unknown field "colour"' }])
+    expect(validateValues(fields, { bookTitle: ['x'] }).errors).toEqual([{ field: 'bookTitle', message: 'Book Title must be text' }])
+    expect(validateValues(fields, { bookTitle: 'x'.repeat(201) }).errors[0].message).toBe('Book Title must be at most 200 characters')
+    expect(validateValues(fields, 'Dune').errors).toEqual([{ field: 'values', message: 'values must be an object' }])
+  })
+})
@@ -0,0 +1,19 @@
+// vitest.config.ts — javari-books
+// Offline test run — in-memory storage, the mock provider unless a test swaps in recorded HTTP providers
+import path from 'path'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: { alias: { '@': path.resolve(__dirname) } },
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/setup.ts'],
+    env: {
+      BOOKS_STORE: 'memory',
+      AI_PROVIDERS: 'mock',
+      AI_BACKOFF_MS: '0',
+      BOOK_CATALOG: 'fixture',
+    },
+  },
+})